@@ -4,7 +4,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
   ...config,
   name: "expo",
   slug: "expo",
-  scheme: "expo",
+  scheme: ["mcc", "expo"],
   version: "0.1.0",
   orientation: "portrait",
   icon: "./assets/icon-light.png",
@@ -1,16 +1,38 @@
+import { useEffect } from "react";
 import { useColorScheme } from "react-native";
-import { Stack } from "expo-router";
+import * as Linking from "expo-linking";
+import { router, Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { QueryClientProvider } from "@tanstack/react-query";
 
+import { parsePairingLink, serializeQrPayload } from "@mcc/core";
+
 import { queryClient } from "~/utils/api";
 
 import "../styles.css";
 
+// Opening an mcc://pair link (or its universal link) jumps straight to
+// the pairing screen. The key rides in the URL fragment, which the router
+// drops, so the link is decoded here and handed over as a route param.
+function usePairingLinks() {
+  const url = Linking.useURL();
+
+  useEffect(() => {
+    if (!url) return;
+    const payload = parsePairingLink(url);
+    if (!payload) return;
+    router.replace({
+      pathname: "/pair",
+      params: { payload: serializeQrPayload(payload) },
+    });
+  }, [url]);
+}
+
 // This is the main layout of the app
 // It wraps your pages with the providers they need
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  usePairingLinks();
   return (
     <QueryClientProvider client={queryClient}>
       {/*
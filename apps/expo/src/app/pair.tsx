@@ -0,0 +1,51 @@
+import { Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Stack, useLocalSearchParams } from "expo-router";
+
+import type { QrPayloadError } from "@mcc/core";
+import { parseQrPayload, validateQrPayload } from "@mcc/core";
+
+const ERROR_MESSAGES: Record<QrPayloadError | "invalid", string> = {
+  invalid: "This pairing link is not valid.",
+  unsupported_version: "This pairing link needs a newer version of the app.",
+  expired: "This pairing link has expired. Show a new one on your computer.",
+  consumed: "This pairing link has already been used.",
+};
+
+/**
+ * Landing screen for pairing links. It only checks the link and shows the
+ * relay for now; the handshake is started once the app has a pairing flow.
+ */
+export default function Pair() {
+  const { payload: data } = useLocalSearchParams<{ payload?: string }>();
+
+  // Waiting for the root layout to decode the link
+  if (!data) return null;
+
+  const payload = parseQrPayload(data);
+  const validation = payload
+    ? validateQrPayload(payload)
+    : { ok: false as const, error: "invalid" as const };
+
+  return (
+    <SafeAreaView className="bg-background">
+      <Stack.Screen options={{ title: "Pair" }} />
+      <View className="h-full w-full p-4">
+        {payload && validation.ok ? (
+          <>
+            <Text className="text-primary py-2 text-3xl font-bold">
+              Pair with your computer
+            </Text>
+            <Text className="text-foreground py-4">
+              Connecting through {new URL(payload.r).host}
+            </Text>
+          </>
+        ) : (
+          <Text className="text-foreground py-4">
+            {ERROR_MESSAGES[validation.ok ? "invalid" : validation.error]}
+          </Text>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
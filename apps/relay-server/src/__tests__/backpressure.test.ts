@@ -0,0 +1,157 @@
+import RedisMock from "ioredis-mock";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TestRelay } from "./helpers.js";
+import { RedisSessionStore } from "../redis-session-store.js";
+import { join, startRelay, testConfig } from "./helpers.js";
+
+describe("Backpressure", () => {
+  let relay: TestRelay;
+
+  beforeEach(async () => {
+    const config = testConfig();
+    relay = await startRelay({
+      ...config,
+      backpressure: {
+        maxFrameBytes: 1024,
+        highWaterBytes: 4096,
+        retryAfterMs: 250,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  it("should close the socket on a frame over the size limit", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+
+    desktop.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      payload: "x".repeat(2048),
+    });
+
+    expect(await desktop.closed()).toBe(1009);
+  });
+
+  it("should relay frames up to the size limit", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+
+    desktop.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      payload: "x".repeat(512),
+    });
+
+    expect((await mobile.next("message")).payload).toHaveLength(512);
+  });
+
+  it("should answer slow_down while the peer is not draining", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+
+    // Simulate a peer whose outbound buffer is backed up on the relay
+    const peer = relay.sessionStore.getClient("session-1", "mobile");
+    if (!peer) throw new Error("mobile not joined");
+    const buffered = vi
+      .spyOn(peer.socket, "bufferedAmount", "get")
+      .mockReturnValue(8192);
+
+    desktop.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      id: "m1",
+      payload: "ciphertext",
+    });
+
+    expect(await desktop.next("error")).toMatchObject({
+      code: "slow_down",
+      id: "m1",
+      retryAfterMs: 250,
+    });
+    await expect(mobile.next("message", 100)).rejects.toThrow("Timed out");
+
+    buffered.mockRestore();
+    desktop.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      id: "m2",
+      payload: "ciphertext",
+    });
+
+    expect(await desktop.next("ack")).toMatchObject({
+      id: "m2",
+      status: "delivered",
+    });
+  });
+});
+
+describe("Backpressure across relay nodes", () => {
+  it("should answer slow_down for a backed-up peer on another node", async () => {
+    const config = testConfig({
+      backpressure: {
+        maxFrameBytes: 1024,
+        highWaterBytes: 4096,
+        retryAfterMs: 1000,
+      },
+    });
+    const [a, b] = await Promise.all(
+      ["a", "b"].map(async (nodeId) => {
+        const client = new RedisMock();
+        const store = await RedisSessionStore.create({
+          client,
+          subscriber: client.duplicate(),
+          nodeId: `backpressure-${nodeId}`,
+          sessionTtlMs: config.sessionTtlMs,
+          queueConfig: config.queue,
+          backpressure: config.backpressure,
+          pairingConfig: config.pairing,
+        });
+        return startRelay(config, store);
+      }),
+    );
+    if (!a || !b) throw new Error("relays not started");
+
+    try {
+      const desktop = await join(a, "session-1", "desktop");
+      const mobile = await join(b, "session-1", "mobile");
+      const peer = b.sessionStore.getClient("session-1", "mobile");
+      if (!peer) throw new Error("mobile not joined");
+      vi.spyOn(peer.socket, "bufferedAmount", "get").mockReturnValue(8192);
+
+      desktop.send({
+        type: "message",
+        sessionId: "session-1",
+        role: "desktop",
+        id: "m1",
+        payload: "ciphertext",
+      });
+      expect((await desktop.next("ack")).status).toBe("delivered");
+      await mobile.next("message");
+
+      desktop.send({
+        type: "message",
+        sessionId: "session-1",
+        role: "desktop",
+        id: "m2",
+        payload: "ciphertext",
+      });
+      expect(await desktop.next("error")).toMatchObject({
+        code: "slow_down",
+        id: "m2",
+      });
+    } finally {
+      for (const relay of [a, b]) {
+        await relay.fastify.close();
+        await relay.sessionStore.close();
+      }
+    }
+  });
+});
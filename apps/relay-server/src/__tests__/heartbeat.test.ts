@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { TestRelay } from "./helpers.js";
+import { join, startRelay, testConfig } from "./helpers.js";
+
+describe("Heartbeat", () => {
+  let relay: TestRelay;
+
+  beforeEach(async () => {
+    relay = await startRelay(
+      testConfig({ heartbeatIntervalMs: 20, heartbeatMaxMissed: 3 }),
+    );
+  });
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  it("should keep clients that answer pings", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(desktop.socket.readyState).toBe(1);
+    expect(mobile.socket.readyState).toBe(1);
+    expect(relay.sessionStore.getClient("session-1", "mobile")).not.toBeNull();
+  });
+
+  it("should evict a silent client and tell its peer", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+
+    mobile.goSilent();
+
+    await desktop.next("peer_left");
+    expect(await mobile.closed()).toBe(1006);
+    expect(relay.sessionStore.getClient("session-1", "mobile")).toBeNull();
+  });
+
+  it("should let the evicted client rejoin with its token", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.goSilent();
+    await desktop.next("peer_left");
+
+    await join(relay, "session-1", "mobile");
+    await desktop.next("peer_joined");
+  });
+});
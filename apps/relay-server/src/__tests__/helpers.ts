@@ -0,0 +1,168 @@
+import type { FastifyInstance } from "fastify";
+import { WebSocket } from "ws";
+
+import type { ClientFrame, FrameBody, RelayFrame } from "@mcc/core/relay";
+import { decodeRelayFrame, encodeFrame } from "@mcc/core/relay";
+
+import type { SessionStore } from "../session-store.js";
+import type { ClientRole, ServerConfig } from "../types.js";
+import { InMemorySessionStore } from "../memory-session-store.js";
+import { buildServer } from "../server.js";
+import { DEFAULT_CONFIG } from "../types.js";
+
+export const DESKTOP_TOKEN = "desktop-token-0123456789abcdef";
+export const MOBILE_TOKEN = "mobile-token-0123456789abcdef";
+
+/**
+ * Relay config for tests: no peers, no persistence, generous limits
+ */
+export function testConfig(
+  overrides: Partial<ServerConfig> = {},
+): ServerConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    sessionStore: "memory",
+    peers: { urls: [], lookupTimeoutMs: 100, secret: null },
+    ...overrides,
+  };
+}
+
+export interface TestRelay {
+  fastify: FastifyInstance;
+  sessionStore: SessionStore;
+  /** Base HTTP URL of the listening relay, as peers are configured */
+  baseUrl: string;
+  /** WebSocket URL of the listening relay */
+  url: string;
+}
+
+/**
+ * Start a relay on an in-memory session store, listening on a free port
+ */
+export async function startRelay(
+  config: ServerConfig = testConfig(),
+  sessionStore: SessionStore = new InMemorySessionStore(
+    config.sessionTtlMs,
+    config.queue,
+    config.pairing,
+  ),
+): Promise<TestRelay> {
+  const { fastify } = await buildServer(sessionStore, config);
+  const baseUrl = await fastify.listen({ host: "127.0.0.1", port: 0 });
+  return {
+    fastify,
+    sessionStore,
+    baseUrl,
+    url: `${baseUrl.replace("http", "ws")}/ws`,
+  };
+}
+
+export interface TestClient {
+  socket: WebSocket;
+  send(frame: FrameBody<ClientFrame>): void;
+  /** Resolve with the next frame of `type`, skipping any other frames */
+  next<T extends RelayFrame["type"]>(
+    type: T,
+    timeoutMs?: number,
+  ): Promise<Extract<RelayFrame, { type: T }>>;
+  /** Resolve once the relay has closed the socket */
+  closed(timeoutMs?: number): Promise<number>;
+  /** Stop answering pings, like a client that vanished without closing */
+  goSilent(): void;
+}
+
+/**
+ * Open a WebSocket to the relay and buffer every frame it sends
+ */
+export async function connect(relay: TestRelay): Promise<TestClient> {
+  // Pings are answered below so a test can stop answering them
+  const socket = new WebSocket(relay.url, { autoPong: false });
+  const frames: RelayFrame[] = [];
+  const waiters = new Set<() => void>();
+  let closeCode: number | null = null;
+  let silent = false;
+
+  socket.on("ping", (data: Buffer) => {
+    if (!silent) socket.pong(data);
+  });
+  socket.on("message", (data: Buffer) => {
+    const raw = data.toString();
+    const frame = decodeRelayFrame(raw);
+    if (!frame) throw new Error(`Relay sent an invalid frame: ${raw}`);
+    frames.push(frame);
+    for (const wake of waiters) wake();
+  });
+  socket.on("close", (code: number) => {
+    closeCode = code;
+    for (const wake of waiters) wake();
+  });
+
+  function waitFor<T>(
+    take: () => T | undefined,
+    what: string,
+    timeoutMs: number,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const value = take();
+        if (value === undefined) return;
+        clearTimeout(timer);
+        waiters.delete(check);
+        resolve(value);
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`Timed out waiting for ${what}`));
+      }, timeoutMs);
+      waiters.add(check);
+      check();
+    });
+  }
+
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve);
+    socket.once("error", reject);
+  });
+
+  return {
+    socket,
+    send(frame) {
+      socket.send(encodeFrame(frame));
+    },
+    next(type, timeoutMs = 1000) {
+      return waitFor(
+        () => {
+          const index = frames.findIndex((frame) => frame.type === type);
+          if (index === -1) return undefined;
+          return frames.splice(index, 1)[0] as Extract<
+            RelayFrame,
+            { type: typeof type }
+          >;
+        },
+        `a ${type} frame`,
+        timeoutMs,
+      );
+    },
+    closed(timeoutMs = 1000) {
+      return waitFor(() => closeCode ?? undefined, "close", timeoutMs);
+    },
+    goSilent() {
+      silent = true;
+    },
+  };
+}
+
+/**
+ * Connect and join `sessionId` as `role`, waiting for the relay to confirm
+ */
+export async function join(
+  relay: TestRelay,
+  sessionId: string,
+  role: ClientRole,
+  token: string = role === "desktop" ? DESKTOP_TOKEN : MOBILE_TOKEN,
+): Promise<TestClient> {
+  const client = await connect(relay);
+  client.send({ type: "join", sessionId, role, token });
+  await client.next("joined");
+  return client;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { TestRelay } from "./helpers.js";
+import { connect, join, startRelay } from "./helpers.js";
+
+describe("Join", () => {
+  let relay: TestRelay;
+
+  beforeEach(async () => {
+    relay = await startRelay();
+  });
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  it("should tell each side when its peer joins", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    await join(relay, "session-1", "mobile");
+
+    await desktop.next("peer_joined");
+  });
+
+  it("should reject a second client claiming a taken role", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+
+    const intruder = await connect(relay);
+    intruder.send({
+      type: "join",
+      sessionId: "session-1",
+      role: "mobile",
+      token: "intruder-token-0123456789abcdef",
+    });
+
+    expect((await intruder.next("error")).code).toBe("role_claimed");
+    expect(mobile.socket.readyState).toBe(1);
+    expect(
+      relay.sessionStore.getClient("session-1", "mobile")?.socket,
+    ).not.toBe(intruder.socket);
+  });
+
+  it("should keep the claim after the owner disconnects", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.socket.close();
+    await mobile.closed();
+
+    const intruder = await connect(relay);
+    intruder.send({
+      type: "join",
+      sessionId: "session-1",
+      role: "mobile",
+      token: "intruder-token-0123456789abcdef",
+    });
+
+    expect((await intruder.next("error")).code).toBe("role_claimed");
+  });
+
+  it("should let the same token take over from a stale socket", async () => {
+    const stale = await join(relay, "session-1", "desktop");
+    const fresh = await join(relay, "session-1", "desktop");
+
+    expect(await stale.closed()).toBe(4001);
+    expect(fresh.socket.readyState).toBe(1);
+    expect(relay.sessionStore.getClient("session-1", "desktop")).not.toBeNull();
+  });
+
+  it("should not tell the peer the replaced socket left", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+    const stale = await join(relay, "session-1", "desktop");
+    await mobile.next("peer_joined");
+
+    await join(relay, "session-1", "desktop");
+    await stale.closed();
+
+    await mobile.next("peer_joined");
+    await expect(mobile.next("peer_left", 100)).rejects.toThrow("Timed out");
+  });
+
+  it("should reject frames that are not valid relay frames", async () => {
+    const client = await connect(relay);
+    client.socket.send("not json");
+
+    expect((await client.next("error")).code).toBe("invalid_frame");
+  });
+
+  it("should reject messages before joining", async () => {
+    const client = await connect(relay);
+    client.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      id: "m1",
+      payload: "ciphertext",
+    });
+
+    expect((await client.next("error")).code).toBe("not_joined");
+  });
+});
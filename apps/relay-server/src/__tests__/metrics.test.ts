@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { TestRelay } from "./helpers.js";
+import { registry } from "../metrics.js";
+import { connect, join, startRelay } from "./helpers.js";
+
+describe("Metrics", () => {
+  let relay: TestRelay;
+
+  beforeEach(async () => {
+    registry.resetMetrics();
+    relay = await startRelay();
+  });
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  async function scrape(): Promise<string> {
+    const response = await relay.fastify.inject({ url: "/metrics" });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/plain");
+    return response.body;
+  }
+
+  it("should count joins, relayed messages and bytes", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    await join(relay, "session-1", "mobile");
+
+    desktop.send({
+      type: "message",
+      sessionId: "session-1",
+      role: "desktop",
+      id: "m1",
+      payload: "ciphertext",
+    });
+    await desktop.next("ack");
+
+    const metrics = await scrape();
+    expect(metrics).toContain('relay_joins_total{role="desktop"} 1');
+    expect(metrics).toContain('relay_joins_total{role="mobile"} 1');
+    expect(metrics).toContain(
+      'relay_messages_relayed_total{status="delivered"} 1',
+    );
+    expect(metrics).toContain(
+      `relay_bytes_relayed_total{status="delivered"} ${"ciphertext".length}`,
+    );
+  });
+
+  it("should count errors by reason", async () => {
+    const client = await connect(relay);
+    client.socket.send("not json");
+    await client.next("error");
+
+    expect(await scrape()).toContain(
+      'relay_errors_total{reason="invalid_frame"} 1',
+    );
+  });
+
+  it("should count peer_left notifications", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.socket.close();
+    await desktop.next("peer_left");
+
+    expect(await scrape()).toContain("relay_peer_left_total 1");
+  });
+
+  it("should never record payloads, tokens or session ids", async () => {
+    const desktop = await join(relay, "secret-session", "desktop");
+    desktop.send({
+      type: "message",
+      sessionId: "secret-session",
+      role: "desktop",
+      payload: "secret-payload",
+    });
+    await desktop.next("ack");
+
+    const metrics = await scrape();
+    expect(metrics).not.toContain("secret-session");
+    expect(metrics).not.toContain("secret-payload");
+    expect(metrics).not.toContain("desktop-token");
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type {
+  ClaimNameplateResponse,
+  CreateNameplateResponse,
+} from "@mcc/core/pairing";
+import { RENDEZVOUS_PATH } from "@mcc/core/pairing";
+
+import type { TestRelay } from "./helpers.js";
+import { connect, DESKTOP_TOKEN, join, startRelay } from "./helpers.js";
+
+describe("Pairing consumption", () => {
+  let relay: TestRelay;
+
+  beforeEach(async () => {
+    relay = await startRelay();
+  });
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  it("should let the mobile consume pairing", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.send({ type: "consume_pairing" });
+
+    await mobile.next("pairing_consumed");
+    expect(await relay.sessionStore.isPairingConsumed("session-1")).toBe(true);
+  });
+
+  it("should refuse consume_pairing from the desktop", async () => {
+    const desktop = await join(relay, "session-1", "desktop");
+    desktop.send({ type: "consume_pairing" });
+
+    expect((await desktop.next("error")).code).toBe("wrong_role");
+    expect(await relay.sessionStore.isPairingConsumed("session-1")).toBe(false);
+  });
+
+  it("should refuse consume_pairing before joining", async () => {
+    const client = await connect(relay);
+    client.send({ type: "consume_pairing" });
+
+    expect((await client.next("error")).code).toBe("not_joined");
+  });
+
+  it("should reject another mobile once pairing is consumed", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.send({ type: "consume_pairing" });
+    await mobile.next("pairing_consumed");
+    mobile.socket.close();
+    await mobile.closed();
+
+    const other = await connect(relay);
+    other.send({
+      type: "join",
+      sessionId: "session-1",
+      role: "mobile",
+      token: "other-phone-token-0123456789",
+    });
+
+    expect((await other.next("error")).code).toBe("pairing_consumed");
+  });
+
+  it("should still let the paired mobile reconnect", async () => {
+    const mobile = await join(relay, "session-1", "mobile");
+    mobile.send({ type: "consume_pairing" });
+    await mobile.next("pairing_consumed");
+    mobile.socket.close();
+    await mobile.closed();
+
+    await join(relay, "session-1", "mobile");
+  });
+
+  describe("rejecting a mobile", () => {
+    const IMPOSTOR_TOKEN = "impostor-token-0123456789abcdef";
+
+    it("should let the desktop turn away a phone that guessed the nameplate", async () => {
+      const desktop = await join(relay, "session-1", "desktop");
+      const created = await relay.fastify.inject({
+        method: "POST",
+        url: RENDEZVOUS_PATH,
+        payload: { sessionId: "session-1", token: DESKTOP_TOKEN },
+      });
+      const { nameplate } = created.json<CreateNameplateResponse>();
+
+      // A guesser claims the nameplate before the real phone does
+      const claimed = await relay.fastify.inject({
+        method: "POST",
+        url: `${RENDEZVOUS_PATH}/${nameplate}/claim`,
+      });
+      const { sessionId } = claimed.json<ClaimNameplateResponse>();
+      const impostor = await join(relay, sessionId, "mobile", IMPOSTOR_TOKEN);
+      await desktop.next("peer_joined");
+
+      // Its PAKE message fails on the desktop, which rejects it
+      desktop.send({ type: "reject_peer" });
+
+      expect(await impostor.closed()).toBe(4003);
+      await desktop.next("peer_left");
+      await join(relay, "session-1", "mobile");
+    });
+
+    it("should free the slot even after the impostor consumed pairing", async () => {
+      const desktop = await join(relay, "session-1", "desktop");
+      const impostor = await join(relay, "session-1", "mobile", IMPOSTOR_TOKEN);
+      impostor.send({ type: "consume_pairing" });
+      await impostor.next("pairing_consumed");
+      impostor.socket.close();
+      await desktop.next("peer_left");
+
+      desktop.send({ type: "reject_peer" });
+      await desktop.next("peer_left");
+
+      expect(await relay.sessionStore.isPairingConsumed("session-1")).toBe(
+        false,
+      );
+      await join(relay, "session-1", "mobile");
+    });
+
+    it("should tell a rejoining desktop about a mobile that joined meanwhile", async () => {
+      const desktop = await join(relay, "session-1", "desktop");
+      desktop.send({ type: "leave" });
+      await join(relay, "session-1", "mobile", IMPOSTOR_TOKEN);
+
+      const rejoined = await connect(relay);
+      rejoined.send({
+        type: "join",
+        sessionId: "session-1",
+        role: "desktop",
+        token: DESKTOP_TOKEN,
+      });
+
+      await rejoined.next("joined");
+      await rejoined.next("peer_joined");
+    });
+
+    it("should refuse reject_peer from the mobile", async () => {
+      await join(relay, "session-1", "desktop");
+      const mobile = await join(relay, "session-1", "mobile");
+      mobile.send({ type: "reject_peer" });
+
+      expect((await mobile.next("error")).code).toBe("wrong_role");
+      expect(
+        relay.sessionStore.getClient("session-1", "mobile"),
+      ).not.toBeNull();
+    });
+  });
+});
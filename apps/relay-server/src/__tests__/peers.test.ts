@@ -0,0 +1,164 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { PeerConfig } from "../types.js";
+import type { TestRelay } from "./helpers.js";
+import { SESSION_LOOKUP_PATH } from "../peers.js";
+import {
+  connect,
+  DESKTOP_TOKEN,
+  join,
+  MOBILE_TOKEN,
+  startRelay,
+  testConfig,
+} from "./helpers.js";
+
+const SECRET = "peer-secret-0123456789abcdef";
+
+describe("Peer relays", () => {
+  const relays: TestRelay[] = [];
+
+  async function start(peers: Partial<PeerConfig> = {}): Promise<TestRelay> {
+    const config = testConfig();
+    const relay = await startRelay({
+      ...config,
+      peers: { ...config.peers, secret: SECRET, ...peers },
+    });
+    relays.push(relay);
+    return relay;
+  }
+
+  afterEach(async () => {
+    await Promise.all(relays.splice(0).map((relay) => relay.fastify.close()));
+  });
+
+  describe("session lookup route", () => {
+    it("should answer peers presenting the secret", async () => {
+      const relay = await start();
+      await join(relay, "session-1", "desktop");
+      const headers = { authorization: `Bearer ${SECRET}` };
+
+      const found = await relay.fastify.inject({
+        url: `${SESSION_LOOKUP_PATH}/session-1`,
+        headers,
+      });
+      const missing = await relay.fastify.inject({
+        url: `${SESSION_LOOKUP_PATH}/session-2`,
+        headers,
+      });
+
+      expect(found.statusCode).toBe(204);
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it("should refuse lookups without the secret", async () => {
+      const relay = await start();
+      await join(relay, "session-1", "desktop");
+
+      const anonymous = await relay.fastify.inject({
+        url: `${SESSION_LOOKUP_PATH}/session-1`,
+      });
+      const wrong = await relay.fastify.inject({
+        url: `${SESSION_LOOKUP_PATH}/session-1`,
+        headers: { authorization: "Bearer not-the-secret" },
+      });
+
+      expect(anonymous.statusCode).toBe(401);
+      expect(wrong.statusCode).toBe(401);
+    });
+
+    it("should not serve lookups when no secret is configured", async () => {
+      const relay = await start({ secret: null });
+      await join(relay, "session-1", "desktop");
+
+      const response = await relay.fastify.inject({
+        url: `${SESSION_LOOKUP_PATH}/session-1`,
+        headers: { authorization: `Bearer ${SECRET}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("join redirects", () => {
+    it("should redirect a mobile to the peer holding the session", async () => {
+      const home = await start();
+      await join(home, "session-1", "desktop");
+      const fallback = await start({ urls: [home.baseUrl] });
+
+      const mobile = await connect(fallback);
+      mobile.send({
+        type: "join",
+        sessionId: "session-1",
+        role: "mobile",
+        token: MOBILE_TOKEN,
+      });
+
+      expect((await mobile.next("redirect")).relayUrl).toBe(home.baseUrl);
+      expect(await fallback.sessionStore.hasSession("session-1")).toBe(false);
+    });
+
+    it("should redirect a resuming desktop to the peer holding the session", async () => {
+      const home = await start();
+      await join(home, "session-1", "mobile");
+      const fallback = await start({ urls: [home.baseUrl] });
+
+      const desktop = await connect(fallback);
+      desktop.send({
+        type: "join",
+        sessionId: "session-1",
+        role: "desktop",
+        token: DESKTOP_TOKEN,
+        resume: true,
+      });
+
+      expect((await desktop.next("redirect")).relayUrl).toBe(home.baseUrl);
+    });
+
+    it("should create a desktop's new session without asking peers", async () => {
+      const home = await start();
+      await join(home, "session-1", "mobile");
+      const fallback = await start({ urls: [home.baseUrl] });
+
+      await join(fallback, "session-1", "desktop");
+      expect(await fallback.sessionStore.hasSession("session-1")).toBe(true);
+    });
+
+    it("should not ask peers about a session held locally", async () => {
+      // A peer that claims to hold every session and records each lookup
+      const lookups: string[] = [];
+      const peer = createServer((request, response) => {
+        lookups.push(request.url ?? "");
+        response.writeHead(204).end();
+      });
+      await new Promise<void>((resolve) => {
+        peer.listen(0, "127.0.0.1", resolve);
+      });
+      const { port } = peer.address() as AddressInfo;
+
+      try {
+        const relay = await start({ urls: [`http://127.0.0.1:${port}`] });
+        await join(relay, "session-1", "desktop");
+
+        const mobile = await join(relay, "session-1", "mobile");
+
+        expect(lookups).toEqual([]);
+        await expect(mobile.next("redirect", 100)).rejects.toThrow("Timed out");
+        expect(relay.sessionStore.getClient("session-1", "mobile")).not.toBe(
+          null,
+        );
+      } finally {
+        await new Promise((resolve) => peer.close(resolve));
+      }
+    });
+
+    it("should join locally when peers refuse the secret", async () => {
+      const home = await start({ secret: "another-secret-0123456789" });
+      await join(home, "session-1", "desktop");
+      const fallback = await start({ urls: [home.baseUrl] });
+
+      await join(fallback, "session-1", "mobile");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { QueueConfig } from "../types.js";
+import type { TestClient, TestRelay } from "./helpers.js";
+import { join, startRelay, testConfig } from "./helpers.js";
+
+function sendMessage(client: TestClient, id: string, payload: string): void {
+  client.send({
+    type: "message",
+    sessionId: "session-1",
+    role: "desktop",
+    id,
+    payload,
+  });
+}
+
+describe("Offline queue", () => {
+  let relay: TestRelay;
+
+  async function start(queue: Partial<QueueConfig> = {}): Promise<void> {
+    const config = testConfig();
+    relay = await startRelay({
+      ...config,
+      queue: { ...config.queue, ...queue },
+    });
+  }
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  it("should ack delivered when the peer is connected", async () => {
+    await start();
+    const desktop = await join(relay, "session-1", "desktop");
+    const mobile = await join(relay, "session-1", "mobile");
+
+    sendMessage(desktop, "m1", "ciphertext");
+
+    expect(await desktop.next("ack")).toMatchObject({
+      id: "m1",
+      status: "delivered",
+    });
+    expect((await mobile.next("message")).payload).toBe("ciphertext");
+  });
+
+  it("should queue for an offline peer and flush in order on join", async () => {
+    await start();
+    const desktop = await join(relay, "session-1", "desktop");
+
+    sendMessage(desktop, "m1", "first");
+    sendMessage(desktop, "m2", "second");
+
+    expect(await desktop.next("ack")).toMatchObject({
+      id: "m1",
+      status: "queued",
+    });
+    expect(await desktop.next("ack")).toMatchObject({
+      id: "m2",
+      status: "queued",
+    });
+
+    const mobile = await join(relay, "session-1", "mobile");
+    expect((await mobile.next("message")).payload).toBe("first");
+    expect((await mobile.next("message")).payload).toBe("second");
+  });
+
+  it("should only flush the queue once", async () => {
+    await start();
+    const desktop = await join(relay, "session-1", "desktop");
+    sendMessage(desktop, "m1", "first");
+    await desktop.next("ack");
+
+    const mobile = await join(relay, "session-1", "mobile");
+    await mobile.next("message");
+    mobile.socket.close();
+    await mobile.closed();
+
+    const rejoined = await join(relay, "session-1", "mobile");
+    await expect(rejoined.next("message", 100)).rejects.toThrow("Timed out");
+  });
+
+  it("should refuse messages once the queue is full by count", async () => {
+    await start({ maxMessages: 1 });
+    const desktop = await join(relay, "session-1", "desktop");
+
+    sendMessage(desktop, "m1", "first");
+    sendMessage(desktop, "m2", "second");
+
+    expect((await desktop.next("ack")).id).toBe("m1");
+    expect(await desktop.next("error")).toMatchObject({
+      code: "queue_full",
+      id: "m2",
+    });
+  });
+
+  it("should refuse messages once the queue is full by bytes", async () => {
+    await start({ maxBytes: 8 });
+    const desktop = await join(relay, "session-1", "desktop");
+
+    sendMessage(desktop, "m1", "12345678");
+    sendMessage(desktop, "m2", "9");
+
+    expect((await desktop.next("ack")).id).toBe("m1");
+    expect(await desktop.next("error")).toMatchObject({
+      code: "queue_full",
+      id: "m2",
+    });
+  });
+
+  it("should drop queued messages older than the TTL", async () => {
+    await start({ ttlMs: 20 });
+    const desktop = await join(relay, "session-1", "desktop");
+    sendMessage(desktop, "m1", "stale");
+    await desktop.next("ack");
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const mobile = await join(relay, "session-1", "mobile");
+    await expect(mobile.next("message", 100)).rejects.toThrow("Timed out");
+  });
+});
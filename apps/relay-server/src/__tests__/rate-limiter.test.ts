@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RENDEZVOUS_PATH } from "@mcc/core/pairing";
+
+import type { RateLimitConfig } from "../types.js";
+import { RateLimiter, TokenBucket } from "../rate-limiter.js";
+import { connect, startRelay, testConfig } from "./helpers.js";
+
+const CONFIG: RateLimitConfig = {
+  maxConnectionsPerIp: 2,
+  framesPerSecond: 5,
+  joinsPerMinute: 3,
+  messagesPerSecond: 2,
+  bytesPerSecond: 100,
+  maxViolations: 3,
+};
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start full and refuse once empty", () => {
+    const bucket = new TokenBucket(2, 1);
+
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+
+  it("should refill over time up to capacity", () => {
+    const bucket = new TokenBucket(2, 1);
+    bucket.tryRemove(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(bucket.msUntilAvailable()).toBe(0);
+    expect(bucket.msUntilAvailable(2)).toBe(1000);
+
+    vi.advanceTimersByTime(10_000);
+    expect(bucket.isFull()).toBe(true);
+  });
+
+  it("should check without taking tokens", () => {
+    const bucket = new TokenBucket(1, 1);
+
+    expect(bucket.has()).toBe(true);
+    expect(bucket.has()).toBe(true);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.has()).toBe(false);
+  });
+});
+
+describe("RateLimiter", () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter(CONFIG);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("connections", () => {
+    it("should cap concurrent connections per IP", () => {
+      expect(limiter.acquireConnection("1.2.3.4").allowed).toBe(true);
+      expect(limiter.acquireConnection("1.2.3.4").allowed).toBe(true);
+      expect(limiter.acquireConnection("1.2.3.4")).toMatchObject({
+        allowed: false,
+        limit: "connections",
+      });
+      expect(limiter.acquireConnection("5.6.7.8").allowed).toBe(true);
+    });
+
+    it("should free a slot on release", () => {
+      limiter.acquireConnection("1.2.3.4");
+      limiter.acquireConnection("1.2.3.4");
+      limiter.releaseConnection("1.2.3.4");
+
+      expect(limiter.acquireConnection("1.2.3.4").allowed).toBe(true);
+    });
+  });
+
+  describe("frames", () => {
+    it("should limit frames per connection", () => {
+      const bucket = limiter.createFrameBucket();
+      for (let i = 0; i < CONFIG.framesPerSecond; i++) {
+        expect(limiter.checkFrame(bucket).allowed).toBe(true);
+      }
+
+      expect(limiter.checkFrame(bucket)).toMatchObject({
+        allowed: false,
+        limit: "frames",
+        retryAfterMs: 200,
+      });
+      expect(limiter.getStats().throttledFrames).toBe(1);
+    });
+
+    it("should give each connection its own budget", () => {
+      const first = limiter.createFrameBucket();
+      for (let i = 0; i < CONFIG.framesPerSecond; i++) {
+        limiter.checkFrame(first);
+      }
+
+      expect(limiter.checkFrame(limiter.createFrameBucket()).allowed).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("joins", () => {
+    it("should limit joins per IP per minute", () => {
+      for (let i = 0; i < CONFIG.joinsPerMinute; i++) {
+        expect(limiter.checkJoin("1.2.3.4").allowed).toBe(true);
+      }
+
+      expect(limiter.checkJoin("1.2.3.4")).toMatchObject({
+        allowed: false,
+        limit: "joins",
+        retryAfterMs: 20_000,
+      });
+
+      vi.advanceTimersByTime(20_000);
+      expect(limiter.checkJoin("1.2.3.4").allowed).toBe(true);
+    });
+  });
+
+  describe("messages", () => {
+    it("should limit messages per session", () => {
+      expect(limiter.checkMessage("s1", 1).allowed).toBe(true);
+      expect(limiter.checkMessage("s1", 1).allowed).toBe(true);
+
+      expect(limiter.checkMessage("s1", 1)).toMatchObject({
+        allowed: false,
+        limit: "messages",
+      });
+      expect(limiter.checkMessage("s2", 1).allowed).toBe(true);
+    });
+
+    it("should limit bytes per session", () => {
+      expect(limiter.checkMessage("s1", 60).allowed).toBe(true);
+
+      expect(limiter.checkMessage("s1", 60)).toMatchObject({
+        allowed: false,
+        limit: "bytes",
+        retryAfterMs: 200,
+      });
+    });
+
+    it("should not spend a message token when bytes are refused", () => {
+      limiter.checkMessage("s1", 100);
+
+      // Refused for bytes; must leave the message bucket untouched
+      expect(limiter.checkMessage("s1", 100).allowed).toBe(false);
+      expect(limiter.checkMessage("s1", 100).allowed).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(limiter.checkMessage("s1", 100).allowed).toBe(true);
+      expect(limiter.getStats().throttledMessages).toBe(0);
+    });
+
+    it("should let a frame bigger than the byte budget through once full", () => {
+      expect(limiter.checkMessage("s1", 500).allowed).toBe(true);
+
+      expect(limiter.checkMessage("s1", 500)).toMatchObject({
+        allowed: false,
+        limit: "bytes",
+        retryAfterMs: 1000,
+      });
+
+      vi.advanceTimersByTime(1000);
+      expect(limiter.checkMessage("s1", 500).allowed).toBe(true);
+    });
+  });
+
+  describe("prune", () => {
+    it("should drop buckets once they have refilled", () => {
+      limiter.checkJoin("1.2.3.4");
+      limiter.checkMessage("s1", 10);
+      expect(limiter.prune()).toBe(0);
+
+      vi.advanceTimersByTime(60_000);
+      expect(limiter.prune()).toBe(3);
+      expect(limiter.getStats()).toMatchObject({
+        trackedIps: 0,
+        trackedSessions: 0,
+      });
+    });
+  });
+});
+
+describe("Frame limits on the WebSocket", () => {
+  it("should throttle and then disconnect a flood of invalid frames", async () => {
+    const relay = await startRelay(testConfig({ rateLimits: CONFIG }));
+    try {
+      const client = await connect(relay);
+      for (let i = 0; i < 20; i++) client.socket.send("not json");
+
+      // Frames within the budget are parsed and refused as invalid
+      let error = await client.next("error");
+      while (error.code === "invalid_frame") error = await client.next("error");
+
+      expect(error).toMatchObject({
+        code: "rate_limited",
+        message: "Rate limit exceeded: frames",
+      });
+      expect(await client.closed()).toBe(1008);
+    } finally {
+      await relay.fastify.close();
+    }
+  });
+});
+
+describe("Per-IP limits behind a proxy", () => {
+  it("should ignore forwarded addresses the client made up", async () => {
+    const relay = await startRelay(
+      testConfig({ trustProxy: 1, rateLimits: CONFIG }),
+    );
+    try {
+      const statuses = [];
+      for (let i = 0; i <= CONFIG.joinsPerMinute; i++) {
+        // The proxy appends the real address after the client's own entry
+        const response = await relay.fastify.inject({
+          method: "POST",
+          url: `${RENDEZVOUS_PATH}/1234/claim`,
+          headers: { "x-forwarded-for": `10.0.0.${i}, 9.9.9.9` },
+        });
+        statuses.push(response.statusCode);
+      }
+
+      expect(statuses.at(-1)).toBe(429);
+      expect(statuses.slice(0, -1)).not.toContain(429);
+    } finally {
+      await relay.fastify.close();
+    }
+  });
+});
@@ -0,0 +1,367 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { WebSocket } from "ws";
+import RedisMock from "ioredis-mock";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RelayFrame } from "@mcc/core/relay";
+import { decodeRelayFrame } from "@mcc/core/relay";
+
+import type { Client, ClientRole, QueueConfig } from "../types.js";
+import { RedisSessionStore } from "../redis-session-store.js";
+
+const QUEUE: QueueConfig = { maxMessages: 3, maxBytes: 64, ttlMs: 60_000 };
+
+/**
+ * Stand-in for a relay socket that records what the store writes to it
+ */
+class FakeSocket {
+  readyState = 1;
+  bufferedAmount = 0;
+  sent: RelayFrame[] = [];
+  closeCode: number | null = null;
+
+  send(data: string): void {
+    const frame = decodeRelayFrame(data);
+    if (frame) this.sent.push(frame);
+  }
+
+  close(code: number): void {
+    this.closeCode = code;
+    this.readyState = 3;
+  }
+}
+
+function fakeClient(role: ClientRole): { client: Client; socket: FakeSocket } {
+  const socket = new FakeSocket();
+  const now = new Date();
+  return {
+    socket,
+    client: {
+      socket: socket as unknown as WebSocket,
+      role,
+      connectedAt: now,
+      lastHeartbeat: now,
+    },
+  };
+}
+
+describe("RedisSessionStore", () => {
+  const stores: RedisSessionStore[] = [];
+  let testId = 0;
+
+  /**
+   * A relay node; every node shares the same in-process Redis data.
+   * Node ids are unique per test, as the fake keeps delivering to closed
+   * subscribers.
+   */
+  async function createNode(
+    name: string,
+    queueConfig: QueueConfig = QUEUE,
+  ): Promise<RedisSessionStore> {
+    const client = new RedisMock();
+    const store = await RedisSessionStore.create({
+      client,
+      subscriber: client.duplicate(),
+      nodeId: `${name}-${testId}`,
+      sessionTtlMs: 60_000,
+      queueConfig,
+      backpressure: {
+        maxFrameBytes: 1024,
+        highWaterBytes: 4096,
+        retryAfterMs: 250,
+      },
+      pairingConfig: { nameplateTtlMs: 60_000, maxNameplates: 100 },
+    });
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    testId++;
+    await new RedisMock().flushall();
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((store) => store.close()));
+  });
+
+  it("should report connection errors to its logger", async () => {
+    const client = new RedisMock();
+    const logger = { error: vi.fn() };
+    stores.push(
+      await RedisSessionStore.create({
+        client,
+        subscriber: client.duplicate(),
+        nodeId: `logged-${testId}`,
+        sessionTtlMs: 60_000,
+        queueConfig: QUEUE,
+        backpressure: {
+          maxFrameBytes: 1024,
+          highWaterBytes: 4096,
+          retryAfterMs: 250,
+        },
+        pairingConfig: { nameplateTtlMs: 60_000, maxNameplates: 100 },
+        logger: logger as unknown as FastifyBaseLogger,
+      }),
+    );
+
+    const err = new Error("connect ECONNREFUSED");
+    client.emit("error", err);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      { err },
+      "Redis connection error",
+    );
+  });
+
+  describe("claimRole", () => {
+    it("should give the slot to the first token only", async () => {
+      const store = await createNode("a");
+
+      expect(await store.claimRole("s1", "desktop", "token-one")).toBe(true);
+      expect(await store.claimRole("s1", "desktop", "token-two")).toBe(false);
+      expect(await store.claimRole("s1", "desktop", "token-one")).toBe(true);
+      expect(await store.hasSession("s1")).toBe(true);
+    });
+
+    it("should let exactly one of concurrent claims on two nodes win", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+
+      const results = await Promise.all([
+        a.claimRole("s1", "mobile", "token-a"),
+        b.claimRole("s1", "mobile", "token-b"),
+        a.claimRole("s1", "mobile", "token-c"),
+        b.claimRole("s1", "mobile", "token-d"),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("should refuse a fresh mobile claim once pairing is consumed", async () => {
+      const store = await createNode("a");
+      await store.claimRole("s1", "mobile", "phone");
+      await store.consumePairing("s1");
+      await store.removeClient("s1", "mobile", true);
+
+      expect(await store.claimRole("s1", "mobile", "phone")).toBe(true);
+      expect(await store.claimRole("s1", "mobile", "other")).toBe(false);
+    });
+
+    it("should refuse an unclaimed mobile slot of a consumed pairing", async () => {
+      const store = await createNode("a");
+      await store.claimRole("s1", "desktop", "laptop");
+      await store.consumePairing("s1");
+
+      expect(await store.claimRole("s1", "mobile", "phone")).toBe(false);
+    });
+  });
+
+  describe("ownsRole", () => {
+    it("should check a claim without making one", async () => {
+      const store = await createNode("a");
+      expect(await store.ownsRole("s1", "desktop", "laptop")).toBe(false);
+      expect(await store.hasSession("s1")).toBe(false);
+
+      await store.claimRole("s1", "desktop", "laptop");
+      expect(await store.ownsRole("s1", "desktop", "laptop")).toBe(true);
+      expect(await store.ownsRole("s1", "desktop", "other")).toBe(false);
+    });
+  });
+
+  describe("nameplates", () => {
+    it("should allocate each nameplate once and resolve it once", async () => {
+      const store = await createNode("a");
+      const nameplates = [];
+      for (let i = 0; i < 100; i++) {
+        const allocation = await store.createNameplate("s1");
+        nameplates.push(allocation?.nameplate);
+      }
+
+      expect(new Set(nameplates).size).toBe(100);
+      expect(await store.createNameplate("s1")).toBeNull();
+      expect(await store.claimNameplate("42")).toBe("s1");
+      expect(await store.claimNameplate("42")).toBeNull();
+    });
+  });
+
+  describe("queue", () => {
+    it("should drain queued payloads in order", async () => {
+      const store = await createNode("a");
+      await store.claimRole("s1", "desktop", "laptop");
+
+      expect(await store.enqueue("s1", "mobile", "first")).toBe(true);
+      expect(await store.enqueue("s1", "mobile", "sec:ond")).toBe(true);
+
+      const drained = await store.drainQueue("s1", "mobile");
+      expect(drained.map((msg) => msg.payload)).toEqual(["first", "sec:ond"]);
+      expect(drained[1]?.bytes).toBe(7);
+      expect(await store.drainQueue("s1", "mobile")).toEqual([]);
+    });
+
+    it("should refuse payloads over the count and byte limits", async () => {
+      const store = await createNode("a");
+
+      for (let i = 0; i < QUEUE.maxMessages; i++) {
+        expect(await store.enqueue("s1", "mobile", "x")).toBe(true);
+      }
+      expect(await store.enqueue("s1", "mobile", "x")).toBe(false);
+
+      expect(await store.enqueue("s1", "desktop", "x".repeat(64))).toBe(true);
+      expect(await store.enqueue("s1", "desktop", "x")).toBe(false);
+    });
+
+    it("should never overrun the limit under concurrent senders", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, (_, i) =>
+          (i % 2 === 0 ? a : b).enqueue("s1", "mobile", `m${i}`),
+        ),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(QUEUE.maxMessages);
+      expect(await a.drainQueue("s1", "mobile")).toHaveLength(
+        QUEUE.maxMessages,
+      );
+    });
+
+    it("should drop expired payloads to make room", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        const store = await createNode("a");
+        for (let i = 0; i < QUEUE.maxMessages; i++) {
+          await store.enqueue("s1", "mobile", "old");
+        }
+
+        vi.advanceTimersByTime(QUEUE.ttlMs + 1);
+        expect(await store.enqueue("s1", "mobile", "new")).toBe(true);
+
+        const drained = await store.drainQueue("s1", "mobile");
+        expect(drained.map((msg) => msg.payload)).toEqual(["new"]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("cross-node delivery", () => {
+    it("should forward messages to a peer on another node", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+      const desktop = fakeClient("desktop");
+      const mobile = fakeClient("mobile");
+      await a.claimRole("s1", "desktop", "laptop");
+      await a.addClient("s1", desktop.client);
+      await b.claimRole("s1", "mobile", "phone");
+      await b.addClient("s1", mobile.client);
+
+      expect(
+        await a.sendToPeer("s1", "desktop", {
+          type: "message",
+          payload: "ciphertext",
+        }),
+      ).toBe(true);
+
+      await vi.waitFor(() => {
+        expect(mobile.socket.sent).toEqual([
+          { v: 1, type: "message", payload: "ciphertext" },
+        ]);
+      });
+    });
+
+    it("should queue a forwarded message whose recipient just left", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+      const desktop = fakeClient("desktop");
+      const mobile = fakeClient("mobile");
+      await a.claimRole("s1", "desktop", "laptop");
+      await a.addClient("s1", desktop.client);
+      await b.claimRole("s1", "mobile", "phone");
+      await b.addClient("s1", mobile.client);
+
+      // Closed, but its close handler has not released the slot yet
+      mobile.socket.readyState = 3;
+      expect(
+        await a.sendToPeer("s1", "desktop", {
+          type: "message",
+          payload: "ciphertext",
+        }),
+      ).toBe(true);
+
+      await vi.waitFor(async () => {
+        expect((await b.getStats()).queuedMessages).toBe(1);
+      });
+      const queued = await b.drainQueue("s1", "mobile");
+      expect(queued.map((msg) => msg.payload)).toEqual(["ciphertext"]);
+    });
+
+    it("should flag a backed-up peer to the sending node", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+      const desktop = fakeClient("desktop");
+      const mobile = fakeClient("mobile");
+      await a.claimRole("s1", "desktop", "laptop");
+      await a.addClient("s1", desktop.client);
+      await b.claimRole("s1", "mobile", "phone");
+      await b.addClient("s1", mobile.client);
+      expect(await a.isRemoteBackedUp("s1", "mobile")).toBe(false);
+
+      mobile.socket.bufferedAmount = 8192;
+      await a.sendToPeer("s1", "desktop", {
+        type: "message",
+        payload: "ciphertext",
+      });
+
+      // Already acked, so still delivered; later messages get slow_down
+      await vi.waitFor(async () => {
+        expect(await a.isRemoteBackedUp("s1", "mobile")).toBe(true);
+      });
+      expect(mobile.socket.sent).toHaveLength(1);
+
+      // The flag lapses after the retry hint unless renewed
+      mobile.socket.bufferedAmount = 0;
+      await vi.waitFor(async () => {
+        expect(await a.isRemoteBackedUp("s1", "mobile")).toBe(false);
+      });
+    });
+
+    it("should close a rejected mobile on another node", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+      const mobile = fakeClient("mobile");
+      await a.claimRole("s1", "desktop", "laptop");
+      await b.claimRole("s1", "mobile", "impostor");
+      await b.addClient("s1", mobile.client);
+      await b.consumePairing("s1");
+      await a.enqueue("s1", "mobile", "ciphertext");
+
+      await a.rejectMobile("s1");
+
+      await vi.waitFor(() => {
+        expect(mobile.socket.closeCode).toBe(4003);
+      });
+      expect(b.getClient("s1", "mobile")).toBeNull();
+      expect(await a.isPairingConsumed("s1")).toBe(false);
+      expect(await a.drainQueue("s1", "mobile")).toEqual([]);
+      expect(await a.claimRole("s1", "mobile", "phone")).toBe(true);
+    });
+
+    it("should evict a role that reconnects on another node", async () => {
+      const a = await createNode("a");
+      const b = await createNode("b");
+      const stale = fakeClient("mobile");
+      await a.claimRole("s1", "mobile", "phone");
+      await a.addClient("s1", stale.client);
+
+      await b.claimRole("s1", "mobile", "phone");
+      await b.addClient("s1", fakeClient("mobile").client);
+
+      await vi.waitFor(() => {
+        expect(stale.socket.closeCode).toBe(4001);
+      });
+      expect(a.getClient("s1", "mobile")).toBeNull();
+    });
+  });
+});
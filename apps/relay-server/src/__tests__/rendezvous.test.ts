@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type {
+  ClaimNameplateResponse,
+  CreateNameplateResponse,
+} from "@mcc/core/pairing";
+import { RENDEZVOUS_PATH } from "@mcc/core/pairing";
+
+import type { PairingConfig } from "../types.js";
+import type { TestRelay } from "./helpers.js";
+import { nameplateCandidates } from "../session-store.js";
+import { DESKTOP_TOKEN, join, startRelay, testConfig } from "./helpers.js";
+
+describe("Rendezvous", () => {
+  let relay: TestRelay;
+
+  async function start(pairing: Partial<PairingConfig> = {}): Promise<void> {
+    const config = testConfig();
+    relay = await startRelay({
+      ...config,
+      pairing: { ...config.pairing, ...pairing },
+    });
+  }
+
+  afterEach(async () => {
+    await relay.fastify.close();
+  });
+
+  function createNameplate(sessionId: string, token = DESKTOP_TOKEN) {
+    return relay.fastify.inject({
+      method: "POST",
+      url: RENDEZVOUS_PATH,
+      payload: { sessionId, token },
+    });
+  }
+
+  function claimNameplate(nameplate: string) {
+    return relay.fastify.inject({
+      method: "POST",
+      url: `${RENDEZVOUS_PATH}/${nameplate}/claim`,
+    });
+  }
+
+  it("should resolve a nameplate to its session once", async () => {
+    await start();
+    await join(relay, "session-1", "desktop");
+
+    const created = await createNameplate("session-1");
+    expect(created.statusCode).toBe(201);
+    const { nameplate } = created.json<CreateNameplateResponse>();
+
+    const claimed = await claimNameplate(nameplate);
+    expect(claimed.json<ClaimNameplateResponse>()).toEqual({
+      sessionId: "session-1",
+    });
+    expect((await claimNameplate(nameplate)).statusCode).toBe(404);
+  });
+
+  it("should refuse allocation without the desktop's token", async () => {
+    await start();
+    await join(relay, "session-1", "desktop");
+
+    const response = await createNameplate(
+      "session-1",
+      "someone-else-0123456789abcdef",
+    );
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toEqual({ error: "not_session_owner" });
+  });
+
+  it("should refuse allocation for a session nobody holds", async () => {
+    await start();
+
+    const response = await createNameplate("session-1");
+
+    expect(response.statusCode).toBe(403);
+    expect(await relay.sessionStore.hasSession("session-1")).toBe(false);
+  });
+
+  it("should hand out distinct nameplates until none are left", async () => {
+    await start({ maxNameplates: 3 });
+    await join(relay, "session-1", "desktop");
+
+    const nameplates = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await createNameplate("session-1");
+      nameplates.push(response.json<CreateNameplateResponse>().nameplate);
+    }
+
+    expect(new Set(nameplates)).toEqual(new Set(["1", "2", "3"]));
+    expect((await createNameplate("session-1")).statusCode).toBe(503);
+  });
+
+  it("should not allocate nameplates in order", () => {
+    const first = Array.from({ length: 10 }, () => {
+      const [candidate] = nameplateCandidates(9999);
+      return candidate;
+    });
+
+    expect(new Set(first).size).toBeGreaterThan(1);
+  });
+
+  it("should offer every nameplate once random picks run out", () => {
+    const candidates = [...nameplateCandidates(50)];
+
+    expect(new Set(candidates)).toEqual(
+      new Set(Array.from({ length: 50 }, (_, i) => String(i + 1))),
+    );
+  });
+});
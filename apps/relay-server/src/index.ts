@@ -1,60 +1,99 @@
-import fastifyWebsocket from "@fastify/websocket";
-import Fastify from "fastify";
+import { Redis } from "ioredis";
+import { pino } from "pino";
 
-import { SessionStore } from "./session-store.js";
+import type { SessionStore } from "./session-store.js";
+import { InMemorySessionStore } from "./memory-session-store.js";
+import { expiredSessionsTotal } from "./metrics.js";
+import { RedisSessionStore } from "./redis-session-store.js";
+import { buildServer } from "./server.js";
 import { DEFAULT_CONFIG } from "./types.js";
-import { setupWebSocket } from "./websocket.js";
 
 const config = DEFAULT_CONFIG;
 
-const fastify = Fastify({
-  logger: {
-    level: process.env.LOG_LEVEL ?? "info",
-    transport:
-      process.env.NODE_ENV === "development"
-        ? {
-            target: "pino-pretty",
-            options: {
-              colorize: true,
-            },
-          }
-        : undefined,
-  },
+// Created ahead of the server so the session store can log through it too
+const logger = pino({
+  level: process.env.LOG_LEVEL ?? "info",
+  transport:
+    process.env.NODE_ENV === "development"
+      ? {
+          target: "pino-pretty",
+          options: {
+            colorize: true,
+          },
+        }
+      : undefined,
 });
 
-const sessionStore = new SessionStore(config.sessionTtlMs);
+async function createSessionStore(): Promise<SessionStore> {
+  if (config.sessionStore === "redis") {
+    const client = new Redis(config.redisUrl);
+    // ioredis retries forever, so an unreachable Redis would otherwise
+    // hang startup without a word
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new Error(
+            `Redis unreachable after ${config.redisConnectTimeoutMs} ms`,
+          ),
+        );
+      }, config.redisConnectTimeoutMs);
+    });
+    try {
+      return await Promise.race([
+        RedisSessionStore.create({
+          client,
+          subscriber: client.duplicate(),
+          nodeId: config.nodeId,
+          sessionTtlMs: config.sessionTtlMs,
+          queueConfig: config.queue,
+          backpressure: config.backpressure,
+          pairingConfig: config.pairing,
+          logger,
+        }),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return new InMemorySessionStore(
+    config.sessionTtlMs,
+    config.queue,
+    config.pairing,
+  );
+}
 
-// Health check endpoint
-fastify.get("/health", () => {
-  const stats = sessionStore.getStats();
-  return {
-    status: "ok",
-    timestamp: new Date().toISOString(),
-    sessions: stats,
-  };
+const sessionStore = await createSessionStore().catch((err: unknown) => {
+  logger.error({ err }, "Failed to set up the session store");
+  process.exit(1);
 });
-
-// Root endpoint
-fastify.get("/", () => {
-  return {
-    name: "@mcc/relay-server",
-    version: "0.1.0",
-    description: "Mobile Claude Code blind relay server",
-  };
+const { fastify, rateLimiter } = await buildServer(sessionStore, config, {
+  loggerInstance: logger,
 });
-
-// Register WebSocket plugin
-await fastify.register(fastifyWebsocket);
-
-// Setup WebSocket routes
-setupWebSocket(fastify, sessionStore);
+fastify.log.info(
+  {
+    sessionStore: config.sessionStore,
+    nodeId: config.nodeId,
+    peers: config.peers.urls,
+  },
+  "Session store ready",
+);
 
 // Session cleanup interval
 const cleanupInterval = setInterval(() => {
-  const cleaned = sessionStore.cleanupExpired();
-  if (cleaned > 0) {
-    fastify.log.info({ cleaned }, "Cleaned up expired sessions");
-  }
+  rateLimiter.prune();
+  sessionStore
+    .cleanupExpired()
+    .then((cleaned) => {
+      expiredSessionsTotal.inc(cleaned);
+      if (cleaned > 0) {
+        fastify.log.info({ cleaned }, "Cleaned up expired sessions");
+      }
+    })
+    .catch((err: unknown) => {
+      fastify.log.error({ err }, "Failed to clean up expired sessions");
+    });
 }, config.cleanupIntervalMs);
 
 // Graceful shutdown
@@ -62,6 +101,7 @@ const shutdown = async (signal: string) => {
   fastify.log.info({ signal }, "Received shutdown signal");
   clearInterval(cleanupInterval);
   await fastify.close();
+  await sessionStore.close();
   process.exit(0);
 };
 
@@ -0,0 +1,342 @@
+import type {
+  NameplateAllocation,
+  SessionStats,
+  SessionStore,
+} from "./session-store.js";
+import type {
+  Client,
+  ClientRole,
+  PairingConfig,
+  QueueConfig,
+  QueuedMessage,
+  RelayResponse,
+  Session,
+} from "./types.js";
+import { recordSessionEnded } from "./metrics.js";
+import {
+  hashToken,
+  nameplateCandidates,
+  peerRole,
+  sendToClient,
+  tokenHashesEqual,
+} from "./session-store.js";
+
+/**
+ * Single-node session store keeping all state in process memory
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+  private sessionTtlMs: number;
+  private queueConfig: QueueConfig;
+  private pairingConfig: PairingConfig;
+  /** Pairing nameplate → session id */
+  private nameplates = new Map<
+    string,
+    { sessionId: string; expiresAt: Date }
+  >();
+
+  constructor(
+    sessionTtlMs: number,
+    queueConfig: QueueConfig,
+    pairingConfig: PairingConfig,
+  ) {
+    this.sessionTtlMs = sessionTtlMs;
+    this.queueConfig = queueConfig;
+    this.pairingConfig = pairingConfig;
+  }
+
+  /**
+   * Get or create a session by ID
+   */
+  private getOrCreate(sessionId: string): Session {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      const now = new Date();
+      session = {
+        id: sessionId,
+        desktop: null,
+        mobile: null,
+        claims: { desktop: null, mobile: null },
+        pairingConsumed: false,
+        queues: { desktop: [], mobile: [] },
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + this.sessionTtlMs),
+      };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  claimRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean> {
+    const session = this.getOrCreate(sessionId);
+    const tokenHash = hashToken(token);
+    const existing = session.claims[role];
+
+    if (existing === null) {
+      if (role === "mobile" && session.pairingConsumed) {
+        return Promise.resolve(false);
+      }
+      session.claims[role] = tokenHash;
+      return Promise.resolve(true);
+    }
+
+    return Promise.resolve(tokenHashesEqual(existing, tokenHash));
+  }
+
+  ownsRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean> {
+    const claim = this.sessions.get(sessionId)?.claims[role] ?? null;
+    return Promise.resolve(
+      claim !== null && tokenHashesEqual(claim, hashToken(token)),
+    );
+  }
+
+  addClient(
+    sessionId: string,
+    client: Client,
+  ): Promise<{ replaced: Client | null; peerConnected: boolean }> {
+    const session = this.getOrCreate(sessionId);
+    const peer = session[peerRole(client.role)];
+    const replaced = session[client.role];
+
+    session[client.role] = client;
+
+    // Extend session expiry when a client joins
+    session.expiresAt = new Date(Date.now() + this.sessionTtlMs);
+
+    return Promise.resolve({ replaced, peerConnected: peer !== null });
+  }
+
+  removeClient(
+    sessionId: string,
+    role: ClientRole,
+    releaseClaim = false,
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return Promise.resolve();
+
+    session[role] = null;
+
+    if (releaseClaim && !(role === "mobile" && session.pairingConsumed)) {
+      session.claims[role] = null;
+    }
+
+    // If both clients are gone and released their slots, remove the session
+    if (
+      !session.desktop &&
+      !session.mobile &&
+      !session.claims.desktop &&
+      !session.claims.mobile
+    ) {
+      this.sessions.delete(sessionId);
+      recordSessionEnded(session.createdAt);
+    }
+
+    return Promise.resolve();
+  }
+
+  consumePairing(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) session.pairingConsumed = true;
+    return Promise.resolve();
+  }
+
+  rejectMobile(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return Promise.resolve();
+
+    // Forget the socket first so its close handler leaves the slot alone
+    const mobile = session.mobile;
+    session.mobile = null;
+    session.claims.mobile = null;
+    session.pairingConsumed = false;
+    session.queues.mobile = [];
+    mobile?.socket.close(4003, "Rejected by desktop");
+
+    return Promise.resolve();
+  }
+
+  hasSession(sessionId: string): Promise<boolean> {
+    return Promise.resolve(this.sessions.has(sessionId));
+  }
+
+  isPairingConsumed(sessionId: string): Promise<boolean> {
+    return Promise.resolve(
+      this.sessions.get(sessionId)?.pairingConsumed ?? false,
+    );
+  }
+
+  getClient(sessionId: string, role: ClientRole): Client | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    return session[role];
+  }
+
+  sendToPeer(
+    sessionId: string,
+    role: ClientRole,
+    message: RelayResponse,
+  ): Promise<boolean> {
+    const peer = this.getClient(sessionId, peerRole(role));
+    return Promise.resolve(sendToClient(peer, message));
+  }
+
+  isRemoteBackedUp(): Promise<boolean> {
+    // Every client of this store is connected to this node
+    return Promise.resolve(false);
+  }
+
+  enqueue(
+    sessionId: string,
+    recipient: ClientRole,
+    payload: string,
+  ): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return Promise.resolve(false);
+
+    const queue = this.pruneQueue(session, recipient);
+    const bytes = Buffer.byteLength(payload);
+    const queuedBytes = queue.reduce((sum, msg) => sum + msg.bytes, 0);
+
+    if (
+      queue.length >= this.queueConfig.maxMessages ||
+      queuedBytes + bytes > this.queueConfig.maxBytes
+    ) {
+      return Promise.resolve(false);
+    }
+
+    queue.push({ payload, bytes, queuedAt: new Date() });
+    return Promise.resolve(true);
+  }
+
+  drainQueue(
+    sessionId: string,
+    recipient: ClientRole,
+  ): Promise<QueuedMessage[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return Promise.resolve([]);
+
+    const queue = this.pruneQueue(session, recipient);
+    session.queues[recipient] = [];
+    return Promise.resolve(queue);
+  }
+
+  /**
+   * Drop queued messages older than the queue TTL
+   */
+  private pruneQueue(session: Session, recipient: ClientRole): QueuedMessage[] {
+    const cutoff = Date.now() - this.queueConfig.ttlMs;
+    const queue = session.queues[recipient].filter(
+      (msg) => msg.queuedAt.getTime() >= cutoff,
+    );
+    session.queues[recipient] = queue;
+    return queue;
+  }
+
+  createNameplate(sessionId: string): Promise<NameplateAllocation | null> {
+    this.pruneNameplates();
+    if (this.nameplates.size >= this.pairingConfig.maxNameplates) {
+      return Promise.resolve(null);
+    }
+
+    for (const nameplate of nameplateCandidates(
+      this.pairingConfig.maxNameplates,
+    )) {
+      if (!this.nameplates.has(nameplate)) {
+        const expiresAt = new Date(
+          Date.now() + this.pairingConfig.nameplateTtlMs,
+        );
+        this.nameplates.set(nameplate, { sessionId, expiresAt });
+        return Promise.resolve({ nameplate, expiresAt });
+      }
+    }
+
+    return Promise.resolve(null);
+  }
+
+  claimNameplate(nameplate: string): Promise<string | null> {
+    this.pruneNameplates();
+
+    const entry = this.nameplates.get(nameplate);
+    this.nameplates.delete(nameplate);
+    return Promise.resolve(entry?.sessionId ?? null);
+  }
+
+  /**
+   * Forget nameplates nobody claimed in time
+   */
+  private pruneNameplates(): void {
+    const now = Date.now();
+    for (const [nameplate, entry] of this.nameplates) {
+      if (entry.expiresAt.getTime() <= now) {
+        this.nameplates.delete(nameplate);
+      }
+    }
+  }
+
+  updateHeartbeat(sessionId: string, role: ClientRole): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return Promise.resolve();
+
+    const client = session[role];
+    if (client) {
+      client.lastHeartbeat = new Date();
+    }
+
+    // Extend session expiry on heartbeat
+    session.expiresAt = new Date(Date.now() + this.sessionTtlMs);
+    return Promise.resolve();
+  }
+
+  cleanupExpired(): Promise<number> {
+    const now = Date.now();
+    let cleaned = 0;
+
+    this.pruneNameplates();
+
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt.getTime() < now) {
+        // Close any connected sockets
+        if (session.desktop?.socket.readyState === 1) {
+          session.desktop.socket.close(1000, "Session expired");
+        }
+        if (session.mobile?.socket.readyState === 1) {
+          session.mobile.socket.close(1000, "Session expired");
+        }
+        this.sessions.delete(id);
+        recordSessionEnded(session.createdAt);
+        cleaned++;
+      }
+    }
+
+    return Promise.resolve(cleaned);
+  }
+
+  getStats(): Promise<SessionStats> {
+    let activeSessions = 0;
+    let queuedMessages = 0;
+    for (const session of this.sessions.values()) {
+      if (session.desktop || session.mobile) {
+        activeSessions++;
+      }
+      queuedMessages +=
+        session.queues.desktop.length + session.queues.mobile.length;
+    }
+    return Promise.resolve({
+      totalSessions: this.sessions.size,
+      activeSessions,
+      queuedMessages,
+    });
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,90 @@
+import { Counter, Histogram, Registry } from "prom-client";
+
+/**
+ * Prometheus metrics for the relay.
+ * Only routing metadata is recorded: never payload contents, tokens or
+ * session ids.
+ */
+export const registry = new Registry();
+
+export const joinsTotal = new Counter({
+  name: "relay_joins_total",
+  help: "Successful session joins",
+  labelNames: ["role"] as const,
+  registers: [registry],
+});
+
+export const messagesRelayedTotal = new Counter({
+  name: "relay_messages_relayed_total",
+  help: "Messages accepted for relay, by whether they reached the peer or were queued",
+  labelNames: ["status"] as const,
+  registers: [registry],
+});
+
+export const bytesRelayedTotal = new Counter({
+  name: "relay_bytes_relayed_total",
+  help: "Encrypted payload bytes accepted for relay",
+  labelNames: ["status"] as const,
+  registers: [registry],
+});
+
+export const errorsTotal = new Counter({
+  name: "relay_errors_total",
+  help: "Error responses sent to clients, by reason",
+  labelNames: ["reason"] as const,
+  registers: [registry],
+});
+
+export const framesDroppedTotal = new Counter({
+  name: "relay_frames_dropped_total",
+  help: "Frames discarded by the relay, by reason",
+  labelNames: ["reason"] as const,
+  registers: [registry],
+});
+
+export const framesThrottledTotal = new Counter({
+  name: "relay_frames_throttled_total",
+  help: "Frames refused with a retry hint, by the limit that was hit",
+  labelNames: ["reason"] as const,
+  registers: [registry],
+});
+
+export const rendezvousTotal = new Counter({
+  name: "relay_rendezvous_total",
+  help: "Pairing nameplate requests, by outcome",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+export const peerLookupsTotal = new Counter({
+  name: "relay_peer_lookups_total",
+  help: "Lookups of unknown sessions on peer relays, by outcome",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+export const peerLeftTotal = new Counter({
+  name: "relay_peer_left_total",
+  help: "peer_left notifications sent",
+  registers: [registry],
+});
+
+export const expiredSessionsTotal = new Counter({
+  name: "relay_expired_sessions_total",
+  help: "Sessions removed by expiry cleanup",
+  registers: [registry],
+});
+
+export const sessionLifetimeSeconds = new Histogram({
+  name: "relay_session_lifetime_seconds",
+  help: "Time from session creation until it was removed",
+  buckets: [10, 60, 300, 900, 1800, 3600, 4 * 3600, 12 * 3600, 24 * 3600],
+  registers: [registry],
+});
+
+/**
+ * Record the lifetime of a session that has just been removed
+ */
+export function recordSessionEnded(createdAt: Date): void {
+  sessionLifetimeSeconds.observe((Date.now() - createdAt.getTime()) / 1000);
+}
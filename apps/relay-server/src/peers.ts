@@ -0,0 +1,84 @@
+import type { FastifyInstance } from "fastify";
+
+import type { SessionStore } from "./session-store.js";
+import type { PeerConfig } from "./types.js";
+import { hashToken, tokenHashesEqual } from "./session-store.js";
+
+/**
+ * Path peers query to learn whether a session lives on this relay
+ */
+export const SESSION_LOOKUP_PATH = "/sessions";
+
+/**
+ * Session lookup between peer relays.
+ *
+ * When one relay is unreachable, clients fail over to the next relay in
+ * their pairing payload, and the two sides may land on different ones.
+ * A relay asked to join a session it has never seen first asks its peers
+ * whether they hold it, and redirects the client to the one that does.
+ * Peers answer from their own store and never ask further, so lookups
+ * cannot loop. Only relays presenting the shared peer secret may ask;
+ * without a secret the lookup route is not served at all.
+ */
+export function setupPeerLookup(
+  fastify: FastifyInstance,
+  sessionStore: SessionStore,
+  peers: PeerConfig,
+): void {
+  const { secret } = peers;
+  if (!secret) return;
+
+  fastify.get<{ Params: { sessionId: string } }>(
+    `${SESSION_LOOKUP_PATH}/:sessionId`,
+    async (request, reply) => {
+      if (!isPeerAuthorized(request.headers.authorization, secret)) {
+        return reply.code(401).send();
+      }
+      const exists = await sessionStore.hasSession(request.params.sessionId);
+      return reply.code(exists ? 204 : 404).send();
+    },
+  );
+}
+
+/**
+ * Check a lookup's bearer token against the peer secret in constant time
+ */
+function isPeerAuthorized(
+  authorization: string | undefined,
+  secret: string,
+): boolean {
+  if (!authorization?.startsWith("Bearer ")) return false;
+  return tokenHashesEqual(
+    hashToken(authorization.slice("Bearer ".length)),
+    hashToken(secret),
+  );
+}
+
+/**
+ * Ask every peer whether it holds a session.
+ *
+ * @returns The URL of a peer holding the session, or null if none said so
+ * within the lookup timeout
+ */
+export async function locateSession(
+  peers: PeerConfig,
+  sessionId: string,
+): Promise<string | null> {
+  if (peers.urls.length === 0 || !peers.secret) return null;
+  const headers = { authorization: `Bearer ${peers.secret}` };
+
+  try {
+    return await Promise.any(
+      peers.urls.map(async (url) => {
+        const response = await fetch(
+          `${url}${SESSION_LOOKUP_PATH}/${encodeURIComponent(sessionId)}`,
+          { headers, signal: AbortSignal.timeout(peers.lookupTimeoutMs) },
+        );
+        if (!response.ok) throw new Error(`Session not found on ${url}`);
+        return url;
+      }),
+    );
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,292 @@
+import type { RateLimitConfig } from "./types.js";
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills
+ * continuously at `refillPerSecond`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private capacity: number;
+  private refillPerSecond: number;
+
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsedSeconds * this.refillPerSecond,
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Whether `count` tokens are available, without taking them
+   */
+  has(count = 1): boolean {
+    this.refill();
+    return this.tokens >= count;
+  }
+
+  /**
+   * Take `count` tokens if available
+   */
+  tryRemove(count = 1): boolean {
+    if (!this.has(count)) return false;
+    this.tokens -= count;
+    return true;
+  }
+
+  /**
+   * Milliseconds until `count` tokens will be available
+   */
+  msUntilAvailable(count = 1): number {
+    this.refill();
+    if (this.tokens >= count) return 0;
+    return Math.ceil(((count - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  /**
+   * True once the bucket has fully refilled and can be discarded
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; limit: RateLimitKind; retryAfterMs: number };
+
+export type RateLimitKind =
+  | "connections"
+  | "frames"
+  | "joins"
+  | "messages"
+  | "bytes";
+
+export interface RateLimitStats {
+  rejectedConnections: number;
+  throttledFrames: number;
+  rejectedJoins: number;
+  throttledMessages: number;
+  throttledBytes: number;
+  disconnects: number;
+  trackedIps: number;
+  trackedSessions: number;
+}
+
+/**
+ * Per-IP and per-session rate limiting for the relay.
+ *
+ * - Concurrent connections per IP
+ * - Frames of any kind per second per connection
+ * - Joins per minute per IP
+ * - Messages per second per session
+ * - Bytes per second per session
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private connections = new Map<string, number>();
+  private joinBuckets = new Map<string, TokenBucket>();
+  private messageBuckets = new Map<string, TokenBucket>();
+  private byteBuckets = new Map<string, TokenBucket>();
+  private stats = {
+    rejectedConnections: 0,
+    throttledFrames: 0,
+    rejectedJoins: 0,
+    throttledMessages: 0,
+    throttledBytes: 0,
+    disconnects: 0,
+  };
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Register a new connection from an IP.
+   * Must be paired with releaseConnection() when the socket closes.
+   */
+  acquireConnection(ip: string): RateLimitResult {
+    const current = this.connections.get(ip) ?? 0;
+    if (current >= this.config.maxConnectionsPerIp) {
+      this.stats.rejectedConnections++;
+      return { allowed: false, limit: "connections", retryAfterMs: 0 };
+    }
+    this.connections.set(ip, current + 1);
+    return { allowed: true };
+  }
+
+  /**
+   * Release a connection previously acquired for an IP
+   */
+  releaseConnection(ip: string): void {
+    const current = this.connections.get(ip) ?? 0;
+    if (current <= 1) {
+      this.connections.delete(ip);
+    } else {
+      this.connections.set(ip, current - 1);
+    }
+  }
+
+  /**
+   * Create the frame bucket for a new connection. It lives with the
+   * socket rather than in the limiter, so it goes away when the socket does.
+   */
+  createFrameBucket(): TokenBucket {
+    return new TokenBucket(
+      this.config.framesPerSecond,
+      this.config.framesPerSecond,
+    );
+  }
+
+  /**
+   * Check whether a connection may send another frame of any kind.
+   * Charged before the frame is parsed, so invalid frames count too.
+   */
+  checkFrame(bucket: TokenBucket): RateLimitResult {
+    if (!bucket.tryRemove()) {
+      this.stats.throttledFrames++;
+      return {
+        allowed: false,
+        limit: "frames",
+        retryAfterMs: bucket.msUntilAvailable(),
+      };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Check whether an IP may perform another join
+   */
+  checkJoin(ip: string): RateLimitResult {
+    const bucket = this.getBucket(
+      this.joinBuckets,
+      ip,
+      this.config.joinsPerMinute,
+      this.config.joinsPerMinute / 60,
+    );
+    if (!bucket.tryRemove()) {
+      this.stats.rejectedJoins++;
+      return {
+        allowed: false,
+        limit: "joins",
+        retryAfterMs: bucket.msUntilAvailable(),
+      };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Check whether a session may relay another message of `bytes` length
+   */
+  checkMessage(sessionId: string, bytes: number): RateLimitResult {
+    const messages = this.getBucket(
+      this.messageBuckets,
+      sessionId,
+      this.config.messagesPerSecond,
+      this.config.messagesPerSecond,
+    );
+    const byteBucket = this.getBucket(
+      this.byteBuckets,
+      sessionId,
+      this.config.bytesPerSecond,
+      this.config.bytesPerSecond,
+    );
+
+    // A frame bigger than the whole byte budget drains it rather than
+    // never fitting; maxFrameBytes bounds frame size on its own
+    const cost = Math.min(bytes, this.config.bytesPerSecond);
+
+    // Check both buckets before taking from either, so a refused frame
+    // spends nothing
+    if (!messages.has()) {
+      this.stats.throttledMessages++;
+      return {
+        allowed: false,
+        limit: "messages",
+        retryAfterMs: messages.msUntilAvailable(),
+      };
+    }
+    if (!byteBucket.has(cost)) {
+      this.stats.throttledBytes++;
+      return {
+        allowed: false,
+        limit: "bytes",
+        retryAfterMs: byteBucket.msUntilAvailable(cost),
+      };
+    }
+    messages.tryRemove();
+    byteBucket.tryRemove(cost);
+    return { allowed: true };
+  }
+
+  /**
+   * Record that a client was disconnected for repeated violations
+   */
+  recordDisconnect(): void {
+    this.stats.disconnects++;
+  }
+
+  /**
+   * Drop buckets that have fully refilled; they carry no state
+   * Returns the number of buckets removed
+   */
+  prune(): number {
+    let pruned = 0;
+    for (const buckets of [
+      this.joinBuckets,
+      this.messageBuckets,
+      this.byteBuckets,
+    ]) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.isFull()) {
+          buckets.delete(key);
+          pruned++;
+        }
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Get rate limiting counters
+   */
+  getStats(): RateLimitStats {
+    const sessions = new Set([
+      ...this.messageBuckets.keys(),
+      ...this.byteBuckets.keys(),
+    ]);
+    return {
+      ...this.stats,
+      trackedIps: new Set([
+        ...this.connections.keys(),
+        ...this.joinBuckets.keys(),
+      ]).size,
+      trackedSessions: sessions.size,
+    };
+  }
+
+  private getBucket(
+    buckets: Map<string, TokenBucket>,
+    key: string,
+    capacity: number,
+    refillPerSecond: number,
+  ): TokenBucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(capacity, refillPerSecond);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
@@ -0,0 +1,609 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { Redis } from "ioredis";
+
+import type {
+  NameplateAllocation,
+  SessionStats,
+  SessionStore,
+} from "./session-store.js";
+import type {
+  BackpressureConfig,
+  Client,
+  ClientRole,
+  PairingConfig,
+  QueueConfig,
+  QueuedMessage,
+  RelayResponse,
+} from "./types.js";
+import { framesDroppedTotal, recordSessionEnded } from "./metrics.js";
+import {
+  hashToken,
+  nameplateCandidates,
+  peerRole,
+  sendToClient,
+  tokenHashesEqual,
+} from "./session-store.js";
+
+const KEY_PREFIX = "mcc:relay:";
+
+/** Sorted set of session ids scored by expiry time (ms since epoch) */
+const SESSIONS_KEY = `${KEY_PREFIX}sessions`;
+
+function sessionKey(sessionId: string): string {
+  return `${KEY_PREFIX}session:${sessionId}`;
+}
+
+function queueKey(sessionId: string, role: ClientRole): string {
+  return `${KEY_PREFIX}session:${sessionId}:queue:${role}`;
+}
+
+/** Set while a role's socket is backed up, expiring after the retry hint */
+function backedUpKey(sessionId: string, role: ClientRole): string {
+  return `${KEY_PREFIX}session:${sessionId}:backed-up:${role}`;
+}
+
+function nameplateKey(nameplate: string): string {
+  return `${KEY_PREFIX}nameplate:${nameplate}`;
+}
+
+function nodeChannel(nodeId: string): string {
+  return `${KEY_PREFIX}node:${nodeId}`;
+}
+
+/**
+ * Frames exchanged between relay nodes over pub/sub
+ */
+type NodeFrame =
+  | {
+      kind: "deliver";
+      sessionId: string;
+      role: ClientRole;
+      message: RelayResponse;
+    }
+  | { kind: "evict" | "reject"; sessionId: string; role: ClientRole };
+
+/**
+ * Claim a role slot in one step, so concurrent joins on different nodes
+ * cannot both win it or slip past a pairing being consumed.
+ * KEYS: session hash. ARGV: role, token hash, now.
+ * Returns the token hash that owns the slot, if any.
+ */
+const CLAIM_ROLE_SCRIPT = `
+redis.call("HSETNX", KEYS[1], "createdAt", ARGV[3])
+local field = "claim:" .. ARGV[1]
+if ARGV[1] ~= "mobile" or redis.call("HGET", KEYS[1], "pairingConsumed") ~= "1" then
+  redis.call("HSETNX", KEYS[1], field, ARGV[2])
+end
+return redis.call("HGET", KEYS[1], field)
+`;
+
+/**
+ * Drop expired entries and append one within the limits, in one step, so
+ * concurrent senders cannot overrun the queue.
+ * KEYS: queue list. ARGV: entry, bytes, cutoff, max messages, max bytes, ttl.
+ * Returns 1 if the entry was queued, 0 if the queue is full.
+ */
+const ENQUEUE_SCRIPT = `
+local entries = redis.call("LRANGE", KEYS[1], 0, -1)
+local expired = 0
+local queuedBytes = 0
+for _, entry in ipairs(entries) do
+  local queuedAt, bytes = string.match(entry, "^(%d+):(%d+):")
+  if tonumber(queuedAt) < tonumber(ARGV[3]) then
+    expired = expired + 1
+  else
+    queuedBytes = queuedBytes + tonumber(bytes)
+  end
+end
+if expired > 0 then
+  redis.call("LTRIM", KEYS[1], expired, -1)
+end
+if #entries - expired >= tonumber(ARGV[4])
+  or queuedBytes + tonumber(ARGV[2]) > tonumber(ARGV[5]) then
+  return 0
+end
+redis.call("RPUSH", KEYS[1], ARGV[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[6])
+return 1
+`;
+
+/**
+ * Queue entries are "queuedAt:bytes:payload" so the enqueue script can
+ * account for them without decoding JSON
+ */
+function encodeQueued(
+  payload: string,
+  bytes: number,
+  queuedAt: number,
+): string {
+  return `${queuedAt}:${bytes}:${payload}`;
+}
+
+function decodeQueued(entry: string): QueuedMessage {
+  const [queuedAt = "0", bytes = "0"] = entry.split(":", 2);
+  return {
+    payload: entry.slice(queuedAt.length + bytes.length + 2),
+    bytes: Number(bytes),
+    queuedAt: new Date(Number(queuedAt)),
+  };
+}
+
+export interface RedisSessionStoreOptions {
+  /** Connection used for commands and publishing */
+  client: Redis;
+  /** Dedicated connection for subscribing (must not be shared) */
+  subscriber: Redis;
+  /** Unique id of this relay instance */
+  nodeId: string;
+  sessionTtlMs: number;
+  queueConfig: QueueConfig;
+  backpressure: BackpressureConfig;
+  pairingConfig: PairingConfig;
+  /** Where to report connection errors; ioredis reconnects on its own */
+  logger?: FastifyBaseLogger;
+}
+
+/**
+ * Session store sharing state across relay instances through Redis.
+ *
+ * Each session is a hash holding the role claims, whether the pairing has
+ * been consumed, and the id of the node each role is connected to.
+ * Messages for a peer on another node are forwarded over that node's
+ * pub/sub channel.
+ */
+export class RedisSessionStore implements SessionStore {
+  private client: Redis;
+  private subscriber: Redis;
+  private nodeId: string;
+  private sessionTtlMs: number;
+  private queueConfig: QueueConfig;
+  private backpressure: BackpressureConfig;
+  private pairingConfig: PairingConfig;
+  /** Sockets connected to this node */
+  private local = new Map<string, Partial<Record<ClientRole, Client>>>();
+
+  private constructor(options: RedisSessionStoreOptions) {
+    this.client = options.client;
+    this.subscriber = options.subscriber;
+    this.nodeId = options.nodeId;
+    this.sessionTtlMs = options.sessionTtlMs;
+    this.queueConfig = options.queueConfig;
+    this.backpressure = options.backpressure;
+    this.pairingConfig = options.pairingConfig;
+  }
+
+  /**
+   * Create a store and subscribe to this node's forwarding channel
+   */
+  static async create(
+    options: RedisSessionStoreOptions,
+  ): Promise<RedisSessionStore> {
+    const store = new RedisSessionStore(options);
+    // Without a listener ioredis reports each failed reconnect on stderr
+    for (const connection of [store.client, store.subscriber]) {
+      connection.on("error", (err: Error) => {
+        options.logger?.error({ err }, "Redis connection error");
+      });
+    }
+    store.subscriber.on("message", (_channel: string, data: string) => {
+      store.handleNodeFrame(data).catch(() => {
+        framesDroppedTotal.inc({ reason: "forward_failed" });
+      });
+    });
+    await store.subscriber.subscribe(nodeChannel(store.nodeId));
+    return store;
+  }
+
+  private async handleNodeFrame(data: string): Promise<void> {
+    let frame: NodeFrame;
+    try {
+      frame = JSON.parse(data) as NodeFrame;
+    } catch {
+      return;
+    }
+
+    const client = this.getClient(frame.sessionId, frame.role);
+    if (frame.kind === "deliver") {
+      if (sendToClient(client, frame.message)) {
+        // The sending node cannot see this socket's buffer; flag it so
+        // that node answers slow_down before acking further messages
+        if (
+          client &&
+          client.socket.bufferedAmount > this.backpressure.highWaterBytes
+        ) {
+          await this.client.set(
+            backedUpKey(frame.sessionId, frame.role),
+            "1",
+            "PX",
+            this.backpressure.retryAfterMs,
+          );
+        }
+        return;
+      }
+
+      // The sender was already told the message was delivered; the
+      // recipient left before it arrived, so hold it until it rejoins
+      if (
+        frame.message.type === "message" &&
+        !(await this.enqueue(
+          frame.sessionId,
+          frame.role,
+          frame.message.payload,
+        ))
+      ) {
+        framesDroppedTotal.inc({ reason: "queue_full" });
+      }
+    } else if (client) {
+      // The role reconnected on another node, or was rejected there: forget
+      // the socket first so its close handler does not touch the slot
+      this.setLocal(frame.sessionId, frame.role, null);
+      if (frame.kind === "evict") {
+        client.socket.close(4001, "Replaced by new connection");
+      } else {
+        client.socket.close(4003, "Rejected by desktop");
+      }
+    }
+  }
+
+  private setLocal(
+    sessionId: string,
+    role: ClientRole,
+    client: Client | null,
+  ): void {
+    const entry = this.local.get(sessionId) ?? {};
+    if (client) {
+      entry[role] = client;
+    } else {
+      delete entry[role];
+    }
+
+    if (entry.desktop || entry.mobile) {
+      this.local.set(sessionId, entry);
+    } else {
+      this.local.delete(sessionId);
+    }
+  }
+
+  /**
+   * Push the session expiry forward on every key belonging to it
+   */
+  private async touch(sessionId: string): Promise<void> {
+    await this.client
+      .multi()
+      .zadd(SESSIONS_KEY, Date.now() + this.sessionTtlMs, sessionId)
+      .pexpire(sessionKey(sessionId), this.sessionTtlMs)
+      .pexpire(queueKey(sessionId, "desktop"), this.sessionTtlMs)
+      .pexpire(queueKey(sessionId, "mobile"), this.sessionTtlMs)
+      .exec();
+  }
+
+  async claimRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean> {
+    const tokenHash = hashToken(token);
+    // The mobile slot of a consumed pairing cannot be claimed afresh
+    const owner = await this.client.eval(
+      CLAIM_ROLE_SCRIPT,
+      1,
+      sessionKey(sessionId),
+      role,
+      tokenHash,
+      String(Date.now()),
+    );
+    await this.touch(sessionId);
+    return typeof owner === "string" && tokenHashesEqual(owner, tokenHash);
+  }
+
+  async ownsRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean> {
+    const claim = await this.client.hget(
+      sessionKey(sessionId),
+      `claim:${role}`,
+    );
+    return claim !== null && tokenHashesEqual(claim, hashToken(token));
+  }
+
+  async addClient(
+    sessionId: string,
+    client: Client,
+  ): Promise<{ replaced: Client | null; peerConnected: boolean }> {
+    const key = sessionKey(sessionId);
+    const replaced = this.getClient(sessionId, client.role);
+    this.setLocal(sessionId, client.role, client);
+
+    const results = await this.client
+      .multi()
+      .hget(key, `node:${client.role}`)
+      .hset(key, `node:${client.role}`, this.nodeId)
+      .hget(key, `node:${peerRole(client.role)}`)
+      .exec();
+    await this.touch(sessionId);
+
+    const previousNode = results?.[0]?.[1] as string | null | undefined;
+    const peerNode = results?.[2]?.[1] as string | null | undefined;
+
+    if (previousNode && previousNode !== this.nodeId) {
+      await this.publish(previousNode, {
+        kind: "evict",
+        sessionId,
+        role: client.role,
+      });
+    }
+
+    return { replaced, peerConnected: Boolean(peerNode) };
+  }
+
+  async removeClient(
+    sessionId: string,
+    role: ClientRole,
+    releaseClaim = false,
+  ): Promise<void> {
+    const key = sessionKey(sessionId);
+    this.setLocal(sessionId, role, null);
+
+    // Only clear the node pointer if the role has not moved to another node
+    const node = await this.client.hget(key, `node:${role}`);
+    if (node === this.nodeId) {
+      await this.client.hdel(key, `node:${role}`);
+    }
+
+    if (
+      releaseClaim &&
+      !(role === "mobile" && (await this.isPairingConsumed(sessionId)))
+    ) {
+      await this.client.hdel(key, `claim:${role}`);
+    }
+
+    // If both clients are gone and released their slots, remove the session
+    const remaining = await this.client.hmget(
+      key,
+      "node:desktop",
+      "node:mobile",
+      "claim:desktop",
+      "claim:mobile",
+    );
+    if (remaining.every((value) => value === null)) {
+      await this.deleteSession(sessionId);
+    }
+  }
+
+  async consumePairing(sessionId: string): Promise<void> {
+    await this.client.hset(sessionKey(sessionId), "pairingConsumed", "1");
+  }
+
+  async rejectMobile(sessionId: string): Promise<void> {
+    const key = sessionKey(sessionId);
+    const local = this.getClient(sessionId, "mobile");
+    this.setLocal(sessionId, "mobile", null);
+
+    const results = await this.client
+      .multi()
+      .hget(key, "node:mobile")
+      .hdel(key, "node:mobile", "claim:mobile", "pairingConsumed")
+      .del(queueKey(sessionId, "mobile"))
+      .exec();
+    const node = results?.[0]?.[1] as string | null | undefined;
+
+    local?.socket.close(4003, "Rejected by desktop");
+    if (node && node !== this.nodeId) {
+      await this.publish(node, {
+        kind: "reject",
+        sessionId,
+        role: "mobile",
+      });
+    }
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return (await this.client.exists(sessionKey(sessionId))) === 1;
+  }
+
+  async isPairingConsumed(sessionId: string): Promise<boolean> {
+    return (
+      (await this.client.hget(sessionKey(sessionId), "pairingConsumed")) === "1"
+    );
+  }
+
+  getClient(sessionId: string, role: ClientRole): Client | null {
+    return this.local.get(sessionId)?.[role] ?? null;
+  }
+
+  async sendToPeer(
+    sessionId: string,
+    role: ClientRole,
+    message: RelayResponse,
+  ): Promise<boolean> {
+    const target = peerRole(role);
+    const local = this.getClient(sessionId, target);
+    if (local) {
+      return sendToClient(local, message);
+    }
+
+    const node = await this.client.hget(
+      sessionKey(sessionId),
+      `node:${target}`,
+    );
+    if (!node || node === this.nodeId) return false;
+
+    const receivers = await this.publish(node, {
+      kind: "deliver",
+      sessionId,
+      role: target,
+      message,
+    });
+    return receivers > 0;
+  }
+
+  async isRemoteBackedUp(
+    sessionId: string,
+    role: ClientRole,
+  ): Promise<boolean> {
+    return (await this.client.exists(backedUpKey(sessionId, role))) === 1;
+  }
+
+  async enqueue(
+    sessionId: string,
+    recipient: ClientRole,
+    payload: string,
+  ): Promise<boolean> {
+    const now = Date.now();
+    const bytes = Buffer.byteLength(payload);
+    // The list is ordered by age, so expired entries are all at the head
+    const queued = await this.client.eval(
+      ENQUEUE_SCRIPT,
+      1,
+      queueKey(sessionId, recipient),
+      encodeQueued(payload, bytes, now),
+      bytes,
+      now - this.queueConfig.ttlMs,
+      this.queueConfig.maxMessages,
+      this.queueConfig.maxBytes,
+      this.sessionTtlMs,
+    );
+    return queued === 1;
+  }
+
+  async drainQueue(
+    sessionId: string,
+    recipient: ClientRole,
+  ): Promise<QueuedMessage[]> {
+    const key = queueKey(sessionId, recipient);
+    const results = await this.client
+      .multi()
+      .lrange(key, 0, -1)
+      .del(key)
+      .exec();
+    const raw = (results?.[0]?.[1] ?? []) as string[];
+    const cutoff = Date.now() - this.queueConfig.ttlMs;
+
+    return raw
+      .map(decodeQueued)
+      .filter((msg) => msg.queuedAt.getTime() >= cutoff);
+  }
+
+  /**
+   * Nameplates are plain keys that expire on their own; allocation probes
+   * candidates in random order with SET NX, so two nodes allocating at
+   * once never hand out the same one.
+   */
+  async createNameplate(
+    sessionId: string,
+  ): Promise<NameplateAllocation | null> {
+    const ttlMs = this.pairingConfig.nameplateTtlMs;
+
+    for (const nameplate of nameplateCandidates(
+      this.pairingConfig.maxNameplates,
+    )) {
+      const set = await this.client.set(
+        nameplateKey(nameplate),
+        sessionId,
+        "PX",
+        ttlMs,
+        "NX",
+      );
+      if (set === "OK") {
+        return { nameplate, expiresAt: new Date(Date.now() + ttlMs) };
+      }
+    }
+
+    return null;
+  }
+
+  async claimNameplate(nameplate: string): Promise<string | null> {
+    const key = nameplateKey(nameplate);
+    const results = await this.client.multi().get(key).del(key).exec();
+    return (results?.[0]?.[1] as string | null | undefined) ?? null;
+  }
+
+  async updateHeartbeat(sessionId: string, role: ClientRole): Promise<void> {
+    const client = this.getClient(sessionId, role);
+    if (client) {
+      client.lastHeartbeat = new Date();
+    }
+
+    // Extend session expiry on heartbeat
+    await this.touch(sessionId);
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const now = Date.now();
+    let cleaned = 0;
+
+    const expired = await this.client.zrangebyscore(SESSIONS_KEY, 0, now);
+    for (const sessionId of expired) {
+      // Several nodes may race here; only the one that removes it counts it
+      if ((await this.client.zrem(SESSIONS_KEY, sessionId)) === 1) {
+        await this.deleteSession(sessionId);
+        cleaned++;
+      }
+    }
+
+    // Close local sockets whose session no longer exists anywhere
+    for (const [sessionId, clients] of this.local) {
+      const score = await this.client.zscore(SESSIONS_KEY, sessionId);
+      if (score !== null && Number(score) >= now) continue;
+
+      for (const client of [clients.desktop, clients.mobile]) {
+        if (client?.socket.readyState === 1) {
+          client.socket.close(1000, "Session expired");
+        }
+      }
+      this.local.delete(sessionId);
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * totalSessions is cluster-wide; activeSessions and queuedMessages only
+   * cover sessions with a client connected to this node.
+   */
+  async getStats(): Promise<SessionStats> {
+    let queuedMessages = 0;
+    for (const sessionId of this.local.keys()) {
+      queuedMessages +=
+        (await this.client.llen(queueKey(sessionId, "desktop"))) +
+        (await this.client.llen(queueKey(sessionId, "mobile")));
+    }
+
+    return {
+      totalSessions: await this.client.zcard(SESSIONS_KEY),
+      activeSessions: this.local.size,
+      queuedMessages,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.subscriber.quit();
+    await this.client.quit();
+  }
+
+  private async deleteSession(sessionId: string): Promise<void> {
+    const createdAt = await this.client.hget(
+      sessionKey(sessionId),
+      "createdAt",
+    );
+    if (createdAt !== null) {
+      recordSessionEnded(new Date(Number(createdAt)));
+    }
+
+    await this.client
+      .multi()
+      .zrem(SESSIONS_KEY, sessionId)
+      .del(
+        sessionKey(sessionId),
+        queueKey(sessionId, "desktop"),
+        queueKey(sessionId, "mobile"),
+      )
+      .exec();
+  }
+
+  private publish(nodeId: string, frame: NodeFrame): Promise<number> {
+    return this.client.publish(nodeChannel(nodeId), JSON.stringify(frame));
+  }
+}
@@ -0,0 +1,112 @@
+import type { FastifyInstance, FastifyReply } from "fastify";
+
+import type {
+  ClaimNameplateResponse,
+  CreateNameplateResponse,
+  RendezvousError,
+} from "@mcc/core/pairing";
+import {
+  CreateNameplateRequestSchema,
+  NameplateSchema,
+  RENDEZVOUS_PATH,
+} from "@mcc/core/pairing";
+
+import type { RateLimiter } from "./rate-limiter.js";
+import type { SessionStore } from "./session-store.js";
+import { rendezvousTotal } from "./metrics.js";
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  body: RendezvousError,
+): FastifyReply {
+  return reply.code(statusCode).send(body);
+}
+
+/**
+ * Rendezvous endpoint for short-code pairing.
+ *
+ * The desktop allocates a nameplate for its session and shows it as the
+ * number in its pairing code; the mobile claims the nameplate to learn the
+ * session id. Only the desktop holding a session, proven by its join
+ * token, may allocate for it, and nameplates are drawn at random, so
+ * nobody can point a code at someone else's session or predict the next
+ * one. The relay only ever sees the number, never the code words
+ * the two sides use as the PAKE password. So whoever guesses a live
+ * nameplate can join as mobile; the desktop sends reject_peer when that
+ * phone's PAKE fails, freeing the slot for the real one.
+ */
+export function setupRendezvous(
+  fastify: FastifyInstance,
+  sessionStore: SessionStore,
+  rateLimiter: RateLimiter,
+): void {
+  fastify.post(RENDEZVOUS_PATH, async (request, reply) => {
+    const limit = rateLimiter.checkJoin(request.ip);
+    if (!limit.allowed) {
+      return sendError(reply, 429, {
+        error: "rate_limited",
+        retryAfterMs: limit.retryAfterMs,
+      });
+    }
+
+    const body = CreateNameplateRequestSchema.safeParse(request.body);
+    if (!body.success) {
+      return sendError(reply, 400, { error: "invalid_request" });
+    }
+
+    if (
+      !(await sessionStore.ownsRole(
+        body.data.sessionId,
+        "desktop",
+        body.data.token,
+      ))
+    ) {
+      rendezvousTotal.inc({ result: "not_session_owner" });
+      return sendError(reply, 403, { error: "not_session_owner" });
+    }
+
+    const allocation = await sessionStore.createNameplate(body.data.sessionId);
+    if (!allocation) {
+      rendezvousTotal.inc({ result: "exhausted" });
+      fastify.log.warn("No free pairing nameplates");
+      return sendError(reply, 503, { error: "nameplates_exhausted" });
+    }
+
+    rendezvousTotal.inc({ result: "created" });
+    const response: CreateNameplateResponse = {
+      nameplate: allocation.nameplate,
+      expiresAt: allocation.expiresAt.getTime(),
+    };
+    return reply.code(201).send(response);
+  });
+
+  fastify.post<{ Params: { nameplate: string } }>(
+    `${RENDEZVOUS_PATH}/:nameplate/claim`,
+    async (request, reply) => {
+      // Every claim is a guess at a live nameplate, so it costs a join
+      const limit = rateLimiter.checkJoin(request.ip);
+      if (!limit.allowed) {
+        return sendError(reply, 429, {
+          error: "rate_limited",
+          retryAfterMs: limit.retryAfterMs,
+        });
+      }
+
+      const nameplate = NameplateSchema.safeParse(request.params.nameplate);
+      if (!nameplate.success) {
+        return sendError(reply, 400, { error: "invalid_request" });
+      }
+
+      const sessionId = await sessionStore.claimNameplate(nameplate.data);
+      if (!sessionId) {
+        rendezvousTotal.inc({ result: "unknown" });
+        return sendError(reply, 404, { error: "unknown_nameplate" });
+      }
+
+      rendezvousTotal.inc({ result: "claimed" });
+      const response: ClaimNameplateResponse = { sessionId };
+      return response;
+    },
+  );
+}
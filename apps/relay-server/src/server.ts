@@ -0,0 +1,71 @@
+import type { FastifyInstance, FastifyServerOptions } from "fastify";
+import fastifyWebsocket from "@fastify/websocket";
+import Fastify from "fastify";
+
+import type { SessionStore } from "./session-store.js";
+import type { ServerConfig } from "./types.js";
+import { registry } from "./metrics.js";
+import { setupPeerLookup } from "./peers.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { setupRendezvous } from "./rendezvous.js";
+import { setupWebSocket } from "./websocket.js";
+
+export interface RelayServer {
+  fastify: FastifyInstance;
+  rateLimiter: RateLimiter;
+}
+
+/**
+ * Create the relay's Fastify instance with every route registered, ready
+ * to listen (or to be driven with inject() and injectWS() in tests).
+ */
+export async function buildServer(
+  sessionStore: SessionStore,
+  config: ServerConfig,
+  options: FastifyServerOptions = {},
+): Promise<RelayServer> {
+  const fastify = Fastify({ trustProxy: config.trustProxy, ...options });
+  const rateLimiter = new RateLimiter(config.rateLimits);
+
+  // Health check endpoint
+  fastify.get("/health", async () => {
+    const stats = await sessionStore.getStats();
+    return {
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      sessions: stats,
+      rateLimits: rateLimiter.getStats(),
+    };
+  });
+
+  // Prometheus metrics endpoint
+  fastify.get("/metrics", async (_request, reply) => {
+    void reply.type(registry.contentType);
+    return registry.metrics();
+  });
+
+  // Root endpoint
+  fastify.get("/", () => {
+    return {
+      name: "@mcc/relay-server",
+      version: "0.1.0",
+      description: "Mobile Claude Code blind relay server",
+    };
+  });
+
+  // Pairing code rendezvous
+  setupRendezvous(fastify, sessionStore, rateLimiter);
+
+  // Session lookup for peer relays
+  setupPeerLookup(fastify, sessionStore, config.peers);
+
+  // Register WebSocket plugin; ws closes the socket (1009) on oversized frames
+  await fastify.register(fastifyWebsocket, {
+    options: { maxPayload: config.backpressure.maxFrameBytes },
+  });
+
+  // Setup WebSocket routes
+  setupWebSocket(fastify, sessionStore, rateLimiter, config);
+
+  return { fastify, rateLimiter };
+}
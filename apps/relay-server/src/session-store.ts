@@ -1,148 +1,226 @@
-import type { Client, ClientRole, Session } from "./types.js";
-
-export class SessionStore {
-  private sessions = new Map<string, Session>();
-  private sessionTtlMs: number;
+import { createHash, randomInt, timingSafeEqual } from "node:crypto";
+
+import { encodeFrame } from "@mcc/core/relay";
+
+import type {
+  Client,
+  ClientRole,
+  QueuedMessage,
+  RelayResponse,
+} from "./types.js";
+
+/**
+ * A pairing nameplate handed out by createNameplate()
+ */
+export interface NameplateAllocation {
+  nameplate: string;
+  expiresAt: Date;
+}
 
-  constructor(sessionTtlMs: number) {
-    this.sessionTtlMs = sessionTtlMs;
-  }
+export interface SessionStats {
+  totalSessions: number;
+  activeSessions: number;
+  queuedMessages: number;
+}
 
+/**
+ * Session state backend for the relay.
+ *
+ * Sockets always live on the node that accepted them; everything else
+ * (role claims, which node holds each role, queued payloads) may be shared
+ * so that desktop and mobile can land on different relay instances.
+ */
+export interface SessionStore {
   /**
-   * Get or create a session by ID
-   */
-  getOrCreate(sessionId: string): Session {
-    let session = this.sessions.get(sessionId);
-    if (!session) {
-      const now = new Date();
-      session = {
-        id: sessionId,
-        desktop: null,
-        mobile: null,
-        createdAt: now,
-        expiresAt: new Date(now.getTime() + this.sessionTtlMs),
-      };
-      this.sessions.set(sessionId, session);
-    }
-    return session;
-  }
+   * Claim a role slot with a join token.
+   * The first joiner for a role owns the slot; later joins succeed only
+   * if they present the same token. Returns false if the slot is owned
+   * by someone else, or if it is the mobile slot of a consumed pairing
+   * that was never claimed.
+   */
+  claimRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean>;
 
   /**
-   * Get a session by ID
+   * Whether `token` is the one that claimed a role slot.
+   * Unlike claimRole(), never claims a free slot.
    */
-  get(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
-  }
+  ownsRole(
+    sessionId: string,
+    role: ClientRole,
+    token: string,
+  ): Promise<boolean>;
 
   /**
-   * Add a client to a session
+   * Add a client to a session.
+   * The role slot must already have been claimed via claimRole().
+   * Returns the local client previously holding the slot, if any, so the
+   * caller can close its stale socket, and whether the peer is connected.
    */
   addClient(
     sessionId: string,
     client: Client,
-  ): { session: Session; existingPeer: Client | null } {
-    const session = this.getOrCreate(sessionId);
-    const existingPeer =
-      client.role === "desktop" ? session.mobile : session.desktop;
+  ): Promise<{ replaced: Client | null; peerConnected: boolean }>;
 
-    if (client.role === "desktop") {
-      session.desktop = client;
-    } else {
-      session.mobile = client;
-    }
+  /**
+   * Remove a client from a session.
+   * Unless releaseClaim is set, the role slot stays claimed so the same
+   * client can reconnect until the session expires. The mobile claim of a
+   * consumed pairing is never released.
+   */
+  removeClient(
+    sessionId: string,
+    role: ClientRole,
+    releaseClaim?: boolean,
+  ): Promise<void>;
 
-    // Extend session expiry when a client joins
-    session.expiresAt = new Date(Date.now() + this.sessionTtlMs);
+  /**
+   * Mark the session's pairing as consumed, pinning the mobile slot to
+   * the client that claimed it
+   */
+  consumePairing(sessionId: string): Promise<void>;
 
-    return { session, existingPeer };
-  }
+  /**
+   * Turn away the session's mobile for the desktop: release its claim,
+   * even of a consumed pairing, drop anything queued for it and close its
+   * socket wherever it is connected, without telling the desktop it left.
+   */
+  rejectMobile(sessionId: string): Promise<void>;
 
   /**
-   * Remove a client from a session
+   * Whether the session exists on this relay (or its shared store)
    */
-  removeClient(sessionId: string, role: ClientRole): Client | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
+  hasSession(sessionId: string): Promise<boolean>;
 
-    const client = role === "desktop" ? session.desktop : session.mobile;
+  /**
+   * Whether the session's pairing has been consumed
+   */
+  isPairingConsumed(sessionId: string): Promise<boolean>;
 
-    if (role === "desktop") {
-      session.desktop = null;
-    } else {
-      session.mobile = null;
-    }
+  /**
+   * Get the client occupying a role if it is connected to this node
+   */
+  getClient(sessionId: string, role: ClientRole): Client | null;
 
-    // If both clients are gone, we can remove the session
-    if (!session.desktop && !session.mobile) {
-      this.sessions.delete(sessionId);
-    }
+  /**
+   * Send a response to the peer of `role`, wherever it is connected.
+   * Returns false if the peer is not connected.
+   */
+  sendToPeer(
+    sessionId: string,
+    role: ClientRole,
+    message: RelayResponse,
+  ): Promise<boolean>;
 
-    return client;
-  }
+  /**
+   * Whether a role connected to another node has reported that it is not
+   * draining its socket. Clients on this node are checked directly.
+   */
+  isRemoteBackedUp(sessionId: string, role: ClientRole): Promise<boolean>;
 
   /**
-   * Get the peer client for a given role in a session
+   * Queue a payload for a role that is not currently connected.
+   * Returns false if the queue is at its count or byte limit.
    */
-  getPeer(sessionId: string, role: ClientRole): Client | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
-    return role === "desktop" ? session.mobile : session.desktop;
-  }
+  enqueue(
+    sessionId: string,
+    recipient: ClientRole,
+    payload: string,
+  ): Promise<boolean>;
 
   /**
-   * Update heartbeat timestamp for a client
+   * Remove and return all unexpired queued messages for a role, in order
    */
-  updateHeartbeat(sessionId: string, role: ClientRole): void {
-    const session = this.sessions.get(sessionId);
-    if (!session) return;
+  drainQueue(
+    sessionId: string,
+    recipient: ClientRole,
+  ): Promise<QueuedMessage[]>;
 
-    const client = role === "desktop" ? session.desktop : session.mobile;
-    if (client) {
-      client.lastHeartbeat = new Date();
-    }
+  /**
+   * Allocate a random free pairing nameplate, pointing at a session.
+   * Returns null if every nameplate is in use.
+   */
+  createNameplate(sessionId: string): Promise<NameplateAllocation | null>;
 
-    // Extend session expiry on heartbeat
-    session.expiresAt = new Date(Date.now() + this.sessionTtlMs);
-  }
+  /**
+   * Resolve a nameplate to its session id, releasing it; each nameplate
+   * can be claimed once. Returns null if it is unknown or expired.
+   */
+  claimNameplate(nameplate: string): Promise<string | null>;
+
+  /**
+   * Update heartbeat timestamp for a client and extend the session expiry
+   */
+  updateHeartbeat(sessionId: string, role: ClientRole): Promise<void>;
 
   /**
-   * Clean up expired sessions
+   * Clean up expired sessions, closing any sockets still attached
    * Returns the number of sessions cleaned up
    */
-  cleanupExpired(): number {
-    const now = Date.now();
-    let cleaned = 0;
-
-    for (const [id, session] of this.sessions) {
-      if (session.expiresAt.getTime() < now) {
-        // Close any connected sockets
-        if (session.desktop?.socket.readyState === 1) {
-          session.desktop.socket.close(1000, "Session expired");
-        }
-        if (session.mobile?.socket.readyState === 1) {
-          session.mobile.socket.close(1000, "Session expired");
-        }
-        this.sessions.delete(id);
-        cleaned++;
-      }
-    }
-
-    return cleaned;
-  }
+  cleanupExpired(): Promise<number>;
 
   /**
    * Get statistics about the session store
    */
-  getStats(): { totalSessions: number; activeSessions: number } {
-    let activeSessions = 0;
-    for (const session of this.sessions.values()) {
-      if (session.desktop || session.mobile) {
-        activeSessions++;
-      }
-    }
-    return {
-      totalSessions: this.sessions.size,
-      activeSessions,
-    };
+  getStats(): Promise<SessionStats>;
+
+  /**
+   * Release any connections held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * The role on the other end of a session
+ */
+export function peerRole(role: ClientRole): ClientRole {
+  return role === "desktop" ? "mobile" : "desktop";
+}
+
+/**
+ * Send a response on a local socket if it is still open.
+ * Returns whether the message was written.
+ */
+export function sendToClient(
+  client: Client | null,
+  message: RelayResponse,
+): boolean {
+  if (client?.socket.readyState !== 1) return false;
+  client.socket.send(encodeFrame(message));
+  return true;
+}
+
+/**
+ * Hash a join token for storage; the relay never keeps the raw token
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Compare two token hashes without leaking timing information
+ */
+export function tokenHashesEqual(a: string, b: string): boolean {
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/** Random nameplates tried before falling back to a scan */
+const RANDOM_NAMEPLATE_ATTEMPTS = 32;
+
+/**
+ * Nameplates to try when allocating, in order: random picks, then every
+ * nameplate from a random offset so a nearly full range still finds the
+ * free ones. Random order keeps the next nameplate unpredictable.
+ */
+export function* nameplateCandidates(maxNameplates: number): Generator<string> {
+  for (let i = 0; i < RANDOM_NAMEPLATE_ATTEMPTS; i++) {
+    yield String(randomInt(maxNameplates) + 1);
+  }
+  const offset = randomInt(maxNameplates);
+  for (let i = 0; i < maxNameplates; i++) {
+    yield String(((offset + i) % maxNameplates) + 1);
   }
 }
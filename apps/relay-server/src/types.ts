@@ -1,5 +1,8 @@
+import { randomUUID } from "node:crypto";
 import type { WebSocket } from "ws";
 
+import type { ClientFrame, FrameBody, RelayFrame } from "@mcc/core/relay";
+
 export type ClientRole = "desktop" | "mobile";
 
 export interface Client {
@@ -13,21 +16,85 @@ export interface Session {
   id: string;
   desktop: Client | null;
   mobile: Client | null;
+  /**
+   * SHA-256 hashes of the join tokens that claimed each role slot.
+   * A claim outlives the socket so the same client can reconnect.
+   */
+  claims: Record<ClientRole, string | null>;
+  /**
+   * Set once the handshake has completed; the mobile claim is then
+   * permanent, so the QR code cannot pair another device
+   */
+  pairingConsumed: boolean;
+  /** Messages waiting for each role to (re)connect, oldest first */
+  queues: Record<ClientRole, QueuedMessage[]>;
   createdAt: Date;
   expiresAt: Date;
 }
 
-export interface RelayMessage {
-  session_id: string;
-  role: ClientRole;
-  type: "join" | "message" | "ping" | "leave";
-  payload?: string;
+export interface QueuedMessage {
+  /** Opaque encrypted payload, never inspected by the relay */
+  payload: string;
+  bytes: number;
+  queuedAt: Date;
 }
 
-export interface RelayResponse {
-  type: "joined" | "peer_joined" | "peer_left" | "message" | "pong" | "error";
-  payload?: string;
-  error?: string;
+/** A validated frame received from a client */
+export type RelayMessage = ClientFrame;
+
+/** A frame sent to a client; the framing version is stamped on encode */
+export type RelayResponse = FrameBody<RelayFrame>;
+
+export interface RateLimitConfig {
+  /** Concurrent WebSocket connections allowed from one IP */
+  maxConnectionsPerIp: number;
+  /** Frames of any kind allowed per connection per second */
+  framesPerSecond: number;
+  /** Join attempts allowed per IP per minute */
+  joinsPerMinute: number;
+  /** Relayed messages allowed per session per second */
+  messagesPerSecond: number;
+  /** Relayed payload bytes allowed per session per second */
+  bytesPerSecond: number;
+  /** Over-limit frames a socket may send before it is disconnected */
+  maxViolations: number;
+}
+
+export interface QueueConfig {
+  /** Maximum queued messages per direction */
+  maxMessages: number;
+  /** Maximum queued payload bytes per direction */
+  maxBytes: number;
+  /** How long a queued message is kept before it is dropped */
+  ttlMs: number;
+}
+
+export interface PairingConfig {
+  /** How long an unclaimed pairing nameplate stays valid */
+  nameplateTtlMs: number;
+  /** Nameplates are numbered 1..maxNameplates and allocated at random */
+  maxNameplates: number;
+}
+
+export interface PeerConfig {
+  /** Base URLs of other relays that may hold sessions, as clients see them */
+  urls: string[];
+  /** How long to wait for peers when looking up a session */
+  lookupTimeoutMs: number;
+  /**
+   * Secret shared by every relay in the peer set; session lookups without
+   * it are refused, and lookups are disabled when it is unset
+   */
+  secret: string | null;
+}
+
+export interface BackpressureConfig {
+  /** Largest inbound WebSocket frame accepted; bigger frames close the socket */
+  maxFrameBytes: number;
+  /** Peer outbound buffer size above which relayed messages are refused */
+  highWaterBytes: number;
+  /** Retry hint sent with slow_down errors */
+  retryAfterMs: number;
 }
 
 export interface ServerConfig {
@@ -35,7 +102,29 @@ export interface ServerConfig {
   port: number;
   sessionTtlMs: number;
   heartbeatIntervalMs: number;
+  /** Consecutive heartbeat intervals a client may miss before eviction */
+  heartbeatMaxMissed: number;
   cleanupIntervalMs: number;
+  /**
+   * Proxy hops in front of the relay whose X-Forwarded-For entries are
+   * trusted (1 on Fly.io). Entries further left are client-supplied, so
+   * trusting them would let clients pick their own IP for rate limits.
+   */
+  trustProxy: number;
+  rateLimits: RateLimitConfig;
+  queue: QueueConfig;
+  backpressure: BackpressureConfig;
+  pairing: PairingConfig;
+  /** Other relays to look for sessions on before creating one here */
+  peers: PeerConfig;
+  /** Session state backend: in-process memory or shared Redis */
+  sessionStore: "memory" | "redis";
+  /** Redis connection URL, used when sessionStore is "redis" */
+  redisUrl: string;
+  /** How long startup waits for Redis before giving up */
+  redisConnectTimeoutMs: number;
+  /** Unique id of this relay instance, used for cross-node forwarding */
+  nodeId: string;
 }
 
 export const DEFAULT_CONFIG: ServerConfig = {
@@ -49,5 +138,74 @@ export const DEFAULT_CONFIG: ServerConfig = {
     process.env.HEARTBEAT_INTERVAL_MS ?? "30000",
     10,
   ), // 30 seconds
+  heartbeatMaxMissed: parseInt(process.env.HEARTBEAT_MAX_MISSED ?? "2", 10),
   cleanupIntervalMs: parseInt(process.env.CLEANUP_INTERVAL_MS ?? "60000", 10), // 1 minute
+  trustProxy: parseInt(process.env.TRUST_PROXY ?? "0", 10),
+  rateLimits: {
+    maxConnectionsPerIp: parseInt(
+      process.env.RATE_LIMIT_CONNECTIONS_PER_IP ?? "20",
+      10,
+    ),
+    framesPerSecond: parseInt(
+      process.env.RATE_LIMIT_FRAMES_PER_SECOND ?? "100",
+      10,
+    ),
+    joinsPerMinute: parseInt(
+      process.env.RATE_LIMIT_JOINS_PER_MINUTE ?? "30",
+      10,
+    ),
+    messagesPerSecond: parseInt(
+      process.env.RATE_LIMIT_MESSAGES_PER_SECOND ?? "50",
+      10,
+    ),
+    bytesPerSecond: parseInt(
+      process.env.RATE_LIMIT_BYTES_PER_SECOND ?? String(1024 * 1024),
+      10,
+    ), // 1 MiB
+    maxViolations: parseInt(process.env.RATE_LIMIT_MAX_VIOLATIONS ?? "20", 10),
+  },
+  queue: {
+    maxMessages: parseInt(process.env.QUEUE_MAX_MESSAGES ?? "200", 10),
+    maxBytes: parseInt(
+      process.env.QUEUE_MAX_BYTES ?? String(2 * 1024 * 1024),
+      10,
+    ), // 2 MiB
+    ttlMs: parseInt(process.env.QUEUE_TTL_MS ?? String(5 * 60 * 1000), 10), // 5 minutes
+  },
+  backpressure: {
+    maxFrameBytes: parseInt(
+      process.env.MAX_FRAME_BYTES ?? String(1024 * 1024),
+      10,
+    ), // 1 MiB
+    highWaterBytes: parseInt(
+      process.env.BACKPRESSURE_HIGH_WATER_BYTES ?? String(1024 * 1024),
+      10,
+    ), // 1 MiB
+    retryAfterMs: parseInt(process.env.BACKPRESSURE_RETRY_MS ?? "250", 10),
+  },
+  pairing: {
+    nameplateTtlMs: parseInt(
+      process.env.PAIRING_NAMEPLATE_TTL_MS ?? String(5 * 60 * 1000),
+      10,
+    ), // 5 minutes
+    maxNameplates: parseInt(process.env.PAIRING_MAX_NAMEPLATES ?? "9999", 10),
+  },
+  peers: {
+    urls: (process.env.RELAY_PEERS ?? "")
+      .split(",")
+      .map((url) => url.trim().replace(/\/+$/, ""))
+      .filter((url) => url.length > 0),
+    lookupTimeoutMs: parseInt(
+      process.env.RELAY_PEER_LOOKUP_TIMEOUT_MS ?? "1500",
+      10,
+    ),
+    secret: process.env.RELAY_PEER_SECRET ?? null,
+  },
+  sessionStore: process.env.SESSION_STORE === "redis" ? "redis" : "memory",
+  redisUrl: process.env.REDIS_URL ?? "redis://localhost:6379",
+  redisConnectTimeoutMs: parseInt(
+    process.env.REDIS_CONNECT_TIMEOUT_MS ?? "10000",
+    10,
+  ), // 10 seconds
+  nodeId: process.env.NODE_ID ?? process.env.FLY_MACHINE_ID ?? randomUUID(),
 };
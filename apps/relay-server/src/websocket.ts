@@ -1,205 +1,593 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
 import type { WebSocket } from "ws";
 
+import type { JoinFrame, MessageFrame } from "@mcc/core/relay";
+import {
+  decodeClientFrame,
+  encodeFrame,
+  getFrameVersion,
+  RELAY_PROTOCOL_VERSION,
+} from "@mcc/core/relay";
+
+import type {
+  RateLimiter,
+  RateLimitResult,
+  TokenBucket,
+} from "./rate-limiter.js";
 import type { SessionStore } from "./session-store.js";
-import type { ClientRole, RelayMessage, RelayResponse } from "./types.js";
+import type { ClientRole, RelayResponse, ServerConfig } from "./types.js";
+import {
+  bytesRelayedTotal,
+  errorsTotal,
+  framesDroppedTotal,
+  framesThrottledTotal,
+  joinsTotal,
+  messagesRelayedTotal,
+  peerLeftTotal,
+  peerLookupsTotal,
+} from "./metrics.js";
+import { locateSession } from "./peers.js";
+import { peerRole } from "./session-store.js";
 
 interface ClientContext {
+  ip: string;
   sessionId: string | null;
   role: ClientRole | null;
+  /** Number of over-limit frames this socket has sent */
+  violations: number;
+  /** Last time (ms since epoch) the socket proved it was alive */
+  lastSeen: number;
+  /** Per-connection budget charged for every frame, valid or not */
+  frames: TokenBucket;
+  /** Tail of this socket's work chain; frames are handled strictly in order */
+  pending: Promise<void>;
 }
 
 function send(socket: WebSocket, message: RelayResponse): void {
+  if (message.type === "error") {
+    errorsTotal.inc({ reason: message.code });
+  }
   if (socket.readyState === 1) {
-    socket.send(JSON.stringify(message));
+    socket.send(encodeFrame(message));
   }
 }
 
-function parseMessage(data: string): RelayMessage | null {
-  try {
-    const parsed = JSON.parse(data) as unknown;
-    if (typeof parsed !== "object" || parsed === null) return null;
-
-    const msg = parsed as Record<string, unknown>;
-    if (typeof msg.session_id !== "string") return null;
-    if (msg.role !== "desktop" && msg.role !== "mobile") return null;
-    if (!["join", "message", "ping", "leave"].includes(msg.type as string))
-      return null;
-
-    return {
-      session_id: msg.session_id,
-      role: msg.role,
-      type: msg.type as RelayMessage["type"],
-      payload: typeof msg.payload === "string" ? msg.payload : undefined,
-    };
-  } catch {
-    return null;
+/**
+ * Queue async work for a socket behind everything it sent before, so a
+ * message can never overtake the join that precedes it.
+ */
+function enqueueWork(
+  ctx: ClientContext,
+  fastify: FastifyInstance,
+  work: () => Promise<void>,
+): void {
+  ctx.pending = ctx.pending.then(work).catch((err: unknown) => {
+    fastify.log.error(
+      { err, sessionId: ctx.sessionId, role: ctx.role },
+      "Failed to handle WebSocket frame",
+    );
+  });
+}
+
+/**
+ * Tell the peer of `role` that its counterpart has gone
+ */
+async function notifyPeerLeft(
+  sessionStore: SessionStore,
+  sessionId: string,
+  role: ClientRole,
+): Promise<void> {
+  if (await sessionStore.sendToPeer(sessionId, role, { type: "peer_left" })) {
+    peerLeftTotal.inc();
   }
 }
 
-export function setupWebSocket(
-  fastify: FastifyInstance,
+/**
+ * Refresh a live client's heartbeat in the session store.
+ * Called on pongs, once per heartbeat interval, rather than on every frame.
+ */
+async function refreshHeartbeat(
+  ctx: ClientContext,
   sessionStore: SessionStore,
-): void {
-  fastify.get("/ws", { websocket: true }, (socket: WebSocket) => {
-    const ctx: ClientContext = {
-      sessionId: null,
-      role: null,
-    };
+): Promise<void> {
+  if (ctx.sessionId && ctx.role) {
+    await sessionStore.updateHeartbeat(ctx.sessionId, ctx.role);
+  }
+}
 
-    fastify.log.info("WebSocket connection established");
+/**
+ * Reject an over-limit frame with a structured error, disconnecting the
+ * client once it keeps ignoring the limit.
+ * Returns true if the frame may be processed.
+ */
+function enforceLimit(
+  socket: WebSocket,
+  ctx: ClientContext,
+  result: RateLimitResult,
+  rateLimiter: RateLimiter,
+  config: ServerConfig,
+  fastify: FastifyInstance,
+): boolean {
+  if (result.allowed) return true;
+
+  ctx.violations++;
+  framesThrottledTotal.inc({ reason: result.limit });
+  send(socket, {
+    type: "error",
+    code: "rate_limited",
+    message: `Rate limit exceeded: ${result.limit}`,
+    retryAfterMs: result.retryAfterMs,
+  });
 
-    socket.on("message", (data: Buffer) => {
-      const message = parseMessage(data.toString());
+  if (
+    ctx.violations > config.rateLimits.maxViolations &&
+    socket.readyState === 1
+  ) {
+    fastify.log.warn(
+      { ip: ctx.ip, sessionId: ctx.sessionId, role: ctx.role },
+      "Disconnecting client for repeated rate limit violations",
+    );
+    rateLimiter.recordDisconnect();
+    socket.close(1008, "Rate limit exceeded");
+  }
 
-      if (!message) {
-        send(socket, { type: "error", error: "Invalid message format" });
-        return;
-      }
+  return false;
+}
 
-      switch (message.type) {
-        case "join":
-          handleJoin(socket, message, ctx, sessionStore, fastify);
-          break;
-        case "message":
-          handleMessage(socket, message, ctx, sessionStore, fastify);
-          break;
-        case "ping":
-          handlePing(socket, message, ctx, sessionStore);
-          break;
-        case "leave":
-          handleLeave(socket, ctx, sessionStore, fastify);
-          break;
+export function setupWebSocket(
+  fastify: FastifyInstance,
+  sessionStore: SessionStore,
+  rateLimiter: RateLimiter,
+  config: ServerConfig,
+): void {
+  const heartbeatTimeoutMs =
+    config.heartbeatIntervalMs * config.heartbeatMaxMissed;
+
+  fastify.get(
+    "/ws",
+    { websocket: true },
+    (socket: WebSocket, request: FastifyRequest) => {
+      const ctx: ClientContext = {
+        ip: request.ip,
+        sessionId: null,
+        role: null,
+        violations: 0,
+        lastSeen: Date.now(),
+        frames: rateLimiter.createFrameBucket(),
+        pending: Promise.resolve(),
+      };
+
+      const connection = rateLimiter.acquireConnection(ctx.ip);
+      if (!connection.allowed) {
+        fastify.log.warn({ ip: ctx.ip }, "Rejected connection over IP limit");
+        send(socket, {
+          type: "error",
+          code: "too_many_connections",
+          message: "Too many connections from this address",
+        });
+        socket.close(1008, "Too many connections");
+        return;
       }
-    });
 
-    socket.on("close", () => {
-      if (ctx.sessionId && ctx.role) {
-        const peer = sessionStore.getPeer(ctx.sessionId, ctx.role);
-        sessionStore.removeClient(ctx.sessionId, ctx.role);
+      fastify.log.info("WebSocket connection established");
+
+      // Protocol-level heartbeat: ping every interval and evict sockets that
+      // stop answering, so a vanished peer is noticed long before session TTL.
+      const heartbeat = setInterval(() => {
+        if (Date.now() - ctx.lastSeen > heartbeatTimeoutMs) {
+          fastify.log.info(
+            { sessionId: ctx.sessionId, role: ctx.role },
+            "Heartbeat timed out, evicting client",
+          );
+          // terminate() emits "close", which releases the role slot
+          socket.terminate();
+          return;
+        }
+        socket.ping();
+      }, config.heartbeatIntervalMs);
+
+      socket.on("pong", () => {
+        ctx.lastSeen = Date.now();
+        enqueueWork(ctx, fastify, () => refreshHeartbeat(ctx, sessionStore));
+      });
+
+      socket.on("message", (data: Buffer) => {
+        ctx.lastSeen = Date.now();
+        // Charge the frame before parsing it, so invalid, ping and
+        // pre-join frames cannot flood the relay either
+        if (
+          !enforceLimit(
+            socket,
+            ctx,
+            rateLimiter.checkFrame(ctx.frames),
+            rateLimiter,
+            config,
+            fastify,
+          )
+        ) {
+          return;
+        }
+        enqueueWork(ctx, fastify, () =>
+          handleFrame(
+            socket,
+            data,
+            ctx,
+            sessionStore,
+            rateLimiter,
+            config,
+            fastify,
+          ),
+        );
+      });
 
-        if (peer) {
-          send(peer.socket, { type: "peer_left" });
+      socket.on("close", () => {
+        clearInterval(heartbeat);
+        rateLimiter.releaseConnection(ctx.ip);
+        enqueueWork(ctx, fastify, () =>
+          handleClose(socket, ctx, sessionStore, fastify),
+        );
+      });
+
+      socket.on("error", (err: Error & { code?: string }) => {
+        // ws rejects frames over maxPayload and closes the socket with 1009
+        if (err.code === "WS_ERR_UNSUPPORTED_MESSAGE_LENGTH") {
+          framesDroppedTotal.inc({ reason: "too_large" });
+          fastify.log.warn(
+            { ip: ctx.ip, sessionId: ctx.sessionId, role: ctx.role },
+            "Closing connection after oversized frame",
+          );
+          return;
         }
+        fastify.log.error(
+          { err, sessionId: ctx.sessionId, role: ctx.role },
+          "WebSocket error",
+        );
+      });
+    },
+  );
+}
+
+async function handleFrame(
+  socket: WebSocket,
+  data: Buffer,
+  ctx: ClientContext,
+  sessionStore: SessionStore,
+  rateLimiter: RateLimiter,
+  config: ServerConfig,
+  fastify: FastifyInstance,
+): Promise<void> {
+  const raw = data.toString();
+  const message = decodeClientFrame(raw);
+
+  if (!message) {
+    const version = getFrameVersion(raw);
+    if (version !== null && version !== RELAY_PROTOCOL_VERSION) {
+      send(socket, {
+        type: "error",
+        code: "unsupported_version",
+        message: `Unsupported relay protocol version ${version}`,
+      });
+    } else {
+      send(socket, {
+        type: "error",
+        code: "invalid_frame",
+        message: "Invalid frame format",
+      });
+    }
+    return;
+  }
 
-        fastify.log.info(
-          { sessionId: ctx.sessionId, role: ctx.role },
-          "Client disconnected",
+  switch (message.type) {
+    case "join":
+      if (
+        enforceLimit(
+          socket,
+          ctx,
+          rateLimiter.checkJoin(ctx.ip),
+          rateLimiter,
+          config,
+          fastify,
+        )
+      ) {
+        await handleJoin(socket, message, ctx, sessionStore, config, fastify);
+      }
+      break;
+    case "message":
+      if (
+        !ctx.sessionId ||
+        enforceLimit(
+          socket,
+          ctx,
+          rateLimiter.checkMessage(ctx.sessionId, data.length),
+          rateLimiter,
+          config,
+          fastify,
+        )
+      ) {
+        await handleMessage(
+          socket,
+          message,
+          ctx,
+          sessionStore,
+          config,
+          fastify,
         );
       }
-    });
+      break;
+    case "ping":
+      handlePing(socket);
+      break;
+    case "leave":
+      await handleLeave(socket, ctx, sessionStore, fastify);
+      break;
+    case "consume_pairing":
+      await handleConsumePairing(socket, ctx, sessionStore, fastify);
+      break;
+    case "reject_peer":
+      await handleRejectPeer(socket, ctx, sessionStore, fastify);
+      break;
+  }
+}
 
-    socket.on("error", (err) => {
-      fastify.log.error(
-        { err, sessionId: ctx.sessionId, role: ctx.role },
-        "WebSocket error",
-      );
-    });
-  });
+async function handleClose(
+  socket: WebSocket,
+  ctx: ClientContext,
+  sessionStore: SessionStore,
+  fastify: FastifyInstance,
+): Promise<void> {
+  // Only release the slot if this socket still owns it; the client may
+  // already have reconnected on a new socket.
+  if (
+    !ctx.sessionId ||
+    !ctx.role ||
+    sessionStore.getClient(ctx.sessionId, ctx.role)?.socket !== socket
+  ) {
+    return;
+  }
+
+  await sessionStore.removeClient(ctx.sessionId, ctx.role);
+  await notifyPeerLeft(sessionStore, ctx.sessionId, ctx.role);
+
+  fastify.log.info(
+    { sessionId: ctx.sessionId, role: ctx.role },
+    "Client disconnected",
+  );
 }
 
-function handleJoin(
+async function handleJoin(
   socket: WebSocket,
-  message: RelayMessage,
+  message: JoinFrame,
   ctx: ClientContext,
   sessionStore: SessionStore,
+  config: ServerConfig,
   fastify: FastifyInstance,
-): void {
-  // If already joined a session, leave it first
-  if (ctx.sessionId && ctx.role) {
-    const peer = sessionStore.getPeer(ctx.sessionId, ctx.role);
-    sessionStore.removeClient(ctx.sessionId, ctx.role);
-    if (peer) {
-      send(peer.socket, { type: "peer_left" });
+): Promise<void> {
+  // A session unknown here may live on a peer the other side failed over
+  // to; send the client there rather than splitting the session. A
+  // desktop's first join creates its session, so it skips the lookup.
+  if (
+    config.peers.urls.length > 0 &&
+    (message.role === "mobile" || message.resume === true) &&
+    !(await sessionStore.hasSession(message.sessionId))
+  ) {
+    const relayUrl = await locateSession(config.peers, message.sessionId);
+    peerLookupsTotal.inc({ result: relayUrl ? "found" : "not_found" });
+    if (relayUrl) {
+      fastify.log.info(
+        { sessionId: message.sessionId, role: message.role, relayUrl },
+        "Redirecting join to peer relay",
+      );
+      send(socket, { type: "redirect", relayUrl });
+      return;
     }
   }
 
+  if (
+    !(await sessionStore.claimRole(
+      message.sessionId,
+      message.role,
+      message.token,
+    ))
+  ) {
+    if (
+      message.role === "mobile" &&
+      (await sessionStore.isPairingConsumed(message.sessionId))
+    ) {
+      fastify.log.warn(
+        { sessionId: message.sessionId },
+        "Rejected mobile join for consumed pairing",
+      );
+      send(socket, {
+        type: "error",
+        code: "pairing_consumed",
+        message: "Session already paired with another device",
+      });
+      return;
+    }
+
+    fastify.log.warn(
+      { sessionId: message.sessionId, role: message.role },
+      "Rejected join for role claimed by another client",
+    );
+    send(socket, {
+      type: "error",
+      code: "role_claimed",
+      message: "Role already claimed by another client",
+    });
+    return;
+  }
+
+  // If already joined a different session or role, leave it first
+  if (
+    ctx.sessionId &&
+    ctx.role &&
+    (ctx.sessionId !== message.sessionId || ctx.role !== message.role)
+  ) {
+    await sessionStore.removeClient(ctx.sessionId, ctx.role, true);
+    await notifyPeerLeft(sessionStore, ctx.sessionId, ctx.role);
+  }
+
   const now = new Date();
-  const { existingPeer } = sessionStore.addClient(message.session_id, {
-    socket,
-    role: message.role,
-    connectedAt: now,
-    lastHeartbeat: now,
-  });
+  const { peerConnected, replaced } = await sessionStore.addClient(
+    message.sessionId,
+    {
+      socket,
+      role: message.role,
+      connectedAt: now,
+      lastHeartbeat: now,
+    },
+  );
 
-  ctx.sessionId = message.session_id;
+  ctx.sessionId = message.sessionId;
   ctx.role = message.role;
 
+  // Same proven client reconnecting: drop its stale socket
+  if (replaced && replaced.socket !== socket) {
+    replaced.socket.close(4001, "Replaced by new connection");
+  }
+
   fastify.log.info(
-    { sessionId: message.session_id, role: message.role },
+    { sessionId: message.sessionId, role: message.role },
     "Client joined session",
   );
 
   // Notify the joining client
   send(socket, { type: "joined" });
+  joinsTotal.inc({ role: message.role });
+
+  // Flush anything the peer sent while this client was away
+  const queued = await sessionStore.drainQueue(message.sessionId, message.role);
+  for (const msg of queued) {
+    send(socket, { type: "message", payload: msg.payload });
+  }
+  if (queued.length > 0) {
+    fastify.log.debug(
+      {
+        sessionId: message.sessionId,
+        role: message.role,
+        count: queued.length,
+      },
+      "Flushed queued messages",
+    );
+  }
 
-  // Notify peer if exists
-  if (existingPeer) {
-    send(existingPeer.socket, { type: "peer_joined" });
+  // Notify both sides if the peer is there; a desktop rejoining learns of
+  // a mobile that joined meanwhile, and may reject it
+  if (peerConnected) {
+    send(socket, { type: "peer_joined" });
+    await sessionStore.sendToPeer(message.sessionId, message.role, {
+      type: "peer_joined",
+    });
   }
 }
 
-function handleMessage(
+async function handleMessage(
   socket: WebSocket,
-  message: RelayMessage,
+  message: MessageFrame,
   ctx: ClientContext,
   sessionStore: SessionStore,
+  config: ServerConfig,
   fastify: FastifyInstance,
-): void {
+): Promise<void> {
   if (!ctx.sessionId || !ctx.role) {
-    send(socket, { type: "error", error: "Not joined to a session" });
+    send(socket, {
+      type: "error",
+      code: "not_joined",
+      message: "Not joined to a session",
+    });
     return;
   }
 
-  if (ctx.sessionId !== message.session_id || ctx.role !== message.role) {
-    send(socket, { type: "error", error: "Session/role mismatch" });
+  if (ctx.sessionId !== message.sessionId || ctx.role !== message.role) {
+    send(socket, {
+      type: "error",
+      code: "session_mismatch",
+      message: "Session/role mismatch",
+    });
     return;
   }
 
-  const peer = sessionStore.getPeer(ctx.sessionId, ctx.role);
-  if (!peer) {
-    send(socket, { type: "error", error: "Peer not connected" });
+  // Refuse to pile more onto a peer that is not draining its socket,
+  // before acking; the sender retries after the hint instead of the relay
+  // buffering for it
+  const target = peerRole(ctx.role);
+  const peer = sessionStore.getClient(ctx.sessionId, target);
+  const backedUp = peer
+    ? peer.socket.bufferedAmount > config.backpressure.highWaterBytes
+    : await sessionStore.isRemoteBackedUp(ctx.sessionId, target);
+  if (backedUp) {
+    framesThrottledTotal.inc({ reason: "backpressure" });
+    send(socket, {
+      type: "error",
+      code: "slow_down",
+      message: "Peer is not keeping up",
+      id: message.id,
+      retryAfterMs: config.backpressure.retryAfterMs,
+    });
     return;
   }
 
   // Forward the encrypted payload to the peer (blind relay)
-  send(peer.socket, { type: "message", payload: message.payload });
+  const delivered = await sessionStore.sendToPeer(ctx.sessionId, ctx.role, {
+    type: "message",
+    payload: message.payload,
+  });
+  const bytes = Buffer.byteLength(message.payload);
+  if (delivered) {
+    messagesRelayedTotal.inc({ status: "delivered" });
+    bytesRelayedTotal.inc({ status: "delivered" }, bytes);
+    send(socket, { type: "ack", id: message.id, status: "delivered" });
+
+    fastify.log.debug(
+      { sessionId: ctx.sessionId, from: ctx.role },
+      "Message relayed",
+    );
+    return;
+  }
+
+  // Peer is offline: hold the payload until it rejoins
+  if (!(await sessionStore.enqueue(ctx.sessionId, target, message.payload))) {
+    send(socket, {
+      type: "error",
+      code: "queue_full",
+      message: "Peer not connected and queue full",
+      id: message.id,
+    });
+    return;
+  }
+
+  messagesRelayedTotal.inc({ status: "queued" });
+  bytesRelayedTotal.inc({ status: "queued" }, bytes);
+  send(socket, { type: "ack", id: message.id, status: "queued" });
 
   fastify.log.debug(
     { sessionId: ctx.sessionId, from: ctx.role },
-    "Message relayed",
+    "Message queued for offline peer",
   );
 }
 
-function handlePing(
-  socket: WebSocket,
-  message: RelayMessage,
-  ctx: ClientContext,
-  sessionStore: SessionStore,
-): void {
-  if (ctx.sessionId && ctx.role) {
-    sessionStore.updateHeartbeat(ctx.sessionId, ctx.role);
-  }
+function handlePing(socket: WebSocket): void {
+  // Liveness was already recorded when the frame arrived
   send(socket, { type: "pong" });
 }
 
-function handleLeave(
+async function handleLeave(
   socket: WebSocket,
   ctx: ClientContext,
   sessionStore: SessionStore,
   fastify: FastifyInstance,
-): void {
+): Promise<void> {
   if (!ctx.sessionId || !ctx.role) {
-    send(socket, { type: "error", error: "Not joined to a session" });
+    send(socket, {
+      type: "error",
+      code: "not_joined",
+      message: "Not joined to a session",
+    });
     return;
   }
 
-  const peer = sessionStore.getPeer(ctx.sessionId, ctx.role);
-  sessionStore.removeClient(ctx.sessionId, ctx.role);
-
-  if (peer) {
-    send(peer.socket, { type: "peer_left" });
-  }
+  await sessionStore.removeClient(ctx.sessionId, ctx.role, true);
+  await notifyPeerLeft(sessionStore, ctx.sessionId, ctx.role);
 
   fastify.log.info(
     { sessionId: ctx.sessionId, role: ctx.role },
@@ -209,3 +597,70 @@ function handleLeave(
   ctx.sessionId = null;
   ctx.role = null;
 }
+
+async function handleConsumePairing(
+  socket: WebSocket,
+  ctx: ClientContext,
+  sessionStore: SessionStore,
+  fastify: FastifyInstance,
+): Promise<void> {
+  if (!ctx.sessionId || !ctx.role) {
+    send(socket, {
+      type: "error",
+      code: "not_joined",
+      message: "Not joined to a session",
+    });
+    return;
+  }
+  // Only the phone that completed pairing may burn the one-time code
+  if (ctx.role !== "mobile") {
+    send(socket, {
+      type: "error",
+      code: "wrong_role",
+      message: "Only the mobile can consume pairing",
+    });
+    return;
+  }
+
+  await sessionStore.consumePairing(ctx.sessionId);
+  send(socket, { type: "pairing_consumed" });
+
+  fastify.log.info(
+    { sessionId: ctx.sessionId, role: ctx.role },
+    "Pairing consumed",
+  );
+}
+
+async function handleRejectPeer(
+  socket: WebSocket,
+  ctx: ClientContext,
+  sessionStore: SessionStore,
+  fastify: FastifyInstance,
+): Promise<void> {
+  if (!ctx.sessionId || !ctx.role) {
+    send(socket, {
+      type: "error",
+      code: "not_joined",
+      message: "Not joined to a session",
+    });
+    return;
+  }
+  // A nameplate can be guessed, so the desktop, which sees whether the
+  // phone proves the pairing code, decides who keeps the mobile slot
+  if (ctx.role !== "desktop") {
+    send(socket, {
+      type: "error",
+      code: "wrong_role",
+      message: "Only the desktop can reject its peer",
+    });
+    return;
+  }
+
+  await sessionStore.rejectMobile(ctx.sessionId);
+  send(socket, { type: "peer_left" });
+
+  fastify.log.warn(
+    { sessionId: ctx.sessionId, role: ctx.role },
+    "Desktop rejected mobile",
+  );
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  acceptNegotiatedCapabilities,
+  compareProtocolVersions,
+  createCapabilityOffer,
+  hasCapability,
+  negotiateCapabilities,
+  negotiateProtocolVersion,
+  negotiationTranscript,
+} from "../capabilities";
+import {
+  createKeyConfirmation,
+  deriveSessionKeys,
+  generateKeyPair,
+  verifyKeyConfirmation,
+} from "../crypto";
+import { HandshakeCompleteSchema, HandshakeResponseSchema } from "../protocol";
+
+describe("Protocol Versions", () => {
+  it("should compare versions numerically", () => {
+    expect(compareProtocolVersions("1.10", "1.9")).toBeGreaterThan(0);
+    expect(compareProtocolVersions("2.0", "10.0")).toBeLessThan(0);
+    expect(compareProtocolVersions("1.0", "1.0")).toBe(0);
+    expect(compareProtocolVersions("1", "1.0")).toBeNull();
+  });
+
+  it("should pick the highest common version", () => {
+    expect(
+      negotiateProtocolVersion(["1.0", "1.2", "2.0"], ["1.2", "1.0"]),
+    ).toBe("1.2");
+    expect(negotiateProtocolVersion(["2.0"], ["1.0"])).toBeNull();
+  });
+
+  it("should treat peers that do not negotiate as 1.0", () => {
+    expect(negotiateProtocolVersion(undefined)).toBe("1.0");
+  });
+});
+
+describe("Capability Negotiation", () => {
+  it("should agree on the capabilities both sides support", () => {
+    const mobile = createCapabilityOffer(
+      ["1.0"],
+      ["compression", "chunking", "attachments"],
+    );
+    const desktop = createCapabilityOffer(["1.0"], ["compression", "ratchet"]);
+
+    const result = negotiateCapabilities(mobile, desktop);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.negotiated).toEqual({
+      version: "1.0",
+      capabilities: ["compression"],
+    });
+
+    const accepted = acceptNegotiatedCapabilities(result.negotiated, mobile);
+    expect(accepted).toEqual(result.negotiated);
+    expect(accepted && hasCapability(accepted, "compression")).toBe(true);
+    expect(accepted && hasCapability(accepted, "chunking")).toBe(false);
+  });
+
+  it("should ignore capabilities from newer peers", () => {
+    const response = HandshakeResponseSchema.parse({
+      type: "handshake_response",
+      sessionId: "session-1",
+      mobilePublicKey: "AAAA",
+      versions: ["1.0", "3.1"],
+      capabilities: ["chunking", "holograms"],
+    });
+
+    expect(negotiateCapabilities(response)).toEqual({
+      ok: true,
+      negotiated: { version: "1.0", capabilities: ["chunking"] },
+    });
+  });
+
+  it("should fall back to no capabilities with a legacy peer", () => {
+    expect(negotiateCapabilities({})).toEqual({
+      ok: true,
+      negotiated: { version: "1.0", capabilities: [] },
+    });
+    expect(acceptNegotiatedCapabilities({})).toEqual({
+      version: "1.0",
+      capabilities: [],
+    });
+  });
+
+  it("should fail without a common version", () => {
+    expect(negotiateCapabilities({ versions: ["2.0"] })).toEqual({
+      ok: false,
+      error: "unsupported_version",
+    });
+  });
+
+  it("should reject choices the mobile did not offer", () => {
+    const offer = createCapabilityOffer(["1.0"], ["chunking"]);
+
+    expect(
+      acceptNegotiatedCapabilities(
+        { version: "1.0", capabilities: ["ratchet"] },
+        offer,
+      ),
+    ).toBeNull();
+    expect(
+      acceptNegotiatedCapabilities({ version: "9.0", capabilities: [] }, offer),
+    ).toBeNull();
+  });
+
+  it("should fit in handshake_complete", () => {
+    const result = negotiateCapabilities(createCapabilityOffer());
+    if (!result.ok) throw new Error(result.error);
+
+    expect(
+      HandshakeCompleteSchema.safeParse({
+        type: "handshake_complete",
+        sessionId: "session-1",
+        success: true,
+        ...result.negotiated,
+      }).success,
+    ).toBe(true);
+  });
+});
+
+describe("Negotiation Transcript", () => {
+  const secret = generateKeyPair().secretKey;
+  const desktopKeys = deriveSessionKeys(secret, "desktop", "s", "1.0");
+  const mobileKeys = deriveSessionKeys(secret, "mobile", "s", "1.0");
+  const offer = createCapabilityOffer(["1.0"], ["compression", "padding"]);
+  const choice = { version: "1.0", capabilities: ["compression", "padding"] };
+
+  it("should confirm keys over an unchanged negotiation", () => {
+    const mac = createKeyConfirmation(
+      desktopKeys,
+      "desktop",
+      negotiationTranscript(offer, choice),
+    );
+
+    expect(
+      verifyKeyConfirmation(
+        mobileKeys,
+        "desktop",
+        mac,
+        negotiationTranscript(offer, choice),
+      ),
+    ).toBe(true);
+  });
+
+  it("should fail confirmation when the relay strips the offer", () => {
+    // The desktop only saw what the relay passed on
+    const stripped = { ...offer, capabilities: [] };
+    const mac = createKeyConfirmation(
+      desktopKeys,
+      "desktop",
+      negotiationTranscript(stripped, { version: "1.0", capabilities: [] }),
+    );
+
+    expect(
+      verifyKeyConfirmation(
+        mobileKeys,
+        "desktop",
+        mac,
+        negotiationTranscript(offer, { version: "1.0", capabilities: [] }),
+      ),
+    ).toBe(false);
+  });
+});
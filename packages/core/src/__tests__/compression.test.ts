@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  compressPayload,
+  decompressPayload,
+  negotiateCompression,
+} from "../compression";
+import { stringToBytes } from "../crypto";
+
+const diff = stringToBytes(
+  Array.from({ length: 200 }, (_, i) => `+  const line${i} = ${i};\n`).join(""),
+);
+
+describe("Compression Negotiation", () => {
+  it("should compress when both sides have the capability", () => {
+    expect(
+      negotiateCompression({ version: "1.0", capabilities: ["compression"] }),
+    ).toBe("deflate");
+  });
+
+  it("should fall back to no compression", () => {
+    expect(
+      negotiateCompression({ version: "1.0", capabilities: ["chunking"] }),
+    ).toBeNull();
+  });
+});
+
+describe("Payload Compression", () => {
+  it("should round trip a large payload", () => {
+    const { data, compression } = compressPayload(diff, "deflate");
+
+    expect(compression).toBe("deflate");
+    expect(data.length).toBeLessThan(diff.length / 2);
+    expect(decompressPayload(data, compression)).toEqual(diff);
+  });
+
+  it("should leave small payloads alone", () => {
+    const small = stringToBytes("a".repeat(100));
+
+    expect(compressPayload(small, "deflate")).toEqual({ data: small });
+    expect(compressPayload(small, "deflate", { threshold: 0 })).toMatchObject({
+      compression: "deflate",
+    });
+  });
+
+  it("should not compress when negotiation found nothing", () => {
+    expect(compressPayload(diff, null)).toEqual({ data: diff });
+  });
+
+  it("should skip payloads that do not shrink", () => {
+    const random = crypto.getRandomValues(new Uint8Array(4096));
+
+    expect(compressPayload(random, "deflate")).toEqual({ data: random });
+  });
+
+  it("should reject corrupt data", () => {
+    const { data } = compressPayload(diff, "deflate");
+
+    expect(decompressPayload(data.slice(0, 20), "deflate")).toBeNull();
+    expect(decompressPayload(new Uint8Array(0), "deflate")).toBeNull();
+    expect(decompressPayload(new Uint8Array([0xff, 0xff]), "deflate")).toBe(
+      null,
+    );
+  });
+
+  it("should stop inflating past the size limit", () => {
+    const bomb = compressPayload(new Uint8Array(1024 * 1024), "deflate");
+
+    expect(bomb.data.length).toBeLessThan(2048);
+    expect(decompressPayload(bomb.data, "deflate", 64 * 1024)).toBeNull();
+    expect(decompressPayload(bomb.data, "deflate")?.length).toBe(1024 * 1024);
+  });
+});
@@ -3,9 +3,12 @@ import { describe, expect, it } from "vitest";
 import {
   bytesToString,
   clearBytes,
+  concatBytes,
   constantTimeEqual,
+  createKeyConfirmation,
   decrypt,
   decryptString,
+  deriveSessionKeys,
   deriveSharedSecret,
   deserializeEncryptedMessage,
   deserializeKeyPair,
@@ -15,10 +18,20 @@ import {
   generateKeyPair,
   generateNonce,
   generateSessionId,
+  generateSigningKeyPair,
+  hkdf,
+  hmacSha512,
+  paddedLength,
+  PADDING_BUCKETS,
+  padMessage,
   serializeEncryptedMessage,
   serializeKeyPair,
+  sign,
   stringToBytes,
   toBase64,
+  unpadMessage,
+  verify,
+  verifyKeyConfirmation,
 } from "../crypto";
 
 describe("Key Generation", () => {
@@ -195,6 +208,47 @@ describe("String Encryption", () => {
   });
 });
 
+describe("Padding", () => {
+  it("should round up to the nearest bucket", () => {
+    expect(paddedLength(0)).toBe(256);
+    expect(paddedLength(255)).toBe(256);
+    expect(paddedLength(256)).toBe(1024);
+    expect(paddedLength(65535)).toBe(65536);
+    expect(paddedLength(65536)).toBe(131072);
+  });
+
+  it("should round trip any content", () => {
+    for (const message of [
+      new Uint8Array(0),
+      new Uint8Array(255).fill(0x80),
+      new Uint8Array([1, 2, 0, 0]),
+    ]) {
+      const padded = padMessage(message);
+      expect(PADDING_BUCKETS).toContain(padded.length);
+      expect(unpadMessage(padded)).toEqual(message);
+    }
+  });
+
+  it("should reject invalid padding", () => {
+    expect(unpadMessage(new Uint8Array(256))).toBeNull();
+    expect(unpadMessage(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  it("should hide the length of encrypted strings", () => {
+    const key = deriveSharedSecret(
+      generateKeyPair().secretKey,
+      generateKeyPair().publicKey,
+    );
+    const approve = encryptString('{"type":"approve"}', key, { padded: true });
+    const message = encryptString("x".repeat(200), key, { padded: true });
+
+    expect(approve.ciphertext.length).toBe(message.ciphertext.length);
+    expect(
+      decryptString(approve.ciphertext, approve.nonce, key, { padded: true }),
+    ).toBe('{"type":"approve"}');
+  });
+});
+
 describe("Message Serialization", () => {
   it("should serialize and deserialize encrypted messages", () => {
     const alice = generateKeyPair();
@@ -321,3 +375,192 @@ describe("Clear Bytes", () => {
     expect(data).toEqual(new Uint8Array([0, 0, 0, 0, 0]));
   });
 });
+
+describe("Key Derivation", () => {
+  const hex = (bytes: Uint8Array) =>
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const fromHex = (str: string) =>
+    new Uint8Array(str.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+
+  it("should concatenate byte arrays", () => {
+    expect(
+      concatBytes(
+        new Uint8Array([1, 2]),
+        new Uint8Array(0),
+        new Uint8Array([3]),
+      ),
+    ).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("should match the RFC 4231 HMAC-SHA-512 test vector", () => {
+    const mac = hmacSha512(
+      new Uint8Array(20).fill(0x0b),
+      stringToBytes("Hi There"),
+    );
+
+    expect(hex(mac)).toBe(
+      "87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cde" +
+        "daa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854",
+    );
+  });
+
+  it("should hash keys longer than the block size", () => {
+    const longKey = new Uint8Array(200).fill(0xaa);
+
+    expect(hmacSha512(longKey, stringToBytes("data"))).not.toEqual(
+      hmacSha512(longKey.slice(0, 128), stringToBytes("data")),
+    );
+  });
+
+  it("should derive HKDF-SHA-512 output", () => {
+    const okm = hkdf(
+      new Uint8Array(22).fill(0x0b),
+      fromHex("000102030405060708090a0b0c"),
+      fromHex("f0f1f2f3f4f5f6f7f8f9"),
+      42,
+    );
+
+    expect(hex(okm)).toBe(
+      "832390086cda71fb47625bb5ceb168e4c8e26a1a16ed34d9fc7fe92c14815793" +
+        "38da362cb8d9f925d7cb",
+    );
+  });
+
+  it("should derive multi-block HKDF output without salt or info", () => {
+    const okm = hkdf(new Uint8Array(22).fill(0x0b), new Uint8Array(0), "", 100);
+
+    expect(hex(okm)).toBe(
+      "f5fa02b18298a72a8c23898a8703472c6eb179dc204c03425c970e3b164bf90f" +
+        "ff22d04836d0e2343bacc4e7cb6045faaa698e0e3b3eb91331306def1db8319e" +
+        "8a699b5ee45ab993847dc4df75bde023692c8c0710a67a55123f10a8b2d8327f" +
+        "9eb138da",
+    );
+  });
+
+  it("should separate outputs by context", () => {
+    const ikm = new Uint8Array(32).fill(7);
+
+    expect(hkdf(ikm, new Uint8Array(0), "a", 32)).not.toEqual(
+      hkdf(ikm, new Uint8Array(0), "b", 32),
+    );
+  });
+
+  it("should reject overlong output", () => {
+    expect(() =>
+      hkdf(new Uint8Array(32), new Uint8Array(0), "", 255 * 64 + 1),
+    ).toThrow();
+  });
+});
+
+describe("Session Keys", () => {
+  function derivePair(sessionId = "session-1", version = "1.0") {
+    const desktopKeys = generateKeyPair();
+    const mobileKeys = generateKeyPair();
+    const secret = deriveSharedSecret(
+      desktopKeys.secretKey,
+      mobileKeys.publicKey,
+    );
+    return {
+      desktop: deriveSessionKeys(secret, "desktop", sessionId, version),
+      mobile: deriveSessionKeys(secret, "mobile", sessionId, version),
+      secret,
+    };
+  }
+
+  it("should give each direction its own key", () => {
+    const { desktop, mobile } = derivePair();
+
+    expect(desktop.sendKey).toEqual(mobile.receiveKey);
+    expect(mobile.sendKey).toEqual(desktop.receiveKey);
+    expect(desktop.sendKey).not.toEqual(desktop.receiveKey);
+    expect(desktop.confirmKey).toEqual(mobile.confirmKey);
+  });
+
+  it("should not decrypt a message reflected back to its sender", () => {
+    const { desktop, mobile } = derivePair();
+    const { ciphertext, nonce } = encryptString("approve", mobile.sendKey);
+
+    expect(decryptString(ciphertext, nonce, desktop.receiveKey)).toBe(
+      "approve",
+    );
+    expect(decryptString(ciphertext, nonce, mobile.receiveKey)).toBeNull();
+  });
+
+  it("should mix in the session id and protocol version", () => {
+    const { secret, desktop } = derivePair();
+
+    expect(
+      deriveSessionKeys(secret, "desktop", "session-2", "1.0").sendKey,
+    ).not.toEqual(desktop.sendKey);
+    expect(
+      deriveSessionKeys(secret, "desktop", "session-1", "2.0").sendKey,
+    ).not.toEqual(desktop.sendKey);
+  });
+
+  it("should confirm matching keys", () => {
+    const { desktop, mobile } = derivePair();
+    const mac = createKeyConfirmation(desktop, "desktop");
+
+    expect(verifyKeyConfirmation(mobile, "desktop", mac)).toBe(true);
+    // A confirmation is only valid for the role that made it
+    expect(verifyKeyConfirmation(mobile, "mobile", mac)).toBe(false);
+  });
+
+  it("should reject confirmation from different keys", () => {
+    const { desktop } = derivePair();
+    const { mobile } = derivePair();
+
+    expect(
+      verifyKeyConfirmation(
+        mobile,
+        "desktop",
+        createKeyConfirmation(desktop, "desktop"),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("Signatures", () => {
+  it("should generate Ed25519 key pairs", () => {
+    const keyPair = generateSigningKeyPair();
+
+    expect(keyPair.publicKey.length).toBe(32);
+    expect(keyPair.secretKey.length).toBe(64);
+  });
+
+  it("should verify a valid signature", () => {
+    const keyPair = generateSigningKeyPair();
+    const message = stringToBytes("handshake");
+
+    expect(
+      verify(message, sign(message, keyPair.secretKey), keyPair.publicKey),
+    ).toBe(true);
+  });
+
+  it("should reject a signature over a different message", () => {
+    const keyPair = generateSigningKeyPair();
+    const signature = sign(stringToBytes("handshake"), keyPair.secretKey);
+
+    expect(
+      verify(stringToBytes("handshakE"), signature, keyPair.publicKey),
+    ).toBe(false);
+  });
+
+  it("should reject a signature from another key", () => {
+    const message = stringToBytes("handshake");
+    const signature = sign(message, generateSigningKeyPair().secretKey);
+
+    expect(verify(message, signature, generateSigningKeyPair().publicKey)).toBe(
+      false,
+    );
+  });
+
+  it("should return false for malformed signatures and keys", () => {
+    const keyPair = generateSigningKeyPair();
+    const message = stringToBytes("handshake");
+    const signature = sign(message, keyPair.secretKey);
+
+    expect(verify(message, signature.slice(1), keyPair.publicKey)).toBe(false);
+    expect(verify(message, signature, keyPair.publicKey.slice(1))).toBe(false);
+  });
+});
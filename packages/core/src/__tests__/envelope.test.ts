@@ -0,0 +1,450 @@
+import { describe, expect, it } from "vitest";
+
+import type { EncryptedEnvelope } from "../protocol";
+import { deriveSharedSecret, generateKeyPair, toBase64 } from "../crypto";
+import {
+  createCoverTraffic,
+  createEnvelopeReceiver,
+  createEnvelopeSender,
+  DEFAULT_COVER_TRAFFIC,
+  ENVELOPE_MAX_AGE_MS,
+  ENVELOPE_MAX_CLOCK_SKEW_MS,
+  ENVELOPE_REPLAY_WINDOW,
+  isCoverDue,
+  isCoverMessage,
+  openEnvelope,
+  recordTraffic,
+  sealCoverEnvelope,
+  sealEnvelope,
+} from "../envelope";
+import { EncryptedEnvelopeSchema, ENVELOPE_VERSION_PADDED } from "../protocol";
+
+function createSession() {
+  const desktopKeys = generateKeyPair();
+  const mobileKeys = generateKeyPair();
+  return {
+    key: deriveSharedSecret(desktopKeys.secretKey, mobileKeys.publicKey),
+    mobile: createEnvelopeSender("session-1", "mobile"),
+    desktop: createEnvelopeReceiver("session-1", "desktop"),
+  };
+}
+
+function sealMany(
+  sender: ReturnType<typeof createEnvelopeSender>,
+  key: Uint8Array,
+  count: number,
+): EncryptedEnvelope[] {
+  return Array.from({ length: count }, (_, i) =>
+    sealEnvelope(sender, key, `message ${i}`),
+  );
+}
+
+describe("Envelope Sealing", () => {
+  it("should round trip with increasing sequence numbers", () => {
+    const { key, mobile, desktop } = createSession();
+    const first = sealEnvelope(mobile, key, "approve");
+    const second = sealEnvelope(mobile, key, "reject");
+
+    expect(EncryptedEnvelopeSchema.safeParse(first).success).toBe(true);
+    expect([first.seq, second.seq]).toEqual([0, 1]);
+    expect(openEnvelope(desktop, key, first)).toEqual({
+      ok: true,
+      plaintext: "approve",
+      seq: 0,
+      missed: 0,
+    });
+    expect(openEnvelope(desktop, key, second)).toMatchObject({ ok: true });
+  });
+
+  it("should keep separate counters per direction", () => {
+    const { key } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile");
+    const desktop = createEnvelopeSender("session-1", "desktop");
+
+    const fromMobile = sealEnvelope(mobile, key, "a");
+    const fromDesktop = sealEnvelope(desktop, key, "b");
+
+    expect(fromMobile.seq).toBe(0);
+    expect(fromDesktop.seq).toBe(0);
+    expect(
+      openEnvelope(createEnvelopeReceiver("session-1", "mobile"), key, {
+        ...fromMobile,
+        sender: "desktop",
+      }),
+    ).toEqual({ ok: false, error: "tampered" });
+  });
+});
+
+describe("Envelope Replay Protection", () => {
+  it("should reject a replayed envelope", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "approve_permission");
+
+    expect(openEnvelope(desktop, key, envelope).ok).toBe(true);
+    expect(openEnvelope(desktop, key, envelope)).toEqual({
+      ok: false,
+      error: "replay",
+    });
+  });
+
+  it("should accept reordering within the window", () => {
+    const { key, mobile, desktop } = createSession();
+    const [a, b, c] = sealMany(mobile, key, 3);
+    if (!a || !b || !c) throw new Error("missing envelope");
+
+    expect(openEnvelope(desktop, key, c).ok).toBe(true);
+    expect(openEnvelope(desktop, key, a).ok).toBe(true);
+    expect(openEnvelope(desktop, key, b).ok).toBe(true);
+    expect(openEnvelope(desktop, key, a)).toEqual({
+      ok: false,
+      error: "replay",
+    });
+  });
+
+  it("should reject envelopes older than the window", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelopes = sealMany(mobile, key, ENVELOPE_REPLAY_WINDOW + 2);
+    const [oldest, second] = envelopes;
+    const newest = envelopes.at(-1);
+    if (!oldest || !second || !newest) throw new Error("missing envelope");
+
+    expect(openEnvelope(desktop, key, second).ok).toBe(true);
+    expect(openEnvelope(desktop, key, newest).ok).toBe(true);
+    expect(openEnvelope(desktop, key, oldest)).toEqual({
+      ok: false,
+      error: "replay",
+    });
+  });
+
+  it("should report a small gap in the sequence", () => {
+    const { key, mobile, desktop } = createSession();
+    const [first, , , fourth, fifth] = sealMany(mobile, key, 5);
+    if (!first || !fourth || !fifth) throw new Error("missing envelope");
+
+    expect(openEnvelope(desktop, key, first)).toMatchObject({ missed: 0 });
+    expect(openEnvelope(desktop, key, fourth)).toMatchObject({
+      ok: true,
+      seq: 3,
+      missed: 2,
+    });
+    expect(openEnvelope(desktop, key, fifth)).toMatchObject({ missed: 0 });
+  });
+
+  it("should move the window past a gap and report the lost messages", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelopes = sealMany(mobile, key, ENVELOPE_REPLAY_WINDOW + 3);
+    const first = envelopes[0];
+    const lost = envelopes[1];
+    const lastInWindow = envelopes[3];
+    const beyond = envelopes.at(-1);
+    if (!first || !lost || !lastInWindow || !beyond) {
+      throw new Error("missing envelope");
+    }
+
+    expect(openEnvelope(desktop, key, first)).toMatchObject({ missed: 0 });
+    expect(openEnvelope(desktop, key, beyond)).toMatchObject({
+      ok: true,
+      seq: ENVELOPE_REPLAY_WINDOW + 2,
+      missed: ENVELOPE_REPLAY_WINDOW + 1,
+    });
+    expect(openEnvelope(desktop, key, lost)).toEqual({
+      ok: false,
+      error: "replay",
+    });
+    expect(openEnvelope(desktop, key, lastInWindow)).toMatchObject({
+      ok: true,
+      missed: 0,
+    });
+  });
+
+  it("should jump to a sequence number far past the window", () => {
+    const { key, mobile, desktop } = createSession();
+    const first = sealEnvelope(mobile, key, "hello");
+    mobile.nextSeq = Number.MAX_SAFE_INTEGER;
+    const far = sealEnvelope(mobile, key, "hello");
+
+    expect(openEnvelope(desktop, key, first).ok).toBe(true);
+    expect(openEnvelope(desktop, key, far)).toMatchObject({
+      ok: true,
+      missed: Number.MAX_SAFE_INTEGER - 1,
+    });
+    expect(desktop.window).toBe(1n);
+    expect(openEnvelope(desktop, key, far)).toEqual({
+      ok: false,
+      error: "replay",
+    });
+  });
+
+  it("should not record rejected envelopes", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, envelope, {
+        now: envelope.timestamp - ENVELOPE_MAX_CLOCK_SKEW_MS - 1,
+      }).ok,
+    ).toBe(false);
+    expect(openEnvelope(desktop, key, envelope).ok).toBe(true);
+  });
+});
+
+describe("Envelope Tampering", () => {
+  it("should detect a changed sequence number", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(openEnvelope(desktop, key, { ...envelope, seq: 5 })).toEqual({
+      ok: false,
+      error: "tampered",
+    });
+  });
+
+  it("should detect a changed timestamp", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, {
+        ...envelope,
+        timestamp: envelope.timestamp + 1,
+      }),
+    ).toEqual({ ok: false, error: "tampered" });
+  });
+
+  it("should detect a changed ciphertext", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, {
+        ...envelope,
+        ciphertext: toBase64(new Uint8Array(32)),
+      }),
+    ).toEqual({ ok: false, error: "tampered" });
+  });
+
+  it("should reject envelopes without a sequence number", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+    delete envelope.seq;
+
+    expect(openEnvelope(desktop, key, envelope)).toEqual({
+      ok: false,
+      error: "malformed",
+    });
+  });
+
+  it("should reject misrouted envelopes", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, { ...envelope, sessionId: "session-2" }),
+    ).toEqual({ ok: false, error: "misrouted" });
+    expect(
+      openEnvelope(
+        createEnvelopeReceiver("session-1", "mobile"),
+        key,
+        envelope,
+      ),
+    ).toEqual({ ok: false, error: "misrouted" });
+  });
+});
+
+describe("Envelope Timestamps", () => {
+  it("should tolerate clock skew in both directions", () => {
+    const { key, mobile, desktop } = createSession();
+    const [ahead, behind] = sealMany(mobile, key, 2);
+    if (!ahead || !behind) throw new Error("missing envelope");
+
+    expect(
+      openEnvelope(desktop, key, ahead, {
+        now: ahead.timestamp - ENVELOPE_MAX_CLOCK_SKEW_MS,
+      }).ok,
+    ).toBe(true);
+    expect(
+      openEnvelope(desktop, key, behind, {
+        now:
+          behind.timestamp + ENVELOPE_MAX_AGE_MS + ENVELOPE_MAX_CLOCK_SKEW_MS,
+      }).ok,
+    ).toBe(true);
+  });
+
+  it("should reject envelopes from too far in the future", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, envelope, {
+        now: envelope.timestamp - ENVELOPE_MAX_CLOCK_SKEW_MS - 1,
+      }),
+    ).toEqual({ ok: false, error: "clock_skew" });
+  });
+
+  it("should reject stale envelopes", () => {
+    const { key, mobile, desktop } = createSession();
+    const envelope = sealEnvelope(mobile, key, "hello");
+
+    expect(
+      openEnvelope(desktop, key, envelope, {
+        now: envelope.timestamp + ENVELOPE_MAX_AGE_MS * 2,
+      }),
+    ).toEqual({ ok: false, error: "stale" });
+  });
+});
+
+describe("Envelope Padding", () => {
+  it("should pad to a bucket and record it in the version", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      padded: true,
+    });
+    const small = sealEnvelope(mobile, key, "approve");
+    const larger = sealEnvelope(mobile, key, "x".repeat(200));
+
+    expect(small.version).toBe(ENVELOPE_VERSION_PADDED);
+    expect(EncryptedEnvelopeSchema.safeParse(small).success).toBe(true);
+    expect(small.ciphertext.length).toBe(larger.ciphertext.length);
+    expect(openEnvelope(desktop, key, small)).toEqual({
+      ok: true,
+      plaintext: "approve",
+      seq: 0,
+      missed: 0,
+    });
+  });
+
+  it("should leave unpadded envelopes unversioned", () => {
+    const { key, mobile } = createSession();
+
+    expect(sealEnvelope(mobile, key, "approve").version).toBeUndefined();
+  });
+
+  it("should reject an envelope whose version was changed", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      padded: true,
+    });
+    const envelope = sealEnvelope(mobile, key, "approve");
+    delete envelope.version;
+
+    expect(openEnvelope(desktop, key, envelope)).toEqual({
+      ok: false,
+      error: "tampered",
+    });
+  });
+});
+
+describe("Cover Traffic", () => {
+  const config = { enabled: true, minIntervalMs: 1000, maxIntervalMs: 2000 };
+
+  it("should schedule cover within the configured interval", () => {
+    const cover = createCoverTraffic(config, 0);
+
+    expect(cover.nextAt).toBeGreaterThanOrEqual(1000);
+    expect(cover.nextAt).toBeLessThan(2000);
+    expect(isCoverDue(cover, 999)).toBe(false);
+    expect(isCoverDue(cover, 2000)).toBe(true);
+  });
+
+  it("should postpone cover while real traffic flows", () => {
+    const cover = createCoverTraffic(config, 0);
+    recordTraffic(cover, 1500);
+
+    expect(isCoverDue(cover, 2000)).toBe(false);
+    expect(isCoverDue(cover, 3500)).toBe(true);
+  });
+
+  it("should never be due when disabled", () => {
+    const cover = createCoverTraffic(DEFAULT_COVER_TRAFFIC, 0);
+
+    expect(cover.nextAt).toBeNull();
+    expect(isCoverDue(cover, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it("should look like a small real message to the relay", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      padded: true,
+    });
+    const cover = createCoverTraffic(config, 0);
+    const real = sealEnvelope(mobile, key, "approve");
+    const fake = sealCoverEnvelope(mobile, key, cover, 5000);
+
+    expect(fake.ciphertext.length).toBe(real.ciphertext.length);
+    expect(fake.seq).toBe(1);
+    expect(cover.nextAt).toBeGreaterThanOrEqual(6000);
+
+    const opened = openEnvelope(desktop, key, fake);
+    if (!opened.ok) throw new Error(opened.error);
+    expect(isCoverMessage(opened.plaintext)).toBe(true);
+  });
+
+  it("should refuse cover from an unpadded sender", () => {
+    const { key, mobile } = createSession();
+
+    expect(() =>
+      sealCoverEnvelope(mobile, key, createCoverTraffic(config)),
+    ).toThrow();
+  });
+});
+
+describe("Envelope Compression", () => {
+  const event = JSON.stringify({
+    type: "tool_result",
+    content: "src/index.ts\n".repeat(500),
+  });
+
+  it("should compress large payloads and flag the envelope", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      compression: "deflate",
+    });
+    const envelope = sealEnvelope(mobile, key, event);
+
+    expect(envelope.compression).toBe("deflate");
+    expect(EncryptedEnvelopeSchema.safeParse(envelope).success).toBe(true);
+    expect(envelope.ciphertext.length).toBeLessThan(event.length / 2);
+    expect(openEnvelope(desktop, key, envelope)).toMatchObject({
+      ok: true,
+      plaintext: event,
+    });
+  });
+
+  it("should send small payloads uncompressed", () => {
+    const { key } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      compression: "deflate",
+    });
+
+    expect(sealEnvelope(mobile, key, "approve").compression).toBeUndefined();
+  });
+
+  it("should combine with padding", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      padded: true,
+      compression: "deflate",
+    });
+    const envelope = sealEnvelope(mobile, key, event);
+
+    expect(envelope).toMatchObject({ version: 2, compression: "deflate" });
+    expect(openEnvelope(desktop, key, envelope)).toMatchObject({
+      ok: true,
+      plaintext: event,
+    });
+  });
+
+  it("should reject an envelope whose compression flag was stripped", () => {
+    const { key, desktop } = createSession();
+    const mobile = createEnvelopeSender("session-1", "mobile", {
+      compression: "deflate",
+    });
+    const envelope = sealEnvelope(mobile, key, event);
+    delete envelope.compression;
+
+    expect(openEnvelope(desktop, key, envelope)).toEqual({
+      ok: false,
+      error: "tampered",
+    });
+  });
+});
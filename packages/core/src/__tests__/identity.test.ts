@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+
+import type { HandshakeComplete, HandshakeResponse } from "../protocol";
+import { generateKeyPair, toBase64 } from "../crypto";
+import {
+  checkPeerTrust,
+  deserializeDeviceIdentity,
+  forgetPeer,
+  formatFingerprint,
+  generateDeviceIdentity,
+  parseTrustedPeers,
+  serializeDeviceIdentity,
+  signHandshake,
+  trustPeer,
+  verifyHandshakeSignature,
+} from "../identity";
+import { HandshakeMessageSchema } from "../protocol";
+
+function createHandshake() {
+  const keys = {
+    desktopPublicKey: toBase64(generateKeyPair().publicKey),
+    mobilePublicKey: toBase64(generateKeyPair().publicKey),
+  };
+  const response: HandshakeResponse = {
+    type: "handshake_response",
+    sessionId: "session-1",
+    mobilePublicKey: keys.mobilePublicKey,
+  };
+  const complete: HandshakeComplete = {
+    type: "handshake_complete",
+    sessionId: "session-1",
+    success: true,
+  };
+  return { keys, response, complete };
+}
+
+describe("Device Identity", () => {
+  it("should round trip through storage", () => {
+    const identity = generateDeviceIdentity();
+    const restored = deserializeDeviceIdentity(
+      JSON.parse(JSON.stringify(serializeDeviceIdentity(identity))),
+    );
+
+    expect(restored).toEqual(identity);
+  });
+
+  it("should reject invalid stored identities", () => {
+    const stored = serializeDeviceIdentity(generateDeviceIdentity());
+
+    expect(deserializeDeviceIdentity(null)).toBeNull();
+    expect(deserializeDeviceIdentity({ ...stored, secretKey: "" })).toBeNull();
+    expect(
+      deserializeDeviceIdentity({ ...stored, publicKey: "not base64!" }),
+    ).toBeNull();
+  });
+
+  it("should format fingerprints in groups of four", () => {
+    const identity = generateDeviceIdentity();
+    const fingerprint = formatFingerprint(identity.keyPair.publicKey);
+
+    expect(fingerprint).toMatch(/^([0-9A-F]{4} ){7}[0-9A-F]{4}$/);
+    expect(formatFingerprint(toBase64(identity.keyPair.publicKey))).toBe(
+      fingerprint,
+    );
+    expect(
+      formatFingerprint(generateDeviceIdentity().keyPair.publicKey),
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe("Handshake Signatures", () => {
+  it("should sign and verify handshake messages", () => {
+    const { keys, response, complete } = createHandshake();
+    const mobile = generateDeviceIdentity();
+    const desktop = generateDeviceIdentity();
+
+    const signedResponse = signHandshake(response, keys, mobile);
+    const signedComplete = signHandshake(complete, keys, desktop);
+
+    expect(signedResponse.deviceId).toBe(mobile.deviceId);
+    expect(HandshakeMessageSchema.safeParse(signedResponse).success).toBe(true);
+    expect(verifyHandshakeSignature(signedResponse, keys)).toBe(true);
+    expect(verifyHandshakeSignature(signedComplete, keys)).toBe(true);
+  });
+
+  it("should not verify when the relay swaps an ephemeral key", () => {
+    const { keys, response } = createHandshake();
+    const signed = signHandshake(response, keys, generateDeviceIdentity());
+    const swapped = toBase64(generateKeyPair().publicKey);
+
+    expect(
+      verifyHandshakeSignature(signed, { ...keys, desktopPublicKey: swapped }),
+    ).toBe(false);
+    expect(
+      verifyHandshakeSignature(
+        { ...signed, mobilePublicKey: swapped },
+        { ...keys, mobilePublicKey: swapped },
+      ),
+    ).toBe(false);
+  });
+
+  it("should not verify a modified message", () => {
+    const { keys, complete } = createHandshake();
+    const signed = signHandshake(complete, keys, generateDeviceIdentity());
+
+    expect(verifyHandshakeSignature({ ...signed, success: false }, keys)).toBe(
+      false,
+    );
+    expect(
+      verifyHandshakeSignature({ ...signed, sessionId: "session-2" }, keys),
+    ).toBe(false);
+  });
+
+  it("should not verify changed negotiation fields", () => {
+    const { keys, response, complete } = createHandshake();
+    const signedResponse = signHandshake(
+      { ...response, versions: ["1.0"], capabilities: ["compression"] },
+      keys,
+      generateDeviceIdentity(),
+    );
+    const signedComplete = signHandshake(
+      { ...complete, version: "1.0", capabilities: ["compression"] },
+      keys,
+      generateDeviceIdentity(),
+    );
+
+    expect(verifyHandshakeSignature(signedResponse, keys)).toBe(true);
+    expect(
+      verifyHandshakeSignature({ ...signedResponse, capabilities: [] }, keys),
+    ).toBe(false);
+    expect(
+      verifyHandshakeSignature({ ...signedResponse, versions: ["0.9"] }, keys),
+    ).toBe(false);
+    expect(
+      verifyHandshakeSignature(
+        { ...signedResponse, pairingProof: "AAAA" },
+        keys,
+      ),
+    ).toBe(false);
+    expect(
+      verifyHandshakeSignature(
+        { ...signedComplete, capabilities: ["compression", "padding"] },
+        keys,
+      ),
+    ).toBe(false);
+    expect(
+      verifyHandshakeSignature({ ...signedComplete, version: "0.9" }, keys),
+    ).toBe(false);
+  });
+
+  it("should not verify unsigned messages", () => {
+    const { keys, response } = createHandshake();
+
+    expect(verifyHandshakeSignature(response, keys)).toBe(false);
+  });
+});
+
+describe("Trust on First Use", () => {
+  it("should report a new device, then trust it once pinned", () => {
+    const { keys, response } = createHandshake();
+    const mobile = generateDeviceIdentity();
+    const signed = signHandshake(response, keys, mobile);
+
+    expect(checkPeerTrust({}, signed, keys)).toBe("new");
+
+    const peers = trustPeer(
+      {},
+      {
+        deviceId: mobile.deviceId,
+        role: "mobile",
+        identityKey: toBase64(mobile.keyPair.publicKey),
+        label: "Phone",
+      },
+    );
+    expect(checkPeerTrust(peers, signed, keys)).toBe("trusted");
+  });
+
+  it("should let a paired device reconnect in a new session", () => {
+    const mobile = generateDeviceIdentity();
+    const peers = trustPeer(
+      {},
+      {
+        deviceId: mobile.deviceId,
+        role: "mobile",
+        identityKey: toBase64(mobile.keyPair.publicKey),
+      },
+    );
+
+    // Fresh ephemeral keys; only the identity carries over
+    const { keys, response } = createHandshake();
+    const signed = signHandshake(response, keys, mobile);
+
+    expect(checkPeerTrust(peers, signed, keys)).toBe("trusted");
+  });
+
+  it("should detect a changed identity key", () => {
+    const { keys, response } = createHandshake();
+    const mobile = generateDeviceIdentity();
+    const peers = trustPeer(
+      {},
+      {
+        deviceId: mobile.deviceId,
+        role: "mobile",
+        identityKey: toBase64(mobile.keyPair.publicKey),
+      },
+    );
+
+    const impostor = { ...generateDeviceIdentity(), deviceId: mobile.deviceId };
+    const signed = signHandshake(response, keys, impostor);
+
+    expect(checkPeerTrust(peers, signed, keys)).toBe("changed");
+  });
+
+  it("should distinguish unsigned and forged messages", () => {
+    const { keys, response } = createHandshake();
+    const signed = signHandshake(response, keys, generateDeviceIdentity());
+
+    expect(checkPeerTrust({}, response, keys)).toBe("unsigned");
+    expect(
+      checkPeerTrust(
+        {},
+        { ...signed, signature: toBase64(new Uint8Array(64)) },
+        keys,
+      ),
+    ).toBe("invalid_signature");
+  });
+
+  it("should keep pairedAt and refresh lastSeenAt", () => {
+    const peer = {
+      deviceId: "device-1",
+      role: "mobile" as const,
+      identityKey: toBase64(generateDeviceIdentity().keyPair.publicKey),
+      label: "Phone",
+    };
+    const paired = trustPeer({}, peer, 1000);
+    const seen = trustPeer(paired, { ...peer, label: undefined }, 2000);
+
+    expect(seen["device-1"]).toMatchObject({
+      pairedAt: 1000,
+      lastSeenAt: 2000,
+      label: "Phone",
+    });
+    expect(paired["device-1"]?.lastSeenAt).toBe(1000);
+  });
+
+  it("should forget peers and round trip storage", () => {
+    const peers = trustPeer(
+      {},
+      {
+        deviceId: "device-1",
+        role: "desktop",
+        identityKey: toBase64(generateDeviceIdentity().keyPair.publicKey),
+      },
+      1000,
+    );
+
+    expect(parseTrustedPeers(JSON.parse(JSON.stringify(peers)))).toEqual(peers);
+    expect(forgetPeer(peers, "device-1")).toEqual({});
+    expect(parseTrustedPeers({ x: { deviceId: "x" } })).toBeNull();
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  generateKeyPair,
+  generateSigningKeyPair,
+  serializeKeyPair,
+  toBase64,
+} from "../crypto";
+import {
+  changeKeystoreSecret,
+  createKeystore,
+  deleteKey,
+  exportKeystore,
+  getKey,
+  importKeyPair,
+  keystoreNeedsRekey,
+  lockKeystore,
+  migrateKeystore,
+  parseKeystore,
+  putKey,
+  setPeerFingerprint,
+  unlockKeystore,
+} from "../keystore";
+
+// Cheap scrypt parameters keep the tests fast
+const FAST = { scrypt: { N: 2 ** 10, r: 8, p: 1 } };
+const PASSPHRASE = { passphrase: "correct horse battery staple" };
+
+describe("Keystore", () => {
+  it("should store and read keys back after unlocking", async () => {
+    const identity = generateSigningKeyPair();
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+    putKey(keystore, "identity", {
+      kind: "identity",
+      secretKey: identity.secretKey,
+      publicKey: identity.publicKey,
+      label: "This phone",
+    });
+
+    const exported = exportKeystore(keystore);
+    expect(exported).not.toContain(toBase64(identity.secretKey));
+
+    const result = await unlockKeystore(JSON.parse(exported), PASSPHRASE);
+    if (!result.ok) throw new Error(result.error);
+    expect(getKey(result.keystore, "identity")).toEqual(identity.secretKey);
+    expect(result.keystore.data.entries.identity?.publicKey).toBe(
+      toBase64(identity.publicKey),
+    );
+  });
+
+  it("should unlock with an OS-provided secret", async () => {
+    const osSecret = generateKeyPair().secretKey;
+    const keystore = await createKeystore({ osSecret });
+    putKey(keystore, "session", {
+      kind: "session",
+      secretKey: new Uint8Array(32).fill(5),
+    });
+
+    const result = await unlockKeystore(keystore.data, { osSecret });
+    if (!result.ok) throw new Error(result.error);
+    expect(getKey(result.keystore, "session")).toEqual(
+      new Uint8Array(32).fill(5),
+    );
+  });
+
+  it("should reject a wrong passphrase or secret kind", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+
+    expect(await unlockKeystore(keystore.data, { passphrase: "nope" })).toEqual(
+      { ok: false, error: "wrong_secret" },
+    );
+    expect(
+      await unlockKeystore(keystore.data, {
+        osSecret: new Uint8Array(32),
+      }),
+    ).toEqual({ ok: false, error: "wrong_secret" });
+  });
+
+  it("should reject invalid and newer documents", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+
+    expect(await unlockKeystore({ hello: "world" }, PASSPHRASE)).toEqual({
+      ok: false,
+      error: "invalid",
+    });
+    expect(
+      await unlockKeystore({ ...keystore.data, version: 99 }, PASSPHRASE),
+    ).toEqual({ ok: false, error: "unsupported_version" });
+    expect(
+      await unlockKeystore(
+        { ...keystore.data, kdf: { ...keystore.data.kdf, N: 2 ** 30 } },
+        PASSPHRASE,
+      ),
+    ).toEqual({ ok: false, error: "invalid" });
+    expect(
+      await unlockKeystore(
+        {
+          ...keystore.data,
+          kdf: { ...keystore.data.kdf, salt: "not base64!" },
+        },
+        PASSPHRASE,
+      ),
+    ).toEqual({ ok: false, error: "invalid" });
+  });
+
+  it("should bound scrypt memory and work together", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+    const withCost = (N: number, r: number, p: number) =>
+      unlockKeystore(
+        { ...keystore.data, kdf: { ...keystore.data.kdf, N, r, p } },
+        PASSPHRASE,
+      );
+
+    // 128 × 2^20 × 32 bytes = 4 GiB
+    expect(await withCost(2 ** 20, 32, 1)).toEqual({
+      ok: false,
+      error: "invalid",
+    });
+    // 256 MiB of memory, 16 times over
+    expect(await withCost(2 ** 18, 8, 16)).toEqual({
+      ok: false,
+      error: "invalid",
+    });
+    await expect(
+      createKeystore(PASSPHRASE, { scrypt: { N: 2 ** 20, r: 32, p: 1 } }),
+    ).rejects.toThrow();
+  });
+
+  it("should detect changed metadata", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+    putKey(keystore, "identity", {
+      kind: "identity",
+      secretKey: new Uint8Array(64),
+      publicKey: new Uint8Array(32),
+    });
+    setPeerFingerprint(keystore, "desktop-1", "AAAA BBBB");
+    const { data } = keystore;
+    const entry = data.entries.identity;
+    if (!entry) throw new Error("missing entry");
+
+    expect((await unlockKeystore(data, PASSPHRASE)).ok).toBe(true);
+    for (const tampered of [
+      { ...data, peerFingerprints: { "desktop-1": "EVIL EVIL" } },
+      { ...data, entries: { identity: { ...entry, kind: "session" } } },
+      {
+        ...data,
+        entries: {
+          identity: {
+            ...entry,
+            publicKey: toBase64(new Uint8Array(32).fill(1)),
+          },
+        },
+      },
+    ]) {
+      expect(await unlockKeystore(tampered, PASSPHRASE)).toEqual({
+        ok: false,
+        error: "tampered",
+      });
+    }
+  });
+
+  it("should not decrypt an entry moved to another name", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+    putKey(keystore, "a", { kind: "session", secretKey: new Uint8Array(32) });
+    const entry = keystore.data.entries.a;
+    if (!entry) throw new Error("missing entry");
+    keystore.data.entries.b = entry;
+
+    expect(getKey(keystore, "a")).not.toBeNull();
+    expect(getKey(keystore, "b")).toBeNull();
+  });
+
+  it("should delete keys and track peer fingerprints", async () => {
+    const keystore = await createKeystore(PASSPHRASE, {
+      ...FAST,
+      now: 1000,
+    });
+    putKey(
+      keystore,
+      "a",
+      { kind: "session", secretKey: new Uint8Array(32) },
+      2000,
+    );
+    setPeerFingerprint(keystore, "desktop-1", "AAAA BBBB", 3000);
+    setPeerFingerprint(keystore, "desktop-2", "CCCC DDDD", 3000);
+    setPeerFingerprint(keystore, "desktop-2", null, 4000);
+    deleteKey(keystore, "a", 5000);
+
+    expect(getKey(keystore, "a")).toBeNull();
+    expect(keystore.data.peerFingerprints).toEqual({
+      "desktop-1": "AAAA BBBB",
+    });
+    expect(keystore.data.createdAt).toBe(1000);
+    expect(keystore.data.updatedAt).toBe(5000);
+  });
+
+  it("should show metadata without unlocking", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+    setPeerFingerprint(keystore, "desktop-1", "AAAA BBBB");
+    lockKeystore(keystore);
+
+    expect(keystore.key.every((byte) => byte === 0)).toBe(true);
+    expect(parseKeystore(exportKeystore(keystore))?.peerFingerprints).toEqual({
+      "desktop-1": "AAAA BBBB",
+    });
+    expect(parseKeystore("not json")).toBeNull();
+  });
+});
+
+describe("Keystore Migration", () => {
+  it("should wrap plaintext key pairs from before keystores", async () => {
+    const identity = generateSigningKeyPair();
+    const legacy = { identity: serializeKeyPair(identity) };
+
+    const result = await migrateKeystore(legacy, PASSPHRASE, FAST);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.migrated).toBe(true);
+    expect(getKey(result.keystore, "identity")).toEqual(identity.secretKey);
+    expect(exportKeystore(result.keystore)).not.toContain(
+      toBase64(identity.secretKey),
+    );
+  });
+
+  it("should pass current documents through unchanged", async () => {
+    const keystore = await createKeystore(PASSPHRASE, FAST);
+
+    const result = await migrateKeystore(keystore.data, PASSPHRASE);
+    expect(result).toMatchObject({ ok: true, migrated: false });
+  });
+
+  it("should reject corrupt legacy key pairs", async () => {
+    const legacy = {
+      identity: { publicKey: "AAAA", secretKey: "not base64!" },
+    };
+
+    expect(await migrateKeystore(legacy, PASSPHRASE, FAST)).toEqual({
+      ok: false,
+      error: "invalid",
+    });
+  });
+
+  it("should re-wrap keys under a new secret", async () => {
+    const secretKey = generateKeyPair().secretKey;
+    const keystore = await createKeystore(PASSPHRASE, {
+      scrypt: { N: 2 ** 4, r: 8, p: 1 },
+    });
+    importKeyPair(keystore, "session", "session", {
+      publicKey: toBase64(new Uint8Array(32)),
+      secretKey: toBase64(secretKey),
+    });
+    expect(keystoreNeedsRekey(keystore.data)).toBe(true);
+
+    const osSecret = generateKeyPair().secretKey;
+    const next = await changeKeystoreSecret(keystore, { osSecret });
+
+    expect(keystoreNeedsRekey(next.data)).toBe(false);
+    expect(next.data.createdAt).toBe(keystore.data.createdAt);
+    expect(getKey(next, "session")).toEqual(secretKey);
+    expect(await unlockKeystore(next.data, PASSPHRASE)).toEqual({
+      ok: false,
+      error: "wrong_secret",
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+
+import { decryptString, encryptString, toBase64 } from "../crypto";
+import {
+  finishPake,
+  formatPairingCode,
+  generatePairingCode,
+  PAIRING_CODE_WORD_COUNT,
+  PAIRING_WORDS,
+  PairingMessageSchema,
+  parsePairingCode,
+  startPake,
+  verifyPakeConfirm,
+} from "../pairing";
+import { decodeRelayPayload, encodeRelayPayload } from "../relay";
+
+function pair(desktopCode: string, mobileCode: string, sessionId = "s1") {
+  const desktop = startPake(desktopCode, sessionId, "desktop");
+  const mobile = startPake(mobileCode, sessionId, "mobile");
+  if (!desktop || !mobile) throw new Error("invalid code");
+
+  const desktopResult = finishPake(desktop.state, mobile.message);
+  const mobileResult = finishPake(mobile.state, desktop.message);
+  if (!desktopResult || !mobileResult) throw new Error("PAKE failed");
+
+  return { desktop, mobile, desktopResult, mobileResult };
+}
+
+describe("Pairing Codes", () => {
+  it("should have one word per byte value", () => {
+    expect(PAIRING_WORDS).toHaveLength(256);
+    expect(new Set(PAIRING_WORDS).size).toBe(256);
+  });
+
+  it("should generate codes of the form nameplate-word-word", () => {
+    const code = generatePairingCode("7");
+    const parsed = parsePairingCode(code);
+
+    expect(parsed?.nameplate).toBe("7");
+    expect(parsed?.words).toHaveLength(PAIRING_CODE_WORD_COUNT);
+  });
+
+  it("should forgive case, whitespace and separators", () => {
+    expect(parsePairingCode("  7 Purple_SAUSAGE \n")).toEqual({
+      nameplate: "7",
+      words: ["purple", "sausage"],
+    });
+  });
+
+  it("should reject malformed codes", () => {
+    expect(parsePairingCode("")).toBeNull();
+    expect(parsePairingCode("purple-sausage")).toBeNull();
+    expect(parsePairingCode("07-purple-sausage")).toBeNull();
+    expect(parsePairingCode("7-purple")).toBeNull();
+    expect(parsePairingCode("7-purple-notaword")).toBeNull();
+  });
+
+  it("should format codes canonically", () => {
+    expect(
+      formatPairingCode({ nameplate: "12", words: ["acid", "zebra"] }),
+    ).toBe("12-acid-zebra");
+  });
+});
+
+describe("PAKE", () => {
+  it("should derive the same key on both sides for the same code", () => {
+    const { desktopResult, mobileResult } = pair(
+      "7-purple-sausage",
+      "7 Purple Sausage",
+    );
+
+    expect(desktopResult.sharedKey).toEqual(mobileResult.sharedKey);
+    expect(desktopResult.sharedKey.length).toBe(32);
+    expect(verifyPakeConfirm(desktopResult, mobileResult.confirm)).toBe(true);
+    expect(verifyPakeConfirm(mobileResult, desktopResult.confirm)).toBe(true);
+  });
+
+  it("should produce a key usable for encryption", () => {
+    const { desktopResult, mobileResult } = pair(
+      "7-purple-sausage",
+      "7-purple-sausage",
+    );
+    const encrypted = encryptString("hello", desktopResult.sharedKey);
+
+    expect(
+      decryptString(
+        encrypted.ciphertext,
+        encrypted.nonce,
+        mobileResult.sharedKey,
+      ),
+    ).toBe("hello");
+  });
+
+  it("should fail key confirmation when the codes differ", () => {
+    const { desktopResult, mobileResult } = pair(
+      "7-purple-sausage",
+      "7-purple-salmon",
+    );
+
+    expect(desktopResult.sharedKey).not.toEqual(mobileResult.sharedKey);
+    expect(verifyPakeConfirm(desktopResult, mobileResult.confirm)).toBe(false);
+    expect(verifyPakeConfirm(mobileResult, desktopResult.confirm)).toBe(false);
+  });
+
+  it("should fail key confirmation when the sessions differ", () => {
+    const desktop = startPake("7-purple-sausage", "s1", "desktop");
+    const mobile = startPake("7-purple-sausage", "s2", "mobile");
+    if (!desktop || !mobile) throw new Error("invalid code");
+
+    // Relabelling the element does not help: it was built for session s2
+    const desktopResult = finishPake(desktop.state, {
+      ...mobile.message,
+      sessionId: "s1",
+    });
+    const mobileResult = finishPake(mobile.state, {
+      ...desktop.message,
+      sessionId: "s2",
+    });
+    if (!desktopResult || !mobileResult) throw new Error("PAKE failed");
+
+    expect(verifyPakeConfirm(desktopResult, mobileResult.confirm)).toBe(false);
+  });
+
+  it("should reject a message for another session", () => {
+    const desktop = startPake("7-purple-sausage", "s1", "desktop");
+    const mobile = startPake("7-purple-sausage", "s2", "mobile");
+    if (!desktop || !mobile) throw new Error("invalid code");
+
+    expect(finishPake(desktop.state, mobile.message)).toBeNull();
+  });
+
+  it("should not reveal the generator through the elements", () => {
+    const a = startPake("7-purple-sausage", "s1", "desktop");
+    const b = startPake("7-purple-sausage", "s1", "desktop");
+
+    expect(a?.message.element).not.toBe(b?.message.element);
+  });
+
+  it("should return null for an invalid code", () => {
+    expect(startPake("purple-sausage", "s1", "desktop")).toBeNull();
+  });
+
+  it("should reject a message from its own role", () => {
+    const desktop = startPake("7-purple-sausage", "s1", "desktop");
+    if (!desktop) throw new Error("invalid code");
+
+    expect(finishPake(desktop.state, desktop.message)).toBeNull();
+  });
+
+  it("should reject low-order elements", () => {
+    const desktop = startPake("7-purple-sausage", "s1", "desktop");
+    if (!desktop) throw new Error("invalid code");
+
+    const zero = new Uint8Array(32);
+    const one = new Uint8Array(32);
+    one[0] = 1;
+
+    for (const element of [zero, one]) {
+      expect(
+        finishPake(desktop.state, {
+          type: "pake",
+          sessionId: "s1",
+          role: "mobile",
+          element: toBase64(element),
+        }),
+      ).toBeNull();
+    }
+  });
+
+  it("should reject elements of the wrong length", () => {
+    const desktop = startPake("7-purple-sausage", "s1", "desktop");
+    if (!desktop) throw new Error("invalid code");
+
+    expect(
+      finishPake(desktop.state, {
+        type: "pake",
+        sessionId: "s1",
+        role: "mobile",
+        element: toBase64(new Uint8Array(16).fill(9)),
+      }),
+    ).toBeNull();
+  });
+
+  it("should reject a tampered confirmation", () => {
+    const { desktopResult, mobileResult } = pair(
+      "7-purple-sausage",
+      "7-purple-sausage",
+    );
+
+    expect(
+      verifyPakeConfirm(desktopResult, {
+        ...mobileResult.confirm,
+        mac: toBase64(new Uint8Array(32)),
+      }),
+    ).toBe(false);
+    expect(
+      verifyPakeConfirm(desktopResult, { ...mobileResult.confirm, mac: "%%" }),
+    ).toBe(false);
+  });
+});
+
+describe("Pairing Messages", () => {
+  it("should travel as relay payloads", () => {
+    const { mobile, mobileResult } = pair(
+      "7-purple-sausage",
+      "7-purple-sausage",
+    );
+
+    for (const message of [mobile.message, mobileResult.confirm]) {
+      expect(PairingMessageSchema.safeParse(message).success).toBe(true);
+      expect(decodeRelayPayload(encodeRelayPayload(message))).toEqual(message);
+    }
+  });
+});
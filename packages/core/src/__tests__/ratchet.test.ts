@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+
+import type { RatchetMessage, RatchetState } from "../ratchet";
+import {
+  bytesToString,
+  deriveSharedSecret,
+  generateKeyPair,
+  stringToBytes,
+} from "../crypto";
+import { EncryptedEnvelopeSchema } from "../protocol";
+import {
+  createRatchet,
+  destroyRatchet,
+  isRekeyDue,
+  RATCHET_MAX_SKIP,
+  RATCHET_REKEY_INTERVAL,
+  ratchetDecrypt,
+  ratchetDecryptEnvelope,
+  ratchetEncrypt,
+  ratchetEncryptEnvelope,
+} from "../ratchet";
+
+function randomSecret(): Uint8Array {
+  return deriveSharedSecret(
+    generateKeyPair().secretKey,
+    generateKeyPair().publicKey,
+  );
+}
+
+function createPair() {
+  const sharedSecret = randomSecret();
+  return {
+    desktop: createRatchet("desktop", sharedSecret),
+    mobile: createRatchet("mobile", sharedSecret),
+  };
+}
+
+function send(state: RatchetState, text: string): RatchetMessage {
+  return ratchetEncrypt(state, stringToBytes(text));
+}
+
+function receive(state: RatchetState, message: RatchetMessage) {
+  const plaintext = ratchetDecrypt(state, message);
+  return plaintext ? bytesToString(plaintext) : null;
+}
+
+function snapshot(state: RatchetState): RatchetState {
+  return {
+    ...state,
+    rootKey: state.rootKey.slice(),
+    dhKeyPair: {
+      publicKey: state.dhKeyPair.publicKey.slice(),
+      secretKey: state.dhKeyPair.secretKey.slice(),
+    },
+    remotePublicKey: state.remotePublicKey?.slice() ?? null,
+    sendChain: { ...state.sendChain, key: state.sendChain.key.slice() },
+    receiveChain: state.receiveChain
+      ? { ...state.receiveChain, key: state.receiveChain.key.slice() }
+      : null,
+    skippedKeys: new Map(
+      Array.from(state.skippedKeys, ([id, key]) => [id, key.slice()]),
+    ),
+  };
+}
+
+describe("Ratchet", () => {
+  it("should let the desktop send before the mobile has spoken", () => {
+    const { desktop, mobile } = createPair();
+
+    expect(receive(mobile, send(desktop, "first"))).toBe("first");
+    expect(receive(mobile, send(desktop, "second"))).toBe("second");
+  });
+
+  it("should exchange messages in both directions", () => {
+    const { desktop, mobile } = createPair();
+
+    expect(receive(desktop, send(mobile, "hello"))).toBe("hello");
+    expect(receive(mobile, send(desktop, "hi"))).toBe("hi");
+    expect(receive(desktop, send(mobile, "how are you"))).toBe("how are you");
+  });
+
+  it("should use a new key for every message", () => {
+    const { desktop } = createPair();
+    const a = send(desktop, "same");
+    const b = send(desktop, "same");
+
+    expect(a.header.n).toBe(0);
+    expect(b.header.n).toBe(1);
+    expect(a.ciphertext).not.toEqual(b.ciphertext);
+  });
+
+  it("should take a DH ratchet step when the direction changes", () => {
+    const { desktop, mobile } = createPair();
+
+    const first = send(desktop, "one");
+    receive(mobile, first);
+    const reply = send(mobile, "two");
+    receive(desktop, reply);
+    const next = send(desktop, "three");
+
+    expect(next.header.dh).not.toBe(first.header.dh);
+    expect(next.header.n).toBe(0);
+    expect(next.header.pn).toBe(1);
+    expect(receive(mobile, next)).toBe("three");
+  });
+
+  it("should decrypt messages delivered out of order", () => {
+    const { desktop, mobile } = createPair();
+
+    const m0 = send(mobile, "m0");
+    const m1 = send(mobile, "m1");
+    const m2 = send(mobile, "m2");
+
+    expect(receive(desktop, m2)).toBe("m2");
+    expect(receive(desktop, m0)).toBe("m0");
+
+    // A late message from a chain that has since been replaced
+    const d0 = send(desktop, "d0");
+    expect(receive(mobile, d0)).toBe("d0");
+    const m3 = send(mobile, "m3");
+    expect(receive(desktop, m3)).toBe("m3");
+    expect(receive(desktop, m1)).toBe("m1");
+  });
+
+  it("should reject a replayed message", () => {
+    const { desktop, mobile } = createPair();
+    const message = send(mobile, "once");
+
+    expect(receive(desktop, message)).toBe("once");
+    expect(receive(desktop, message)).toBeNull();
+  });
+
+  it("should reject a message too far ahead", () => {
+    const { desktop, mobile } = createPair();
+    const message = send(mobile, "far");
+
+    expect(
+      receive(desktop, {
+        ...message,
+        header: { ...message.header, n: RATCHET_MAX_SKIP + 1 },
+      }),
+    ).toBeNull();
+  });
+
+  it("should leave the state untouched after a forged message", () => {
+    const { desktop, mobile } = createPair();
+    const message = send(mobile, "genuine");
+
+    // A forged header would otherwise start a DH step
+    const forged: RatchetMessage = {
+      ...message,
+      header: {
+        ...message.header,
+        dh: ratchetEncrypt(
+          createRatchet("mobile", randomSecret()),
+          new Uint8Array(0),
+        ).header.dh,
+      },
+    };
+    expect(receive(desktop, forged)).toBeNull();
+
+    const tampered = message.ciphertext.slice();
+    tampered[0] = (tampered[0] ?? 0) ^ 1;
+    expect(receive(desktop, { ...message, ciphertext: tampered })).toBeNull();
+
+    expect(receive(desktop, message)).toBe("genuine");
+  });
+
+  it("should authenticate the associated data", () => {
+    const { desktop, mobile } = createPair();
+    const message = ratchetEncrypt(
+      mobile,
+      stringToBytes("bound"),
+      stringToBytes("seq=1"),
+    );
+
+    expect(ratchetDecrypt(desktop, message, stringToBytes("seq=2"))).toBeNull();
+    expect(
+      ratchetDecrypt(desktop, message, stringToBytes("seq=1")),
+    ).not.toBeNull();
+  });
+
+  it("should not decrypt a message with a different session's ratchet", () => {
+    const { mobile } = createPair();
+    const other = createRatchet("desktop", randomSecret());
+
+    expect(receive(other, send(mobile, "private"))).toBeNull();
+  });
+
+  it("should ask for a reply after many one-way messages", () => {
+    const { desktop, mobile } = createPair();
+
+    for (let i = 0; i < RATCHET_REKEY_INTERVAL; i++) {
+      receive(mobile, send(desktop, `event ${i}`));
+    }
+    expect(isRekeyDue(mobile)).toBe(true);
+
+    receive(desktop, send(mobile, ""));
+    expect(isRekeyDue(mobile)).toBe(false);
+  });
+});
+
+describe("Ratchet Forward Secrecy", () => {
+  it("should not decrypt earlier messages with a later chain state", () => {
+    const { desktop, mobile } = createPair();
+    const old = send(desktop, "old");
+    const before = snapshot(mobile);
+
+    expect(receive(mobile, old)).toBe("old");
+
+    // The advanced state has wiped the key for message 0
+    expect(receive(snapshot(mobile), old)).toBeNull();
+    // The state from before delivery still could
+    expect(receive(before, old)).toBe("old");
+  });
+
+  it("should not decrypt earlier messages after a DH ratchet step", () => {
+    const { desktop, mobile } = createPair();
+    const history: RatchetMessage[] = [];
+
+    for (let round = 0; round < 3; round++) {
+      const fromDesktop = send(desktop, `desktop ${round}`);
+      history.push(fromDesktop);
+      receive(mobile, fromDesktop);
+      receive(desktop, send(mobile, `mobile ${round}`));
+    }
+
+    // Even with both sides' current state, past traffic stays sealed
+    const leakedMobile = snapshot(mobile);
+    const leakedDesktop = snapshot(desktop);
+    for (const message of history) {
+      expect(receive(leakedMobile, message)).toBeNull();
+      expect(receive(leakedDesktop, message)).toBeNull();
+    }
+  });
+
+  it("should wipe key material when destroyed", () => {
+    const { mobile } = createPair();
+    destroyRatchet(mobile);
+
+    expect(mobile.rootKey.every((byte) => byte === 0)).toBe(true);
+    expect(mobile.sendChain.key.every((byte) => byte === 0)).toBe(true);
+    expect(mobile.dhKeyPair.secretKey.every((byte) => byte === 0)).toBe(true);
+  });
+});
+
+describe("Ratchet Envelopes", () => {
+  it("should round trip through an encrypted envelope", () => {
+    const { desktop, mobile } = createPair();
+    const envelope = ratchetEncryptEnvelope(mobile, "session-1", "payload");
+
+    expect(EncryptedEnvelopeSchema.safeParse(envelope).success).toBe(true);
+    expect(envelope.sender).toBe("mobile");
+    expect(envelope.ratchet?.n).toBe(0);
+    expect(ratchetDecryptEnvelope(desktop, envelope)).toBe("payload");
+  });
+
+  it("should bind the session id and sender", () => {
+    const { desktop, mobile } = createPair();
+    const envelope = ratchetEncryptEnvelope(mobile, "session-1", "payload");
+
+    expect(
+      ratchetDecryptEnvelope(desktop, { ...envelope, sessionId: "session-2" }),
+    ).toBeNull();
+    expect(ratchetDecryptEnvelope(mobile, envelope)).toBeNull();
+    expect(ratchetDecryptEnvelope(desktop, envelope)).toBe("payload");
+  });
+
+  it("should ignore envelopes without a ratchet header", () => {
+    const { desktop, mobile } = createPair();
+    const envelope = ratchetEncryptEnvelope(mobile, "session-1", "payload");
+    delete envelope.ratchet;
+
+    expect(ratchetDecryptEnvelope(desktop, envelope)).toBeNull();
+  });
+});
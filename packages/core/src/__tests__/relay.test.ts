@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest";
+
+import { createEncryptedEnvelope } from "../protocol";
+import {
+  ClientFrameSchema,
+  createRelayFailover,
+  decodeClientFrame,
+  decodeRelayFrame,
+  decodeRelayPayload,
+  encodeFrame,
+  encodeRelayPayload,
+  followRelayRedirect,
+  getFrameVersion,
+  recordRelayFailure,
+  recordRelaySuccess,
+  RELAY_PROTOCOL_VERSION,
+  RELAY_RETRY_BASE_DELAY_MS,
+  RELAY_RETRY_MAX_DELAY_MS,
+  RelayFrameSchema,
+} from "../relay";
+
+describe("Relay Frames", () => {
+  const token = "0123456789abcdef0123456789abcdef";
+
+  describe("ClientFrameSchema", () => {
+    it("should validate a join frame", () => {
+      const result = ClientFrameSchema.safeParse({
+        v: 1,
+        type: "join",
+        sessionId: "session123",
+        role: "mobile",
+        token,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate a resuming join frame", () => {
+      const result = ClientFrameSchema.safeParse({
+        v: 1,
+        type: "join",
+        sessionId: "session123",
+        role: "desktop",
+        token,
+        resume: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a join frame with a short token", () => {
+      const result = ClientFrameSchema.safeParse({
+        v: 1,
+        type: "join",
+        sessionId: "session123",
+        role: "mobile",
+        token: "short",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a message frame without payload", () => {
+      const result = ClientFrameSchema.safeParse({
+        v: 1,
+        type: "message",
+        sessionId: "session123",
+        role: "desktop",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an unknown framing version", () => {
+      const result = ClientFrameSchema.safeParse({ v: 2, type: "ping" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject snake_case legacy frames", () => {
+      const result = ClientFrameSchema.safeParse({
+        v: 1,
+        type: "join",
+        session_id: "session123",
+        role: "desktop",
+        token,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("RelayFrameSchema", () => {
+    it("should validate ack frames", () => {
+      const result = RelayFrameSchema.safeParse({
+        v: 1,
+        type: "ack",
+        id: "m1",
+        status: "queued",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate error frames with a code", () => {
+      const result = RelayFrameSchema.safeParse({
+        v: 1,
+        type: "error",
+        code: "rate_limited",
+        message: "Rate limit exceeded: messages",
+        retryAfterMs: 200,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate slow_down errors for a rejected message", () => {
+      const result = RelayFrameSchema.safeParse({
+        v: 1,
+        type: "error",
+        code: "slow_down",
+        message: "Peer is not keeping up",
+        id: "m1",
+        retryAfterMs: 250,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject error frames with an unknown code", () => {
+      const result = RelayFrameSchema.safeParse({
+        v: 1,
+        type: "error",
+        code: "something_else",
+        message: "Nope",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("encodeFrame / decode", () => {
+    it("should stamp the framing version", () => {
+      const encoded = encodeFrame({ type: "ping" });
+      expect(getFrameVersion(encoded)).toBe(RELAY_PROTOCOL_VERSION);
+    });
+
+    it("should round-trip client frames", () => {
+      const encoded = encodeFrame({
+        type: "message",
+        sessionId: "session123",
+        role: "desktop",
+        id: "m1",
+        payload: "opaque",
+      });
+      const decoded = decodeClientFrame(encoded);
+
+      expect(decoded).toEqual({
+        v: RELAY_PROTOCOL_VERSION,
+        type: "message",
+        sessionId: "session123",
+        role: "desktop",
+        id: "m1",
+        payload: "opaque",
+      });
+    });
+
+    it("should round-trip relay frames", () => {
+      const encoded = encodeFrame({ type: "message", payload: "opaque" });
+      const decoded = decodeRelayFrame(encoded);
+
+      expect(decoded?.type).toBe("message");
+    });
+
+    it("should return null for invalid JSON", () => {
+      expect(decodeClientFrame("not json")).toBeNull();
+      expect(decodeRelayFrame("{")).toBeNull();
+      expect(getFrameVersion("not json")).toBeNull();
+    });
+
+    it("should round-trip pairing control frames", () => {
+      expect(
+        decodeClientFrame(encodeFrame({ type: "consume_pairing" }))?.type,
+      ).toBe("consume_pairing");
+      expect(
+        decodeRelayFrame(encodeFrame({ type: "pairing_consumed" }))?.type,
+      ).toBe("pairing_consumed");
+      expect(
+        decodeClientFrame(encodeFrame({ type: "reject_peer" }))?.type,
+      ).toBe("reject_peer");
+    });
+
+    it("should round-trip redirect frames", () => {
+      const frame = decodeRelayFrame(
+        encodeFrame({ type: "redirect", relayUrl: "https://b.example.com" }),
+      );
+
+      expect(frame).toMatchObject({ relayUrl: "https://b.example.com" });
+      expect(
+        decodeRelayFrame(encodeFrame({ type: "redirect", relayUrl: "nope" })),
+      ).toBeNull();
+    });
+
+    it("should not accept relay frames as client frames", () => {
+      expect(decodeClientFrame(encodeFrame({ type: "joined" }))).toBeNull();
+    });
+  });
+
+  describe("Relay payloads", () => {
+    it("should round-trip an encrypted envelope", () => {
+      const envelope = createEncryptedEnvelope(
+        "session123",
+        "desktop",
+        "ciphertext==",
+        "nonce==",
+      );
+      const decoded = decodeRelayPayload(encodeRelayPayload(envelope));
+
+      expect(decoded).toEqual(envelope);
+    });
+
+    it("should round-trip a handshake message", () => {
+      const decoded = decodeRelayPayload(
+        encodeRelayPayload({
+          type: "handshake_response",
+          sessionId: "session123",
+          mobilePublicKey: "key==",
+        }),
+      );
+
+      expect(decoded).toEqual({
+        type: "handshake_response",
+        sessionId: "session123",
+        mobilePublicKey: "key==",
+      });
+    });
+
+    it("should reject arbitrary payloads", () => {
+      expect(decodeRelayPayload(JSON.stringify({ foo: "bar" }))).toBeNull();
+    });
+  });
+});
+
+describe("Relay Failover", () => {
+  const relays = ["https://a.example.com", "https://b.example.com"];
+
+  it("should walk the list before backing off", () => {
+    const failover = createRelayFailover(relays);
+
+    expect(failover.relay).toBe("https://a.example.com");
+    expect(recordRelayFailure(failover)).toBe(0);
+    expect(failover.relay).toBe("https://b.example.com");
+    expect(recordRelayFailure(failover)).toBe(RELAY_RETRY_BASE_DELAY_MS);
+    expect(failover.relay).toBe("https://a.example.com");
+    expect(recordRelayFailure(failover)).toBe(RELAY_RETRY_BASE_DELAY_MS);
+    expect(recordRelayFailure(failover)).toBe(RELAY_RETRY_BASE_DELAY_MS * 2);
+  });
+
+  it("should cap the backoff", () => {
+    const failover = createRelayFailover(relays.slice(0, 1));
+    for (let i = 0; i < 20; i++) recordRelayFailure(failover);
+
+    expect(recordRelayFailure(failover)).toBe(RELAY_RETRY_MAX_DELAY_MS);
+    expect(failover.relay).toBe("https://a.example.com");
+  });
+
+  it("should stay on the relay that worked", () => {
+    const failover = createRelayFailover(relays);
+    recordRelayFailure(failover);
+    recordRelaySuccess(failover);
+
+    expect(failover.relay).toBe("https://b.example.com");
+    expect(recordRelayFailure(failover)).toBe(0);
+  });
+
+  it("should only follow redirects to known relays", () => {
+    const failover = createRelayFailover(relays);
+
+    expect(followRelayRedirect(failover, "https://evil.example.com")).toBe(
+      false,
+    );
+    expect(failover.relay).toBe("https://a.example.com");
+    expect(followRelayRedirect(failover, "https://b.example.com")).toBe(true);
+    expect(failover.relay).toBe("https://b.example.com");
+  });
+
+  it("should require a relay", () => {
+    expect(() => createRelayFailover([])).toThrow();
+  });
+});
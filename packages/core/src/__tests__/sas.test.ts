@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+
+import type { SasInput } from "../sas";
+import { generateKeyPair } from "../crypto";
+import {
+  HandshakeCompleteSchema,
+  HandshakeConfirmSchema,
+  HandshakeMessageSchema,
+  HandshakeNonceSchema,
+  HandshakeResponseSchema,
+} from "../protocol";
+import {
+  createSasCommitment,
+  deriveSas,
+  generateSasNonce,
+  SAS_DIGITS,
+  SAS_EMOJI,
+  SAS_EMOJI_COUNT,
+  sasToDigits,
+  sasToEmoji,
+  verifySasCommitment,
+} from "../sas";
+
+function createInput(): SasInput {
+  return {
+    sessionId: "session123",
+    desktopPublicKey: generateKeyPair().publicKey,
+    mobilePublicKey: generateKeyPair().publicKey,
+    desktopNonce: generateSasNonce(),
+    mobileNonce: generateSasNonce(),
+  };
+}
+
+describe("SAS Derivation", () => {
+  it("should be deterministic for the same input", () => {
+    const input = createInput();
+
+    expect(deriveSas(input)).toEqual(deriveSas({ ...input }));
+  });
+
+  it("should change when any input changes", () => {
+    const input = createInput();
+    const sas = deriveSas(input);
+
+    expect(deriveSas({ ...input, sessionId: "session124" })).not.toEqual(sas);
+    expect(
+      deriveSas({ ...input, mobilePublicKey: generateKeyPair().publicKey }),
+    ).not.toEqual(sas);
+    expect(
+      deriveSas({ ...input, desktopPublicKey: generateKeyPair().publicKey }),
+    ).not.toEqual(sas);
+    expect(
+      deriveSas({ ...input, desktopNonce: generateSasNonce() }),
+    ).not.toEqual(sas);
+    expect(
+      deriveSas({ ...input, mobileNonce: generateSasNonce() }),
+    ).not.toEqual(sas);
+  });
+
+  it("should not be symmetric in the two keys", () => {
+    const input = createInput();
+
+    expect(
+      deriveSas({
+        ...input,
+        desktopPublicKey: input.mobilePublicKey,
+        mobilePublicKey: input.desktopPublicKey,
+      }),
+    ).not.toEqual(deriveSas(input));
+  });
+
+  it("should reject nonces of the wrong length", () => {
+    expect(() =>
+      deriveSas({ ...createInput(), mobileNonce: new Uint8Array(8) }),
+    ).toThrow();
+  });
+});
+
+describe("SAS Rendering", () => {
+  it("should render a fixed-length numeric code", () => {
+    const digits = sasToDigits(deriveSas(createInput()));
+
+    expect(digits).toMatch(new RegExp(`^[0-9]{${SAS_DIGITS}}$`));
+  });
+
+  it("should zero-pad small values", () => {
+    expect(sasToDigits(new Uint8Array(8))).toBe("000000");
+  });
+
+  it("should render emoji from the table", () => {
+    const emoji = sasToEmoji(deriveSas(createInput()));
+
+    expect(emoji).toHaveLength(SAS_EMOJI_COUNT);
+    for (const entry of emoji) {
+      expect(SAS_EMOJI).toContain(entry);
+    }
+  });
+
+  it("should map 6-bit groups to emoji", () => {
+    // 000000 000001 000010 000011 000100 ...
+    const sas = new Uint8Array([0x00, 0x10, 0x83, 0x10, 0x00, 0, 0, 0]);
+
+    expect(sasToEmoji(sas).map((entry) => entry.name)).toEqual([
+      "Dog",
+      "Cat",
+      "Lion",
+      "Horse",
+      "Unicorn",
+    ]);
+  });
+
+  it("should have 64 distinct emoji", () => {
+    expect(SAS_EMOJI).toHaveLength(64);
+    expect(new Set(SAS_EMOJI.map((entry) => entry.emoji)).size).toBe(64);
+  });
+});
+
+describe("SAS Commitment", () => {
+  it("should verify the committed nonce", () => {
+    const { sessionId, mobilePublicKey, mobileNonce } = createInput();
+    const commitment = createSasCommitment(
+      sessionId,
+      mobilePublicKey,
+      mobileNonce,
+    );
+
+    expect(
+      verifySasCommitment(commitment, sessionId, mobilePublicKey, mobileNonce),
+    ).toBe(true);
+  });
+
+  it("should reject a different nonce or key", () => {
+    const { sessionId, mobilePublicKey, mobileNonce } = createInput();
+    const commitment = createSasCommitment(
+      sessionId,
+      mobilePublicKey,
+      mobileNonce,
+    );
+
+    expect(
+      verifySasCommitment(
+        commitment,
+        sessionId,
+        mobilePublicKey,
+        generateSasNonce(),
+      ),
+    ).toBe(false);
+    expect(
+      verifySasCommitment(
+        commitment,
+        sessionId,
+        generateKeyPair().publicKey,
+        mobileNonce,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("SAS Handshake Messages", () => {
+  it("should accept a response with a commitment", () => {
+    const result = HandshakeResponseSchema.safeParse({
+      type: "handshake_response",
+      sessionId: "abc123",
+      mobilePublicKey: "key==",
+      commitment: "commitment==",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should parse nonce and confirm messages in the handshake union", () => {
+    const nonce = {
+      type: "handshake_nonce",
+      sessionId: "abc123",
+      role: "desktop",
+      nonce: "nonce==",
+    };
+    const confirm = {
+      type: "handshake_confirm",
+      sessionId: "abc123",
+      role: "mobile",
+      confirmed: false,
+    };
+
+    expect(HandshakeNonceSchema.safeParse(nonce).success).toBe(true);
+    expect(HandshakeConfirmSchema.safeParse(confirm).success).toBe(true);
+    expect(HandshakeMessageSchema.safeParse(nonce).success).toBe(true);
+    expect(HandshakeMessageSchema.safeParse(confirm).success).toBe(true);
+  });
+
+  it("should carry a reason on failed completion", () => {
+    const result = HandshakeCompleteSchema.safeParse({
+      type: "handshake_complete",
+      sessionId: "abc123",
+      success: false,
+      reason: "sas_mismatch",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject unknown failure reasons", () => {
+    const result = HandshakeCompleteSchema.safeParse({
+      type: "handshake_complete",
+      sessionId: "abc123",
+      success: false,
+      reason: "bored",
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, expect, it } from "vitest";
+
+import type { EnvelopeSenderOptions } from "../envelope";
+import type { EncryptedEnvelope } from "../protocol";
+import {
+  bytesToString,
+  deriveSharedSecret,
+  generateKeyPair,
+  stringToBytes,
+} from "../crypto";
+import {
+  createEnvelopeReceiver,
+  createEnvelopeSender,
+  openEnvelope,
+} from "../envelope";
+import { EncryptedEnvelopeSchema } from "../protocol";
+import {
+  addChunk,
+  createChunkReassembler,
+  createStreamDecryptor,
+  createStreamEncryptor,
+  decryptChunk,
+  decryptStream,
+  encryptChunk,
+  encryptChunkedEnvelopes,
+  encryptStream,
+  pruneChunkStreams,
+} from "../stream";
+
+function createKey(): Uint8Array {
+  return deriveSharedSecret(
+    generateKeyPair().secretKey,
+    generateKeyPair().publicKey,
+  );
+}
+
+function feed(
+  reassembler: ReturnType<typeof createChunkReassembler>,
+  envelopes: EncryptedEnvelope[],
+) {
+  return envelopes.map((envelope) => addChunk(reassembler, envelope));
+}
+
+describe("Stream Encryption", () => {
+  it("should round trip a payload split into chunks", () => {
+    const key = createKey();
+    const data = stringToBytes("x".repeat(1000));
+    const { header, chunks } = encryptStream(data, key, 300);
+
+    expect(chunks).toHaveLength(4);
+    expect(decryptStream(key, header, chunks)).toEqual(data);
+  });
+
+  it("should handle an empty payload as a single final chunk", () => {
+    const key = createKey();
+    const { header, chunks } = encryptStream(new Uint8Array(0), key);
+
+    expect(chunks).toHaveLength(1);
+    expect(decryptStream(key, header, chunks)).toEqual(new Uint8Array(0));
+  });
+
+  it("should detect truncation", () => {
+    const key = createKey();
+    const { header, chunks } = encryptStream(new Uint8Array(1000), key, 300);
+
+    expect(decryptStream(key, header, chunks.slice(0, -1))).toBeNull();
+  });
+
+  it("should reject reordered chunks", () => {
+    const key = createKey();
+    const { header, chunks } = encryptStream(new Uint8Array(1000), key, 300);
+    const [first, second, ...rest] = chunks;
+    if (!first || !second) throw new Error("missing chunk");
+
+    expect(decryptStream(key, header, [second, first, ...rest])).toBeNull();
+  });
+
+  it("should reject a tampered chunk", () => {
+    const key = createKey();
+    const { header, chunks } = encryptStream(new Uint8Array(100), key);
+    const tampered = chunks.map((chunk) => chunk.slice());
+    const [first] = tampered;
+    if (!first) throw new Error("missing chunk");
+    first[first.length - 1] = (first[first.length - 1] ?? 0) ^ 1;
+
+    expect(decryptStream(key, header, tampered)).toBeNull();
+  });
+
+  it("should not decrypt chunks under another stream header", () => {
+    const key = createKey();
+    const a = encryptStream(new Uint8Array(10), key);
+    const b = encryptStream(new Uint8Array(10), key);
+
+    expect(decryptStream(key, b.header, a.chunks)).toBeNull();
+  });
+
+  it("should refuse chunks after the final one", () => {
+    const key = createKey();
+    const encryptor = createStreamEncryptor(key);
+    const final = encryptChunk(encryptor, stringToBytes("end"), true);
+
+    expect(() => encryptChunk(encryptor, new Uint8Array(1), false)).toThrow();
+
+    const decryptor = createStreamDecryptor(key, encryptor.header);
+    if (!decryptor) throw new Error("invalid header");
+    expect(decryptChunk(decryptor, final)).toMatchObject({ final: true });
+    expect(decryptor.finished).toBe(true);
+    expect(decryptChunk(decryptor, final)).toBeNull();
+  });
+
+  it("should reject a malformed header", () => {
+    expect(createStreamDecryptor(createKey(), new Uint8Array(3))).toBeNull();
+  });
+});
+
+describe("Chunked Envelopes", () => {
+  const payload = JSON.stringify({
+    type: "tool_result",
+    content: "line\n".repeat(5000),
+  });
+
+  function createChannel(options: EnvelopeSenderOptions = {}) {
+    return {
+      key: createKey(),
+      sender: createEnvelopeSender("s", "desktop", options),
+      receiver: createEnvelopeReceiver("s", "mobile"),
+    };
+  }
+
+  it("should split an event into valid envelopes", () => {
+    const { key, sender } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, payload, 4096);
+
+    expect(envelopes.length).toBeGreaterThan(1);
+    for (const envelope of envelopes) {
+      expect(EncryptedEnvelopeSchema.safeParse(envelope).success).toBe(true);
+    }
+    expect(envelopes.map((envelope) => envelope.chunk?.final)).toEqual([
+      ...Array<boolean>(envelopes.length - 1).fill(false),
+      true,
+    ]);
+    expect(envelopes.map((envelope) => envelope.seq)).toEqual(
+      envelopes.map((_, i) => i),
+    );
+  });
+
+  it("should reassemble the event", () => {
+    const { key, sender, receiver } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, payload, 4096);
+    const results = feed(createChunkReassembler(receiver, key), envelopes);
+
+    expect(results.slice(0, -1).every((r) => r.status === "pending")).toBe(
+      true,
+    );
+    expect(results.at(-1)).toEqual({ status: "complete", plaintext: payload });
+  });
+
+  it("should pad and compress chunks like other envelopes", () => {
+    const { key, sender, receiver } = createChannel({
+      padded: true,
+      compression: "deflate",
+    });
+    const envelopes = encryptChunkedEnvelopes(sender, key, payload, 4096);
+
+    expect(envelopes[0]).toMatchObject({ version: 2, compression: "deflate" });
+    expect(
+      feed(createChunkReassembler(receiver, key), envelopes).at(-1),
+    ).toEqual({ status: "complete", plaintext: payload });
+  });
+
+  it("should reassemble chunks that arrive out of order", () => {
+    const { key, sender, receiver } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, payload, 4096);
+    const results = feed(
+      createChunkReassembler(receiver, key),
+      envelopes.reverse(),
+    );
+
+    expect(results.at(-1)).toEqual({ status: "complete", plaintext: payload });
+  });
+
+  it("should interleave streams", () => {
+    const { key, sender, receiver } = createChannel();
+    const a = encryptChunkedEnvelopes(sender, key, "a".repeat(20), 8);
+    const b = encryptChunkedEnvelopes(sender, key, "b".repeat(20), 8);
+    const reassembler = createChunkReassembler(receiver, key);
+
+    const interleaved = a.flatMap((envelope, i) => [envelope, b[i]]);
+    const complete = feed(
+      reassembler,
+      interleaved.filter((envelope) => envelope !== undefined),
+    ).filter((result) => result.status === "complete");
+
+    expect(complete).toEqual([
+      { status: "complete", plaintext: "a".repeat(20) },
+      { status: "complete", plaintext: "b".repeat(20) },
+    ]);
+  });
+
+  it("should keep a truncated stream pending until pruned", () => {
+    const { key, sender, receiver } = createChannel();
+    const reassembler = createChunkReassembler(receiver, key);
+    const truncated = encryptChunkedEnvelopes(sender, key, payload, 4096).slice(
+      0,
+      -1,
+    );
+
+    expect(feed(reassembler, truncated).at(-1)).toEqual({
+      status: "pending",
+    });
+    expect(pruneChunkStreams(reassembler, 1000, Date.now() + 2000)).toEqual([
+      truncated[0]?.chunk?.streamId,
+    ]);
+    expect(reassembler.streams.size).toBe(0);
+  });
+
+  it("should reject a changed chunk descriptor", () => {
+    const { key, sender, receiver } = createChannel();
+    const [first] = encryptChunkedEnvelopes(sender, key, payload, 4096);
+    if (!first?.chunk) throw new Error("missing chunk");
+
+    expect(
+      addChunk(createChunkReassembler(receiver, key), {
+        ...first,
+        chunk: { ...first.chunk, final: true },
+      }),
+    ).toEqual({ status: "error", error: "tampered" });
+  });
+
+  it("should reject a replayed stream", () => {
+    const { key, sender, receiver } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, "once");
+    const reassembler = createChunkReassembler(receiver, key);
+
+    expect(feed(reassembler, envelopes).at(-1)?.status).toBe("complete");
+    expect(feed(reassembler, envelopes).at(-1)).toEqual({
+      status: "error",
+      error: "replay",
+    });
+  });
+
+  it("should reject an old stream replayed after many others", () => {
+    const { key, sender, receiver } = createChannel();
+    const reassembler = createChunkReassembler(receiver, key);
+    const old = encryptChunkedEnvelopes(sender, key, "approve");
+    feed(reassembler, old);
+    for (let i = 0; i < 300; i++) {
+      feed(reassembler, encryptChunkedEnvelopes(sender, key, `event ${i}`));
+    }
+
+    expect(feed(reassembler, old).at(-1)).toEqual({
+      status: "error",
+      error: "replay",
+    });
+  });
+
+  it("should reject chunks from another session", () => {
+    const { key, sender } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, "hello");
+    const other = createChunkReassembler(
+      createEnvelopeReceiver("other", "mobile"),
+      key,
+    );
+
+    expect(feed(other, envelopes).at(-1)).toEqual({
+      status: "error",
+      error: "misrouted",
+    });
+  });
+
+  it("should enforce size and stream limits", () => {
+    const { key, sender, receiver } = createChannel();
+    const envelopes = encryptChunkedEnvelopes(sender, key, payload, 4096);
+
+    const small = createChunkReassembler(receiver, key, { maxBytes: 5000 });
+    expect(feed(small, envelopes).at(1)).toEqual({
+      status: "error",
+      error: "too_large",
+    });
+
+    const few = createChunkReassembler(
+      createEnvelopeReceiver("s", "mobile"),
+      key,
+      { maxPending: 1 },
+    );
+    const [a] = encryptChunkedEnvelopes(sender, key, payload, 4096);
+    const [b] = encryptChunkedEnvelopes(sender, key, payload, 4096);
+    if (!a || !b) throw new Error("missing chunk");
+    expect(addChunk(few, a).status).toBe("pending");
+    expect(addChunk(few, b)).toEqual({ status: "error", error: "too_many" });
+  });
+
+  it("should reject envelopes without a chunk descriptor", () => {
+    const { key, sender, receiver } = createChannel();
+    const [envelope] = encryptChunkedEnvelopes(sender, key, "x");
+    if (!envelope) throw new Error("missing chunk");
+    delete envelope.chunk;
+
+    expect(addChunk(createChunkReassembler(receiver, key), envelope)).toEqual({
+      status: "error",
+      error: "malformed",
+    });
+  });
+
+  it("should not open chunks as single envelopes", () => {
+    const { key, sender, receiver } = createChannel();
+    const [envelope] = encryptChunkedEnvelopes(sender, key, "x");
+    if (!envelope) throw new Error("missing chunk");
+
+    expect(openEnvelope(receiver, key, envelope)).toEqual({
+      ok: false,
+      error: "malformed",
+    });
+  });
+
+  it("should decode to the original string", () => {
+    const key = createKey();
+    const data = stringToBytes("héllo wörld");
+    const { header, chunks } = encryptStream(data, key, 3);
+    const decrypted = decryptStream(key, header, chunks);
+
+    expect(decrypted && bytesToString(decrypted)).toBe("héllo wörld");
+  });
+});
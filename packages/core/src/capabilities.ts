@@ -0,0 +1,205 @@
+/**
+ * Protocol version and capability negotiation.
+ *
+ * The QR code only says which relay and key to use, so the two apps learn
+ * what the other speaks during the handshake instead. The mobile lists its
+ * protocol versions and capabilities in handshake_response; the desktop
+ * picks the highest version both speak and the capabilities both support,
+ * and announces the result in handshake_complete. Each side then only uses
+ * features in the negotiated set, so an old phone paired with a new desktop
+ * (or the other way round) falls back to what they have in common instead
+ * of failing.
+ *
+ * Peers that predate negotiation send neither field and are treated as
+ * speaking version 1.0 with no optional capabilities.
+ *
+ * The relay could strip capabilities from the offer to downgrade a
+ * session, so both sides feed negotiationTranscript() into the key
+ * confirmation, and the fields are covered by handshake signatures.
+ */
+
+import type {
+  Capability,
+  HandshakeComplete,
+  HandshakeResponse,
+} from "./protocol";
+import { stringToBytes } from "./crypto";
+import { CapabilitySchema, PROTOCOL_VERSION } from "./protocol";
+
+/**
+ * Protocol versions this build speaks, newest first.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = [
+  PROTOCOL_VERSION,
+];
+
+/**
+ * Version assumed for peers that do not negotiate.
+ */
+export const LEGACY_PROTOCOL_VERSION = "1.0";
+
+/**
+ * Capabilities this build implements.
+ */
+export const SUPPORTED_CAPABILITIES: readonly Capability[] = [
+  "compression",
+  "chunking",
+  "ratchet",
+  "padding",
+];
+
+/**
+ * What one side offers: its versions and capabilities.
+ */
+export interface CapabilityOffer {
+  versions: string[];
+  capabilities: string[];
+}
+
+/**
+ * The agreed protocol version and capabilities for a session.
+ */
+export interface NegotiatedCapabilities {
+  version: string;
+  capabilities: Capability[];
+}
+
+export type NegotiateCapabilitiesResult =
+  | { ok: true; negotiated: NegotiatedCapabilities }
+  | { ok: false; error: "unsupported_version" };
+
+/**
+ * Create our offer, to spread into handshake_response.
+ */
+export function createCapabilityOffer(
+  versions: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS,
+  capabilities: readonly Capability[] = SUPPORTED_CAPABILITIES,
+): CapabilityOffer {
+  return { versions: [...versions], capabilities: [...capabilities] };
+}
+
+/**
+ * Compare "major.minor" version strings.
+ *
+ * @returns Negative if a < b, zero if equal, positive if a > b, or null if
+ * either is not a valid version
+ */
+export function compareProtocolVersions(a: string, b: string): number | null {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return null;
+  return left[0] - right[0] || left[1] - right[1];
+}
+
+/**
+ * Pick the highest version both sides speak.
+ *
+ * @returns The version, or null if there is none in common
+ */
+export function negotiateProtocolVersion(
+  offered: readonly string[] | undefined,
+  supported: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS,
+): string | null {
+  const common = (offered ?? [LEGACY_PROTOCOL_VERSION]).filter(
+    (version) => parseVersion(version) !== null && supported.includes(version),
+  );
+  return common.reduce<string | null>(
+    (best, version) =>
+      best === null || (compareProtocolVersions(version, best) ?? 0) > 0
+        ? version
+        : best,
+    null,
+  );
+}
+
+/**
+ * Desktop side: negotiate from the mobile's handshake_response. Spread the
+ * result into handshake_complete, and derive the session keys with the
+ * negotiated version.
+ */
+export function negotiateCapabilities(
+  response: Pick<HandshakeResponse, "versions" | "capabilities">,
+  local: CapabilityOffer = createCapabilityOffer(),
+): NegotiateCapabilitiesResult {
+  const version = negotiateProtocolVersion(response.versions, local.versions);
+  if (!version) return { ok: false, error: "unsupported_version" };
+
+  const offered = response.capabilities ?? [];
+  return {
+    ok: true,
+    negotiated: {
+      version,
+      capabilities: knownCapabilities(local.capabilities).filter((capability) =>
+        offered.includes(capability),
+      ),
+    },
+  };
+}
+
+/**
+ * Mobile side: read the outcome from handshake_complete. The desktop may
+ * only pick from what we offered.
+ *
+ * @returns The negotiated capabilities, or null if the desktop picked a
+ * version or capability we did not offer
+ */
+export function acceptNegotiatedCapabilities(
+  complete: Pick<HandshakeComplete, "version" | "capabilities">,
+  offer: CapabilityOffer = createCapabilityOffer(),
+): NegotiatedCapabilities | null {
+  const version = complete.version ?? LEGACY_PROTOCOL_VERSION;
+  const capabilities = complete.capabilities ?? [];
+
+  if (!offer.versions.includes(version)) return null;
+  if (!capabilities.every((c) => offer.capabilities.includes(c))) return null;
+
+  return { version, capabilities: knownCapabilities(capabilities) };
+}
+
+/**
+ * Bytes covering the mobile's offer and the desktop's choice, for
+ * createKeyConfirmation(). The desktop passes the response it received,
+ * the mobile the one it sent, so a changed offer fails confirmation.
+ */
+export function negotiationTranscript(
+  response: Pick<HandshakeResponse, "versions" | "capabilities">,
+  complete: Pick<HandshakeComplete, "version" | "capabilities">,
+): Uint8Array {
+  return stringToBytes(
+    JSON.stringify([
+      "mcc-negotiation-v1",
+      response.versions ?? null,
+      response.capabilities ?? null,
+      complete.version ?? null,
+      complete.capabilities ?? null,
+    ]),
+  );
+}
+
+/**
+ * Check whether a feature may be used in this session.
+ */
+export function hasCapability(
+  negotiated: NegotiatedCapabilities,
+  capability: Capability,
+): boolean {
+  return negotiated.capabilities.includes(capability);
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)$/;
+
+function parseVersion(version: string): [number, number] | null {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2])];
+}
+
+function knownCapabilities(names: readonly string[]): Capability[] {
+  return names.filter(
+    (name): name is Capability => CapabilitySchema.safeParse(name).success,
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Payload compression before encryption.
+ *
+ * Tool results and diffs are long, repetitive text, so deflating them
+ * before encryption saves most of the bandwidth. Compression is opt-in:
+ * it is used when both sides negotiate the "compression" capability during
+ * the handshake (see capabilities.ts), and each envelope then says whether
+ * its payload was compressed. Small payloads are sent as they are,
+ * since deflate gains little on them and the envelope is padded anyway.
+ *
+ * fflate is pure JavaScript, so the same code runs in Node and React Native.
+ */
+
+import { deflateSync, Inflate } from "fflate";
+
+import type { NegotiatedCapabilities } from "./capabilities";
+import type { CompressionAlgorithm } from "./protocol";
+import { hasCapability } from "./capabilities";
+import { concatBytes } from "./crypto";
+
+/**
+ * Payloads smaller than this are not compressed.
+ */
+export const COMPRESSION_THRESHOLD = 1024; // 1 KiB
+
+/**
+ * Largest payload decompression will produce. Guards against a small
+ * envelope that inflates to gigabytes.
+ */
+export const DECOMPRESSED_MAX_BYTES = 32 * 1024 * 1024; // 32 MiB
+
+// Input is fed to the inflater in slices this big, so output is checked
+// against the limit as it is produced instead of all at once
+const INFLATE_SLICE_SIZE = 4096;
+
+export interface CompressOptions {
+  /** Payloads below this size are left alone (default: 1 KiB) */
+  threshold?: number;
+}
+
+export interface CompressedPayload {
+  data: Uint8Array;
+  /** Set if `data` is compressed */
+  compression?: CompressionAlgorithm;
+}
+
+/**
+ * Pick the algorithm for a session from the negotiated capabilities.
+ *
+ * @returns "deflate" if both sides support compression, or null to send
+ * payloads uncompressed
+ */
+export function negotiateCompression(
+  negotiated: NegotiatedCapabilities,
+): CompressionAlgorithm | null {
+  return hasCapability(negotiated, "compression") ? "deflate" : null;
+}
+
+/**
+ * Compress a payload if it is large enough and compression helps.
+ */
+export function compressPayload(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm | null,
+  options: CompressOptions = {},
+): CompressedPayload {
+  const threshold = options.threshold ?? COMPRESSION_THRESHOLD;
+  if (!algorithm || data.length < threshold) return { data };
+
+  const compressed = deflateSync(data);
+  if (compressed.length >= data.length) return { data };
+  return { data: compressed, compression: algorithm };
+}
+
+/**
+ * Undo compressPayload().
+ *
+ * @returns The payload, or null if it is corrupt or inflates past maxBytes
+ */
+export function decompressPayload(
+  data: Uint8Array,
+  compression: CompressionAlgorithm | undefined,
+  maxBytes = DECOMPRESSED_MAX_BYTES,
+): Uint8Array | null {
+  if (!compression) return data;
+  if (data.length === 0) return null;
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const inflater = new Inflate((chunk) => {
+    total += chunk.length;
+    // Thrown out of push(), which ends decompression early
+    if (total > maxBytes) throw new Error("Decompressed payload too large");
+    chunks.push(chunk);
+  });
+
+  try {
+    for (let offset = 0; offset < data.length; offset += INFLATE_SLICE_SIZE) {
+      const end = offset + INFLATE_SLICE_SIZE;
+      inflater.push(data.subarray(offset, end), end >= data.length);
+    }
+  } catch {
+    return null;
+  }
+
+  return concatBytes(...chunks);
+}
@@ -5,12 +5,21 @@
  * - Key pair generation (X25519)
  * - NaCl Box encryption/decryption
  * - ECDH shared secret derivation
+ * - Length padding to hide message sizes
+ * - Key derivation (HMAC-SHA-512, HKDF)
+ * - Directional session keys and key confirmation
+ * - Ed25519 signatures for device identity
  * - Secure nonce generation
  */
 
+import { hkdf as nobleHkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha512 } from "@noble/hashes/sha2";
 import * as nacl from "tweetnacl";
 import * as naclUtil from "tweetnacl-util";
 
+import type { ClientRole } from "./protocol";
+
 /**
  * A key pair for asymmetric encryption (X25519).
  */
@@ -123,25 +132,244 @@ export function decrypt(
 
 /**
  * Encrypt a string message (convenience wrapper).
+ * With `padded`, the message is padded to a size bucket first.
  */
 export function encryptString(
   message: string,
   sharedSecret: Uint8Array,
+  options: PaddingOptions = {},
 ): EncryptedMessage {
-  return encrypt(naclUtil.decodeUTF8(message), sharedSecret);
+  const bytes = naclUtil.decodeUTF8(message);
+  return encrypt(options.padded ? padMessage(bytes) : bytes, sharedSecret);
 }
 
 /**
  * Decrypt to a string (convenience wrapper).
+ * `padded` must match what the sender used.
  */
 export function decryptString(
   ciphertext: Uint8Array,
   nonce: Uint8Array,
   sharedSecret: Uint8Array,
+  options: PaddingOptions = {},
 ): string | null {
   const decrypted = decrypt(ciphertext, nonce, sharedSecret);
   if (!decrypted) return null;
-  return naclUtil.encodeUTF8(decrypted);
+  const message = options.padded ? unpadMessage(decrypted) : decrypted;
+  if (!message) return null;
+  return naclUtil.encodeUTF8(message);
+}
+
+// ============================================================================
+// Padding
+// ============================================================================
+
+/**
+ * Sizes that padded messages are rounded up to. Small commands and events
+ * all look alike; larger ones only reveal their bucket. Messages past the
+ * last bucket are rounded up to a multiple of it.
+ */
+export const PADDING_BUCKETS = [256, 1024, 4096, 16384, 65536] as const;
+
+const PADDING_MARKER = 0x80;
+
+export interface PaddingOptions {
+  /** Pad to a size bucket (envelope version 2) */
+  padded?: boolean;
+}
+
+/**
+ * Length a message of `length` bytes has once padded.
+ */
+export function paddedLength(length: number): number {
+  // One byte is always needed for the marker
+  const needed = length + 1;
+  for (const bucket of PADDING_BUCKETS) {
+    if (needed <= bucket) return bucket;
+  }
+  const largest = PADDING_BUCKETS[PADDING_BUCKETS.length - 1] ?? needed;
+  return Math.ceil(needed / largest) * largest;
+}
+
+/**
+ * Pad a message to its bucket: a 0x80 marker followed by zeros
+ * (ISO/IEC 7816-4), so any byte content round trips.
+ */
+export function padMessage(message: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(paddedLength(message.length));
+  padded.set(message);
+  padded[message.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * Strip padding added by padMessage().
+ *
+ * @returns The original message, or null if the padding is invalid
+ */
+export function unpadMessage(padded: Uint8Array): Uint8Array | null {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  if (end < 0 || padded[end] !== PADDING_MARKER) return null;
+  return padded.slice(0, end);
+}
+
+// ============================================================================
+// Key Derivation
+// ============================================================================
+
+/**
+ * HMAC-SHA-512 (RFC 2104).
+ */
+export function hmacSha512(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return hmac(sha512, key, data);
+}
+
+/**
+ * HKDF with SHA-512 (RFC 5869): derive `length` bytes of key material
+ * from input keying material, an optional salt and a context string.
+ */
+export function hkdf(
+  ikm: Uint8Array,
+  salt: Uint8Array,
+  info: Uint8Array | string,
+  length: number,
+): Uint8Array {
+  const infoBytes = typeof info === "string" ? stringToBytes(info) : info;
+  return nobleHkdf(
+    sha512,
+    ikm,
+    salt.length > 0 ? salt : undefined,
+    infoBytes,
+    length,
+  );
+}
+
+// ============================================================================
+// Session Keys
+// ============================================================================
+
+/**
+ * Keys for one side of a session. Each direction has its own key, so a
+ * message reflected back to its sender by the relay does not decrypt.
+ * Both directional keys work with encrypt() and decrypt().
+ */
+export interface SessionKeys {
+  /** Key for messages we send */
+  sendKey: Uint8Array;
+  /** Key for messages we receive */
+  receiveKey: Uint8Array;
+  /** Key for the handshake key-confirmation MAC */
+  confirmKey: Uint8Array;
+}
+
+/**
+ * Derive directional session keys from the ECDH shared secret.
+ * The session id and protocol version are mixed in, so keys from one
+ * session or protocol version are useless in another.
+ */
+export function deriveSessionKeys(
+  sharedSecret: Uint8Array,
+  role: ClientRole,
+  sessionId: string,
+  protocolVersion: string,
+): SessionKeys {
+  const material = hkdf(
+    sharedSecret,
+    new Uint8Array(0),
+    `mcc-session-keys|${protocolVersion}|${sessionId}`,
+    96,
+  );
+  const desktopToMobile = material.slice(0, 32);
+  const mobileToDesktop = material.slice(32, 64);
+  const confirmKey = material.slice(64);
+  clearBytes(material);
+
+  return role === "desktop"
+    ? { sendKey: desktopToMobile, receiveKey: mobileToDesktop, confirmKey }
+    : { sendKey: mobileToDesktop, receiveKey: desktopToMobile, confirmKey };
+}
+
+/**
+ * MAC proving that `sender` derived the same session keys.
+ * The desktop sends it in handshake_complete, over the negotiation
+ * transcript (see negotiationTranscript()), so it also proves both sides
+ * saw the same offer and choice.
+ */
+export function createKeyConfirmation(
+  keys: SessionKeys,
+  sender: ClientRole,
+  transcript: Uint8Array = new Uint8Array(0),
+): Uint8Array {
+  return hmacSha512(
+    keys.confirmKey,
+    concatBytes(stringToBytes(`mcc-key-confirm|${sender}|`), transcript),
+  ).slice(0, 32);
+}
+
+/**
+ * Check the peer's key-confirmation MAC.
+ */
+export function verifyKeyConfirmation(
+  keys: SessionKeys,
+  sender: ClientRole,
+  mac: Uint8Array,
+  transcript: Uint8Array = new Uint8Array(0),
+): boolean {
+  return constantTimeEqual(
+    mac,
+    createKeyConfirmation(keys, sender, transcript),
+  );
+}
+
+/**
+ * Wipe session keys that are no longer needed.
+ */
+export function clearSessionKeys(keys: SessionKeys): void {
+  clearBytes(keys.sendKey);
+  clearBytes(keys.receiveKey);
+  clearBytes(keys.confirmKey);
+}
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+/**
+ * Generate a new key pair for signing.
+ * Uses Ed25519 via TweetNaCl; the secret key is 64 bytes.
+ */
+export function generateSigningKeyPair(): KeyPair {
+  const keyPair = nacl.sign.keyPair();
+  return {
+    publicKey: keyPair.publicKey,
+    secretKey: keyPair.secretKey,
+  };
+}
+
+/**
+ * Create a detached Ed25519 signature over a message.
+ */
+export function sign(message: Uint8Array, secretKey: Uint8Array): Uint8Array {
+  return nacl.sign.detached(message, secretKey);
+}
+
+/**
+ * Verify a detached Ed25519 signature.
+ * Returns false (rather than throwing) for malformed keys or signatures.
+ */
+export function verify(
+  message: Uint8Array,
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+): boolean {
+  if (
+    signature.length !== nacl.sign.signatureLength ||
+    publicKey.length !== nacl.sign.publicKeyLength
+  ) {
+    return false;
+  }
+  return nacl.sign.detached.verify(message, signature, publicKey);
 }
 
 // ============================================================================
@@ -220,6 +448,19 @@ export function bytesToString(bytes: Uint8Array): string {
   return naclUtil.encodeUTF8(bytes);
 }
 
+/**
+ * Concatenate byte arrays.
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
 /**
  * Constant-time comparison of two byte arrays.
  * Prevents timing attacks when comparing secrets.
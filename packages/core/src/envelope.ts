@@ -0,0 +1,482 @@
+/**
+ * Sequence-numbered encrypted envelopes.
+ *
+ * Random nonces alone say nothing about order, so the relay could replay
+ * an old command (an approve_permission, say) and it would decrypt fine.
+ * Each direction of a session therefore keeps its own counter. The
+ * session id, sender, sequence number and timestamp are bound into the
+ * message key, so changing any of them makes decryption fail. The receiver
+ * accepts each sequence number once, within a sliding window that tolerates
+ * some reordering, and rejects envelopes whose timestamps are too far from
+ * its own clock. A jump ahead is accepted and moves the window along; the
+ * result says how many sequence numbers were skipped on the way.
+ *
+ * Senders may pad every plaintext to a size bucket (envelope version 2) and
+ * send cover messages while idle, so the relay learns little from message
+ * sizes and timing. Receivers handle both versions. Large payloads may also
+ * be compressed first, if the handshake negotiated it (see compression.ts).
+ * Chunks of a large event are sealed the same way (see stream.ts).
+ */
+
+import * as nacl from "tweetnacl";
+import { z } from "zod/v4";
+
+import type {
+  ClientRole,
+  CompressionAlgorithm,
+  EncryptedEnvelope,
+  EnvelopeChunk,
+  EnvelopeVersion,
+  SessionId,
+} from "./protocol";
+import {
+  COMPRESSION_THRESHOLD,
+  compressPayload,
+  decompressPayload,
+} from "./compression";
+import {
+  bytesToString,
+  clearBytes,
+  fromBase64,
+  generateNonce,
+  hmacSha512,
+  padMessage,
+  stringToBytes,
+  toBase64,
+  unpadMessage,
+} from "./crypto";
+import {
+  createTimestamp,
+  ENVELOPE_VERSION_PADDED,
+  ENVELOPE_VERSION_UNPADDED,
+} from "./protocol";
+
+/**
+ * Number of recent sequence numbers the receiver remembers. Envelopes older
+ * than this are treated as replays.
+ */
+export const ENVELOPE_REPLAY_WINDOW = 64;
+
+/**
+ * How far ahead of the receiver's clock a timestamp may be.
+ */
+export const ENVELOPE_MAX_CLOCK_SKEW_MS = 2 * 60 * 1000; // 2 minutes
+
+/**
+ * How old an envelope may be. Longer than the relay's offline queue TTL,
+ * so queued messages are still accepted.
+ */
+export const ENVELOPE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Why an envelope was rejected.
+ */
+export const EnvelopeErrorSchema = z.enum([
+  // Missing sequence number, undecodable fields, invalid padding or a
+  // payload that does not decompress
+  "malformed",
+  // Addressed to another session, or sent by our own role
+  "misrouted",
+  // Failed authentication: the ciphertext or its header was changed
+  "tampered",
+  // Sequence number already seen, or older than the window
+  "replay",
+  // Timestamp older than the maximum age
+  "stale",
+  // Timestamp further in the future than the allowed clock skew
+  "clock_skew",
+]);
+export type EnvelopeError = z.infer<typeof EnvelopeErrorSchema>;
+
+/**
+ * Sending side of one direction of a session.
+ */
+export interface EnvelopeSender {
+  sessionId: SessionId;
+  role: ClientRole;
+  /** Sequence number of the next envelope */
+  nextSeq: number;
+  /** Pad plaintexts to a size bucket (envelope version 2) */
+  padded: boolean;
+  /** Negotiated compression, or null to send payloads as they are */
+  compression: CompressionAlgorithm | null;
+  /** Payloads below this size are not compressed */
+  compressionThreshold: number;
+}
+
+export interface EnvelopeSenderOptions {
+  padded?: boolean;
+  compression?: CompressionAlgorithm | null;
+  compressionThreshold?: number;
+}
+
+/**
+ * Receiving side of one direction of a session.
+ */
+export interface EnvelopeReceiver {
+  sessionId: SessionId;
+  /** Our own role; envelopes must come from the other one */
+  role: ClientRole;
+  /** Highest sequence number accepted so far, or -1 */
+  highestSeq: number;
+  /** Bit i is set if highestSeq - i has been accepted */
+  window: bigint;
+}
+
+export interface EnvelopeTimeOptions {
+  /** Receiver's current time (default: Date.now()) */
+  now?: number;
+  maxClockSkewMs?: number;
+  maxAgeMs?: number;
+}
+
+export type OpenEnvelopeResult =
+  | {
+      ok: true;
+      plaintext: string;
+      seq: number;
+      /**
+       * Sequence numbers skipped between the highest one accepted so far
+       * and this one: dropped, or still to come if merely reordered
+       */
+      missed: number;
+    }
+  | { ok: false; error: EnvelopeError };
+
+export type OpenEnvelopeBytesResult =
+  | { ok: true; plaintext: Uint8Array; seq: number; missed: number }
+  | { ok: false; error: EnvelopeError };
+
+/**
+ * Create the sending state for our direction of a session.
+ */
+export function createEnvelopeSender(
+  sessionId: SessionId,
+  role: ClientRole,
+  options: EnvelopeSenderOptions = {},
+): EnvelopeSender {
+  return {
+    sessionId,
+    role,
+    nextSeq: 0,
+    padded: options.padded ?? false,
+    compression: options.compression ?? null,
+    compressionThreshold: options.compressionThreshold ?? COMPRESSION_THRESHOLD,
+  };
+}
+
+/**
+ * Create the receiving state for the peer's direction of a session.
+ */
+export function createEnvelopeReceiver(
+  sessionId: SessionId,
+  role: ClientRole,
+): EnvelopeReceiver {
+  return { sessionId, role, highestSeq: -1, window: 0n };
+}
+
+/**
+ * Encrypt a string into the next envelope of this direction.
+ * `sharedKey` is our sendKey from deriveSessionKeys().
+ */
+export function sealEnvelope(
+  sender: EnvelopeSender,
+  sharedKey: Uint8Array,
+  plaintext: string,
+): EncryptedEnvelope {
+  return sealEnvelopeBytes(sender, sharedKey, stringToBytes(plaintext));
+}
+
+/**
+ * Encrypt bytes into the next envelope of this direction. A chunk
+ * descriptor, if given, is bound into the message key with the rest of
+ * the header.
+ */
+export function sealEnvelopeBytes(
+  sender: EnvelopeSender,
+  sharedKey: Uint8Array,
+  plaintext: Uint8Array,
+  chunk?: EnvelopeChunk,
+): EncryptedEnvelope {
+  const { data, compression } = compressPayload(plaintext, sender.compression, {
+    threshold: sender.compressionThreshold,
+  });
+  const header: EnvelopeHeader = {
+    ...(sender.padded ? { version: ENVELOPE_VERSION_PADDED } : {}),
+    ...(compression ? { compression } : {}),
+    sessionId: sender.sessionId,
+    sender: sender.role,
+    seq: sender.nextSeq++,
+    timestamp: createTimestamp(),
+    ...(chunk ? { chunk } : {}),
+  };
+  const nonce = generateNonce();
+  const key = deriveEnvelopeKey(sharedKey, header);
+  const ciphertext = nacl.secretbox(
+    sender.padded ? padMessage(data) : data,
+    nonce,
+    key,
+  );
+  clearBytes(key);
+
+  return {
+    ...header,
+    ciphertext: toBase64(ciphertext),
+    nonce: toBase64(nonce),
+  };
+}
+
+/**
+ * Check and decrypt an envelope from the peer, using our receiveKey.
+ * The receiver only records the sequence number if the envelope is
+ * accepted, so a rejected one can be delivered again later. Chunk
+ * envelopes are rejected; they go to addChunk() instead.
+ */
+export function openEnvelope(
+  receiver: EnvelopeReceiver,
+  sharedKey: Uint8Array,
+  envelope: EncryptedEnvelope,
+  options: EnvelopeTimeOptions = {},
+): OpenEnvelopeResult {
+  if (envelope.chunk) return { ok: false, error: "malformed" };
+
+  const opened = openEnvelopeBytes(receiver, sharedKey, envelope, options);
+  if (!opened.ok) return opened;
+  const { plaintext, ...rest } = opened;
+  return { ...rest, plaintext: bytesToString(plaintext) };
+}
+
+/**
+ * Like openEnvelope(), but returns the plaintext as bytes and accepts
+ * chunk envelopes.
+ */
+export function openEnvelopeBytes(
+  receiver: EnvelopeReceiver,
+  sharedKey: Uint8Array,
+  envelope: EncryptedEnvelope,
+  options: EnvelopeTimeOptions = {},
+): OpenEnvelopeBytesResult {
+  const { seq } = envelope;
+  if (seq === undefined) return { ok: false, error: "malformed" };
+  if (
+    envelope.sessionId !== receiver.sessionId ||
+    envelope.sender === receiver.role
+  ) {
+    return { ok: false, error: "misrouted" };
+  }
+
+  // Checked first: the window alone proves a replay, and a second
+  // decryption attempt would tell the sender nothing new
+  if (isSeen(receiver, seq)) return { ok: false, error: "replay" };
+
+  let ciphertext: Uint8Array;
+  let nonce: Uint8Array;
+  try {
+    ciphertext = fromBase64(envelope.ciphertext);
+    nonce = fromBase64(envelope.nonce);
+  } catch {
+    return { ok: false, error: "malformed" };
+  }
+  if (nonce.length !== nacl.secretbox.nonceLength) {
+    return { ok: false, error: "malformed" };
+  }
+
+  const key = deriveEnvelopeKey(sharedKey, envelope);
+  const decrypted = nacl.secretbox.open(ciphertext, nonce, key);
+  clearBytes(key);
+  if (!decrypted) return { ok: false, error: "tampered" };
+  const unpadded =
+    envelope.version === ENVELOPE_VERSION_PADDED
+      ? unpadMessage(decrypted)
+      : decrypted;
+  const message = unpadded && decompressPayload(unpadded, envelope.compression);
+  if (!message) return { ok: false, error: "malformed" };
+
+  // Only trusted now that the timestamp and sequence are authenticated
+  const timeError = checkTimestamp(envelope.timestamp, options);
+  if (timeError) return { ok: false, error: timeError };
+  const missed =
+    seq > receiver.highestSeq + 1 ? seq - receiver.highestSeq - 1 : 0;
+
+  markSeen(receiver, seq);
+  return { ok: true, plaintext: message, seq, missed };
+}
+
+// ============================================================================
+// Cover Traffic
+// ============================================================================
+
+/**
+ * Plaintext of a cover message. Receivers drop it after openEnvelope().
+ */
+export const COVER_MESSAGE = JSON.stringify({ type: "cover" });
+
+/**
+ * Per-session cover traffic settings. While the session is idle, a cover
+ * envelope goes out after a random delay between the two bounds.
+ */
+export const CoverTrafficConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    minIntervalMs: z.number().int().positive(),
+    maxIntervalMs: z.number().int().positive(),
+  })
+  .refine((config) => config.minIntervalMs <= config.maxIntervalMs, {
+    message: "minIntervalMs must not exceed maxIntervalMs",
+  });
+export type CoverTrafficConfig = z.infer<typeof CoverTrafficConfigSchema>;
+
+export const DEFAULT_COVER_TRAFFIC: CoverTrafficConfig = {
+  enabled: false,
+  minIntervalMs: 5_000,
+  maxIntervalMs: 30_000,
+};
+
+/**
+ * Cover traffic schedule for our direction of a session.
+ */
+export interface CoverTraffic {
+  config: CoverTrafficConfig;
+  /** When the next cover envelope is due, or null when disabled */
+  nextAt: number | null;
+}
+
+/**
+ * Start a cover traffic schedule. The caller polls isCoverDue() from its
+ * own timer and calls recordTraffic() whenever it sends a real envelope.
+ */
+export function createCoverTraffic(
+  config: CoverTrafficConfig = DEFAULT_COVER_TRAFFIC,
+  now = Date.now(),
+): CoverTraffic {
+  const cover: CoverTraffic = { config, nextAt: null };
+  recordTraffic(cover, now);
+  return cover;
+}
+
+/**
+ * Note that a real envelope was sent, pushing the next cover one back.
+ */
+export function recordTraffic(cover: CoverTraffic, now = Date.now()): void {
+  const { enabled, minIntervalMs, maxIntervalMs } = cover.config;
+  if (!enabled) {
+    cover.nextAt = null;
+    return;
+  }
+
+  const jitter = new DataView(nacl.randomBytes(4).buffer).getUint32(0);
+  const span = maxIntervalMs - minIntervalMs;
+  cover.nextAt = now + minIntervalMs + Math.floor((jitter / 2 ** 32) * span);
+}
+
+export function isCoverDue(cover: CoverTraffic, now = Date.now()): boolean {
+  return cover.nextAt !== null && now >= cover.nextAt;
+}
+
+/**
+ * Seal a cover envelope and schedule the next one. The sender must pad:
+ * unpadded, a cover message would stand out by its size and version.
+ */
+export function sealCoverEnvelope(
+  sender: EnvelopeSender,
+  sharedKey: Uint8Array,
+  cover: CoverTraffic,
+  now = Date.now(),
+): EncryptedEnvelope {
+  if (!sender.padded) {
+    throw new Error("Cover traffic requires a padded sender");
+  }
+  const envelope = sealEnvelope(sender, sharedKey, COVER_MESSAGE);
+  recordTraffic(cover, now);
+  return envelope;
+}
+
+export function isCoverMessage(plaintext: string): boolean {
+  return plaintext === COVER_MESSAGE;
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+type EnvelopeHeader = Pick<
+  EncryptedEnvelope,
+  | "version"
+  | "compression"
+  | "sessionId"
+  | "sender"
+  | "seq"
+  | "timestamp"
+  | "chunk"
+>;
+
+/**
+ * secretbox has no associated data, so the envelope header is bound by
+ * deriving the message key from it. The version picks the label, so
+ * stripping or adding padding in transit fails authentication, and the
+ * compression flag and chunk descriptor are appended when set.
+ */
+function deriveEnvelopeKey(
+  sharedKey: Uint8Array,
+  envelope: EnvelopeHeader,
+): Uint8Array {
+  const version: EnvelopeVersion =
+    envelope.version ?? ENVELOPE_VERSION_UNPADDED;
+  const header = [
+    `mcc-envelope-v${version}`,
+    envelope.sessionId,
+    envelope.sender,
+    String(envelope.seq),
+    String(envelope.timestamp),
+    ...(envelope.compression ? [envelope.compression] : []),
+    ...(envelope.chunk
+      ? [
+          "chunk",
+          envelope.chunk.streamId,
+          String(envelope.chunk.index),
+          String(envelope.chunk.final),
+        ]
+      : []),
+  ].join("|");
+  return hmacSha512(sharedKey, stringToBytes(header)).slice(0, 32);
+}
+
+function checkTimestamp(
+  timestamp: number,
+  options: EnvelopeTimeOptions,
+): EnvelopeError | null {
+  const now = options.now ?? Date.now();
+  const maxClockSkewMs = options.maxClockSkewMs ?? ENVELOPE_MAX_CLOCK_SKEW_MS;
+  const maxAgeMs = options.maxAgeMs ?? ENVELOPE_MAX_AGE_MS;
+
+  if (timestamp > now + maxClockSkewMs) return "clock_skew";
+  // The sender's clock may be behind ours by up to the skew as well
+  if (timestamp < now - maxAgeMs - maxClockSkewMs) return "stale";
+  return null;
+}
+
+function isSeen(receiver: EnvelopeReceiver, seq: number): boolean {
+  if (seq > receiver.highestSeq) return false;
+
+  const offset = receiver.highestSeq - seq;
+  if (offset >= ENVELOPE_REPLAY_WINDOW) return true;
+  return (receiver.window & (1n << BigInt(offset))) !== 0n;
+}
+
+function markSeen(receiver: EnvelopeReceiver, seq: number): void {
+  const mask = (1n << BigInt(ENVELOPE_REPLAY_WINDOW)) - 1n;
+
+  if (seq > receiver.highestSeq) {
+    const delta = seq - receiver.highestSeq;
+    // A jump past the window forgets all of it; shifting by an
+    // attacker-chosen delta would allocate a huge BigInt first
+    receiver.window =
+      delta >= ENVELOPE_REPLAY_WINDOW
+        ? 1n
+        : ((receiver.window << BigInt(delta)) | 1n) & mask;
+    receiver.highestSeq = seq;
+    return;
+  }
+
+  receiver.window |= 1n << BigInt(receiver.highestSeq - seq);
+}
@@ -0,0 +1,352 @@
+/**
+ * Long-term device identity and trust on first use (TOFU).
+ *
+ * Each device keeps an Ed25519 identity key pair and a random device id for
+ * as long as it is installed. handshake_response and handshake_complete are
+ * signed with the identity key over both sides' ephemeral keys, so a relay
+ * that swaps the ephemeral keys cannot produce a valid signature.
+ *
+ * The first pairing is verified out of band (QR code, pairing code or SAS),
+ * after which each side pins the other's identity key. A known device whose
+ * signature verifies against the pinned key may reconnect without
+ * rescanning; a known device presenting a different key must pair again.
+ */
+
+import * as nacl from "tweetnacl";
+import { z } from "zod/v4";
+
+import type { KeyPair } from "./crypto";
+import type {
+  ClientRole,
+  HandshakeComplete,
+  HandshakeResponse,
+  PublicKey,
+  Timestamp,
+} from "./protocol";
+import {
+  fromBase64,
+  generateSessionId,
+  generateSigningKeyPair,
+  sign,
+  stringToBytes,
+  toBase64,
+  verify,
+} from "./crypto";
+import {
+  ClientRoleSchema,
+  createTimestamp,
+  PublicKeySchema,
+  TimestampSchema,
+} from "./protocol";
+
+/**
+ * Number of hash bytes shown in a fingerprint (128 bits).
+ */
+export const FINGERPRINT_BYTES = 16;
+
+/**
+ * A device's long-term identity.
+ */
+export interface DeviceIdentity {
+  deviceId: string;
+  /** Ed25519 key pair */
+  keyPair: KeyPair;
+}
+
+/**
+ * Identity as stored on the device (keep it in secure storage).
+ */
+export const SerializedDeviceIdentitySchema = z.object({
+  deviceId: z.string().min(1),
+  publicKey: z.string(),
+  secretKey: z.string(),
+});
+export type SerializedDeviceIdentity = z.infer<
+  typeof SerializedDeviceIdentitySchema
+>;
+
+/**
+ * A paired device whose identity key has been pinned.
+ */
+export const TrustedPeerSchema = z.object({
+  deviceId: z.string().min(1),
+  role: ClientRoleSchema,
+  /** Pinned Ed25519 identity key (base64) */
+  identityKey: PublicKeySchema,
+  /** Name shown to the user, e.g. "Pixel 8" */
+  label: z.string().optional(),
+  pairedAt: TimestampSchema,
+  lastSeenAt: TimestampSchema,
+});
+export type TrustedPeer = z.infer<typeof TrustedPeerSchema>;
+
+/**
+ * Trusted peers by device id.
+ */
+export const TrustedPeersSchema = z.record(z.string(), TrustedPeerSchema);
+export type TrustedPeers = z.infer<typeof TrustedPeersSchema>;
+
+/**
+ * Outcome of checking a peer's signed handshake message:
+ * - unsigned: no identity or signature was sent
+ * - invalid_signature: the signature does not verify
+ * - new: valid, but the device is unknown; verify out of band, then trustPeer()
+ * - trusted: valid and matches the pinned key; no rescan needed
+ * - changed: a known device presented a different key; refuse and re-pair
+ */
+export type PeerTrustStatus =
+  | "unsigned"
+  | "invalid_signature"
+  | "new"
+  | "trusted"
+  | "changed";
+
+/**
+ * Handshake messages that carry an identity signature.
+ */
+export type SignedHandshakeMessage = HandshakeResponse | HandshakeComplete;
+
+/**
+ * The ephemeral keys of the handshake being signed.
+ */
+export interface HandshakeKeys {
+  desktopPublicKey: PublicKey;
+  mobilePublicKey: PublicKey;
+}
+
+// ============================================================================
+// Device Identity
+// ============================================================================
+
+/**
+ * Generate a new device identity. Call once per install and persist it.
+ */
+export function generateDeviceIdentity(): DeviceIdentity {
+  return {
+    deviceId: toBase64(generateSessionId()),
+    keyPair: generateSigningKeyPair(),
+  };
+}
+
+/**
+ * Serialize an identity for storage.
+ */
+export function serializeDeviceIdentity(
+  identity: DeviceIdentity,
+): SerializedDeviceIdentity {
+  return {
+    deviceId: identity.deviceId,
+    publicKey: toBase64(identity.keyPair.publicKey),
+    secretKey: toBase64(identity.keyPair.secretKey),
+  };
+}
+
+/**
+ * Restore an identity from storage.
+ * Returns null if the data is invalid.
+ */
+export function deserializeDeviceIdentity(
+  data: unknown,
+): DeviceIdentity | null {
+  const result = SerializedDeviceIdentitySchema.safeParse(data);
+  if (!result.success) return null;
+
+  try {
+    const publicKey = fromBase64(result.data.publicKey);
+    const secretKey = fromBase64(result.data.secretKey);
+    if (publicKey.length !== 32 || secretKey.length !== 64) return null;
+    return {
+      deviceId: result.data.deviceId,
+      keyPair: { publicKey, secretKey },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format an identity key's fingerprint for display, e.g.
+ * "3F9A 0C21 77E4 B810 5D2E 9A4C 01F3 6B7D".
+ */
+export function formatFingerprint(identityKey: Uint8Array | PublicKey): string {
+  const key =
+    typeof identityKey === "string" ? fromBase64(identityKey) : identityKey;
+  const hash = nacl.hash(key).slice(0, FINGERPRINT_BYTES);
+  const hex = Array.from(hash, (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+  return (hex.match(/.{4}/g) ?? []).join(" ").toUpperCase();
+}
+
+// ============================================================================
+// Handshake Signatures
+// ============================================================================
+
+/**
+ * Sign a handshake message with our identity. Returns a copy carrying the
+ * device id, identity key and signature.
+ */
+export function signHandshake<T extends SignedHandshakeMessage>(
+  message: T,
+  keys: HandshakeKeys,
+  identity: DeviceIdentity,
+): T {
+  const unsigned: T = {
+    ...message,
+    deviceId: identity.deviceId,
+    identityKey: toBase64(identity.keyPair.publicKey),
+  };
+  delete unsigned.signature;
+
+  const signature = sign(
+    handshakeTranscript(unsigned, keys),
+    identity.keyPair.secretKey,
+  );
+  return { ...unsigned, signature: toBase64(signature) };
+}
+
+/**
+ * Verify the identity signature on a handshake message.
+ * Only says the message was signed by the key it carries; use
+ * checkPeerTrust() to decide whether that key is the expected one.
+ */
+export function verifyHandshakeSignature(
+  message: SignedHandshakeMessage,
+  keys: HandshakeKeys,
+): boolean {
+  if (!message.identityKey || !message.signature || !message.deviceId) {
+    return false;
+  }
+
+  try {
+    return verify(
+      handshakeTranscript(message, keys),
+      fromBase64(message.signature),
+      fromBase64(message.identityKey),
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Trust on First Use
+// ============================================================================
+
+/**
+ * Verify a peer's signed handshake message and compare its identity with
+ * the pinned one.
+ */
+export function checkPeerTrust(
+  peers: TrustedPeers,
+  message: SignedHandshakeMessage,
+  keys: HandshakeKeys,
+): PeerTrustStatus {
+  if (!message.identityKey || !message.signature || !message.deviceId) {
+    return "unsigned";
+  }
+  if (!verifyHandshakeSignature(message, keys)) return "invalid_signature";
+
+  const known = peers[message.deviceId];
+  if (!known) return "new";
+
+  const role = message.type === "handshake_response" ? "mobile" : "desktop";
+  return known.identityKey === message.identityKey && known.role === role
+    ? "trusted"
+    : "changed";
+}
+
+/**
+ * Pin a peer's identity key, or refresh lastSeenAt for a trusted peer.
+ * Returns the updated peers; the input is not modified.
+ */
+export function trustPeer(
+  peers: TrustedPeers,
+  peer: {
+    deviceId: string;
+    role: ClientRole;
+    identityKey: PublicKey;
+    label?: string;
+  },
+  now: Timestamp = createTimestamp(),
+): TrustedPeers {
+  const known = peers[peer.deviceId];
+  const pairedAt =
+    known && known.identityKey === peer.identityKey ? known.pairedAt : now;
+
+  return {
+    ...peers,
+    [peer.deviceId]: {
+      ...peer,
+      label: peer.label ?? known?.label,
+      pairedAt,
+      lastSeenAt: now,
+    },
+  };
+}
+
+/**
+ * Remove a peer, e.g. when the user unpairs it.
+ * Returns the updated peers; the input is not modified.
+ */
+export function forgetPeer(
+  peers: TrustedPeers,
+  deviceId: string,
+): TrustedPeers {
+  return Object.fromEntries(
+    Object.entries(peers).filter(([id]) => id !== deviceId),
+  );
+}
+
+/**
+ * Parse stored trusted peers.
+ * Returns null if the data is invalid.
+ */
+export function parseTrustedPeers(data: unknown): TrustedPeers | null {
+  const result = TrustedPeersSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+/**
+ * Bytes covered by a handshake signature. Both sides' ephemeral keys are
+ * included, which is what ties the long-term identity to this session,
+ * and so is every negotiated field.
+ */
+function handshakeTranscript(
+  message: SignedHandshakeMessage,
+  keys: HandshakeKeys,
+): Uint8Array {
+  const fields =
+    message.type === "handshake_response"
+      ? [
+          message.commitment ?? null,
+          message.pairingProof ?? null,
+          message.versions ?? null,
+          message.capabilities ?? null,
+        ]
+      : [
+          message.success,
+          message.reason ?? null,
+          message.keyConfirmation ?? null,
+          message.version ?? null,
+          message.capabilities ?? null,
+        ];
+
+  return stringToBytes(
+    JSON.stringify([
+      "mcc-handshake-sig-v2",
+      message.type,
+      message.sessionId,
+      keys.desktopPublicKey,
+      keys.mobilePublicKey,
+      message.deviceId ?? null,
+      message.identityKey ?? null,
+      ...fields,
+    ]),
+  );
+}
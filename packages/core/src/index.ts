@@ -4,7 +4,19 @@
  * This package provides:
  * - End-to-end encryption utilities (TweetNaCl)
  * - Protocol types and Zod schemas
- * - QR code payload utilities for pairing
+ * - Relay wire format (framing between clients and the relay) and failover
+ * - QR code payload utilities for pairing, including mcc://pair links
+ * - Short-code pairing with a password-authenticated key exchange
+ * - Short authentication strings for verifying the handshake
+ * - A forward-secret ratchet cipher for session messages
+ * - Sequence-numbered envelopes with replay protection
+ * - Length padding and cover traffic to hide message sizes and timing
+ * - Payload compression negotiated during the handshake
+ * - Protocol version and capability negotiation
+ * - Device identity keys with trust on first use
+ * - Chunked encryption for large events
+ * - Passphrase-protected key storage
+ * - Permission policy and expiry for tool approvals
  */
 
 // Crypto utilities
@@ -20,8 +32,27 @@ export {
   decryptString,
   serializeEncryptedMessage,
   deserializeEncryptedMessage,
+  // Padding
+  PADDING_BUCKETS,
+  type PaddingOptions,
+  paddedLength,
+  padMessage,
+  unpadMessage,
   // Key exchange
   deriveSharedSecret,
+  // Key derivation
+  hmacSha512,
+  hkdf,
+  // Session keys
+  type SessionKeys,
+  deriveSessionKeys,
+  createKeyConfirmation,
+  verifyKeyConfirmation,
+  clearSessionKeys,
+  // Signatures
+  generateSigningKeyPair,
+  sign,
+  verify,
   // Utilities
   generateNonce,
   generateSessionId,
@@ -29,6 +60,7 @@ export {
   fromBase64,
   stringToBytes,
   bytesToString,
+  concatBytes,
   constantTimeEqual,
   clearBytes,
   // Types
@@ -50,26 +82,55 @@ export {
   type ClientRole,
   type Timestamp,
   // Handshake
+  PROTOCOL_VERSION,
+  CapabilitySchema,
+  type Capability,
   HandshakeInitSchema,
   HandshakeResponseSchema,
+  HandshakeNonceSchema,
+  HandshakeConfirmSchema,
+  HandshakeFailureReasonSchema,
   HandshakeCompleteSchema,
   HandshakeMessageSchema,
   type HandshakeInit,
   type HandshakeResponse,
+  type HandshakeNonce,
+  type HandshakeConfirm,
+  type HandshakeFailureReason,
   type HandshakeComplete,
   type HandshakeMessage,
   // Encrypted envelope
+  CompressionAlgorithmSchema,
+  type CompressionAlgorithm,
+  ENVELOPE_VERSION_UNPADDED,
+  ENVELOPE_VERSION_PADDED,
+  EnvelopeVersionSchema,
+  type EnvelopeVersion,
+  RatchetHeaderSchema,
+  type RatchetHeader,
+  EnvelopeChunkSchema,
+  type EnvelopeChunk,
   EncryptedEnvelopeSchema,
   type EncryptedEnvelope,
   // Agent states
   AgentStateSchema,
   type AgentState,
+  // Permissions
+  PermissionRuleSchema,
+  PermissionScopeSchema,
+  PermissionBehaviorSchema,
+  PermissionResolverSchema,
+  type PermissionRule,
+  type PermissionScope,
+  type PermissionBehavior,
+  type PermissionResolver,
   // Events (desktop → mobile)
   AgentStateEventSchema,
   TextContentEventSchema,
   ToolUseEventSchema,
   ToolResultEventSchema,
   PermissionRequestEventSchema,
+  PermissionResolvedEventSchema,
   DiffContentEventSchema,
   ErrorEventSchema,
   SessionEndedEventSchema,
@@ -79,6 +140,7 @@ export {
   type ToolUseEvent,
   type ToolResultEvent,
   type PermissionRequestEvent,
+  type PermissionResolvedEvent,
   type DiffContentEvent,
   type ErrorEvent,
   type SessionEndedEvent,
@@ -87,36 +149,357 @@ export {
   SendMessageCommandSchema,
   ApprovePermissionCommandSchema,
   RejectPermissionCommandSchema,
+  PermissionDecisionCommandSchema,
   CancelOperationCommandSchema,
   DisconnectCommandSchema,
   CommandSchema,
   type SendMessageCommand,
   type ApprovePermissionCommand,
   type RejectPermissionCommand,
+  type PermissionDecisionCommand,
   type CancelOperationCommand,
   type DisconnectCommand,
   type Command,
-  // Relay messages
-  RelayMessageSchema,
-  type RelayMessage,
   // Helpers
   createTimestamp,
+  toPermissionDecision,
   createEncryptedEnvelope,
 } from "./protocol";
 
+// Relay wire format
+export {
+  RELAY_PROTOCOL_VERSION,
+  JOIN_TOKEN_MIN_LENGTH,
+  // Client → relay
+  JoinFrameSchema,
+  MessageFrameSchema,
+  PingFrameSchema,
+  LeaveFrameSchema,
+  ConsumePairingFrameSchema,
+  RejectPeerFrameSchema,
+  ClientFrameSchema,
+  type JoinFrame,
+  type MessageFrame,
+  type PingFrame,
+  type LeaveFrame,
+  type ConsumePairingFrame,
+  type RejectPeerFrame,
+  type ClientFrame,
+  // Relay → client
+  JoinedFrameSchema,
+  PeerJoinedFrameSchema,
+  PeerLeftFrameSchema,
+  DeliverFrameSchema,
+  AckFrameSchema,
+  PongFrameSchema,
+  PairingConsumedFrameSchema,
+  RedirectFrameSchema,
+  RelayErrorCodeSchema,
+  ErrorFrameSchema,
+  RelayFrameSchema,
+  type JoinedFrame,
+  type PeerJoinedFrame,
+  type PeerLeftFrame,
+  type DeliverFrame,
+  type AckFrame,
+  type PongFrame,
+  type PairingConsumedFrame,
+  type RedirectFrame,
+  type RelayErrorCode,
+  type ErrorFrame,
+  type RelayFrame,
+  // Payloads
+  RelayPayloadSchema,
+  type RelayPayload,
+  // Encoders / decoders
+  type FrameBody,
+  encodeFrame,
+  decodeClientFrame,
+  decodeRelayFrame,
+  getFrameVersion,
+  encodeRelayPayload,
+  decodeRelayPayload,
+  // Failover
+  RELAY_RETRY_BASE_DELAY_MS,
+  RELAY_RETRY_MAX_DELAY_MS,
+  type RelayFailover,
+  createRelayFailover,
+  recordRelayFailure,
+  recordRelaySuccess,
+  followRelayRedirect,
+} from "./relay";
+
 // QR code utilities
 export {
   QR_PAYLOAD_VERSION,
+  KNOWN_RELAYS,
+  QR_PAYLOAD_TTL_MS,
+  PAIRING_SECRET_BYTES,
   QrPayloadSchema,
   type QrPayload,
+  type QrPayloadOptions,
+  type QrPayloadFormat,
+  type QrCodeDataOptions,
   createQrPayload,
+  generatePairingSecret,
+  getRelayUrls,
   serializeQrPayload,
   parseQrPayload,
   qrPayloadToHandshakeInit,
   createQrCodeData,
   parseQrCodeData,
   isVersionSupported,
+  // Expiry and single use
+  QrPayloadErrorSchema,
+  type QrPayloadError,
+  type QrPayloadValidation,
+  type QrPayloadValidationOptions,
+  validateQrPayload,
+  isQrPayloadExpired,
+  createPairingProof,
+  verifyPairingProof,
+  // Size
   estimatePayloadSize,
   isPayloadSizeOk,
   MAX_RECOMMENDED_PAYLOAD_SIZE,
+  // Binary format
+  serializeQrPayloadBinary,
+  parseQrPayloadBinary,
+  encodeBase45,
+  decodeBase45,
+  // Pairing links
+  PAIRING_LINK_SCHEME,
+  PAIRING_LINK_BASE,
+  createPairingLink,
+  isPairingLink,
+  parsePairingLink,
 } from "./qr-payload";
+
+// Short-code pairing
+export {
+  // Pairing codes
+  PAIRING_WORDS,
+  PAIRING_CODE_WORD_COUNT,
+  NameplateSchema,
+  type Nameplate,
+  type PairingCode,
+  generatePairingCode,
+  parsePairingCode,
+  formatPairingCode,
+  // Relay rendezvous
+  RENDEZVOUS_PATH,
+  CreateNameplateRequestSchema,
+  CreateNameplateResponseSchema,
+  ClaimNameplateResponseSchema,
+  RendezvousErrorSchema,
+  type CreateNameplateRequest,
+  type CreateNameplateResponse,
+  type ClaimNameplateResponse,
+  type RendezvousError,
+  // PAKE messages
+  PakeMessageSchema,
+  PakeConfirmSchema,
+  PairingMessageSchema,
+  type PakeMessage,
+  type PakeConfirm,
+  type PairingMessage,
+  // PAKE
+  type PakeState,
+  type PakeResult,
+  startPake,
+  finishPake,
+  verifyPakeConfirm,
+} from "./pairing";
+
+// Short authentication strings
+export {
+  SAS_NONCE_LENGTH,
+  SAS_DIGITS,
+  SAS_EMOJI_COUNT,
+  SAS_EMOJI,
+  type SasInput,
+  generateSasNonce,
+  createSasCommitment,
+  verifySasCommitment,
+  deriveSas,
+  sasToDigits,
+  sasToEmoji,
+} from "./sas";
+
+// Ratchet session cipher
+export {
+  RATCHET_MAX_SKIP,
+  RATCHET_MAX_SKIPPED_KEYS,
+  RATCHET_REKEY_INTERVAL,
+  type RatchetState,
+  type RatchetMessage,
+  createRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  isRekeyDue,
+  ratchetEncryptEnvelope,
+  ratchetDecryptEnvelope,
+  destroyRatchet,
+} from "./ratchet";
+
+// Sequence-numbered envelopes
+export {
+  ENVELOPE_REPLAY_WINDOW,
+  ENVELOPE_MAX_CLOCK_SKEW_MS,
+  ENVELOPE_MAX_AGE_MS,
+  EnvelopeErrorSchema,
+  type EnvelopeError,
+  type EnvelopeSender,
+  type EnvelopeSenderOptions,
+  type EnvelopeReceiver,
+  type EnvelopeTimeOptions,
+  type OpenEnvelopeResult,
+  type OpenEnvelopeBytesResult,
+  createEnvelopeSender,
+  createEnvelopeReceiver,
+  sealEnvelope,
+  sealEnvelopeBytes,
+  openEnvelope,
+  openEnvelopeBytes,
+  // Cover traffic
+  COVER_MESSAGE,
+  CoverTrafficConfigSchema,
+  type CoverTrafficConfig,
+  DEFAULT_COVER_TRAFFIC,
+  type CoverTraffic,
+  createCoverTraffic,
+  recordTraffic,
+  isCoverDue,
+  sealCoverEnvelope,
+  isCoverMessage,
+} from "./envelope";
+
+// Device identity
+export {
+  FINGERPRINT_BYTES,
+  type DeviceIdentity,
+  SerializedDeviceIdentitySchema,
+  type SerializedDeviceIdentity,
+  TrustedPeerSchema,
+  type TrustedPeer,
+  TrustedPeersSchema,
+  type TrustedPeers,
+  type PeerTrustStatus,
+  type SignedHandshakeMessage,
+  type HandshakeKeys,
+  generateDeviceIdentity,
+  serializeDeviceIdentity,
+  deserializeDeviceIdentity,
+  formatFingerprint,
+  signHandshake,
+  verifyHandshakeSignature,
+  checkPeerTrust,
+  trustPeer,
+  forgetPeer,
+  parseTrustedPeers,
+} from "./identity";
+
+// Chunked encryption
+export {
+  STREAM_HEADER_LENGTH,
+  STREAM_CHUNK_SIZE,
+  STREAM_MAX_BYTES,
+  STREAM_MAX_PENDING,
+  type StreamEncryptor,
+  type StreamDecryptor,
+  type StreamChunk,
+  type ChunkError,
+  type AddChunkResult,
+  type ChunkReassembler,
+  createStreamEncryptor,
+  encryptChunk,
+  createStreamDecryptor,
+  decryptChunk,
+  encryptStream,
+  decryptStream,
+  encryptChunkedEnvelopes,
+  createChunkReassembler,
+  addChunk,
+  pruneChunkStreams,
+} from "./stream";
+
+// Key storage
+export {
+  KEYSTORE_VERSION,
+  KEYSTORE_SCRYPT_DEFAULTS,
+  KeystoreKdfSchema,
+  type KeystoreKdf,
+  KeystoreEntryKindSchema,
+  type KeystoreEntryKind,
+  KeystoreEntrySchema,
+  type KeystoreEntry,
+  KeystoreSchema,
+  type Keystore,
+  type KeystoreSecret,
+  type UnlockedKeystore,
+  type KeystoreError,
+  type UnlockKeystoreResult,
+  type KeystoreOptions,
+  createKeystore,
+  unlockKeystore,
+  migrateKeystore,
+  changeKeystoreSecret,
+  keystoreNeedsRekey,
+  lockKeystore,
+  putKey,
+  getKey,
+  deleteKey,
+  importKeyPair,
+  setPeerFingerprint,
+  exportKeystore,
+  parseKeystore,
+} from "./keystore";
+
+// Payload compression
+export {
+  COMPRESSION_THRESHOLD,
+  DECOMPRESSED_MAX_BYTES,
+  type CompressOptions,
+  type CompressedPayload,
+  negotiateCompression,
+  compressPayload,
+  decompressPayload,
+} from "./compression";
+
+// Version and capability negotiation
+export {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LEGACY_PROTOCOL_VERSION,
+  SUPPORTED_CAPABILITIES,
+  type CapabilityOffer,
+  type NegotiatedCapabilities,
+  type NegotiateCapabilitiesResult,
+  createCapabilityOffer,
+  compareProtocolVersions,
+  negotiateProtocolVersion,
+  negotiateCapabilities,
+  acceptNegotiatedCapabilities,
+  negotiationTranscript,
+  hasCapability,
+} from "./capabilities";
+
+// Permission policy
+export {
+  PERMISSION_REQUEST_TTL_MS,
+  PermissionPolicyRuleSchema,
+  PermissionPolicySchema,
+  DEFAULT_PERMISSION_POLICY,
+  type PermissionPolicyRule,
+  type PermissionPolicy,
+  type ToolCall,
+  type PermissionDeadline,
+  // Rule matching
+  matchesPermissionRule,
+  evaluatePermissionPolicy,
+  applyPermissionDecision,
+  // Expiry and resolution
+  createPermissionDeadline,
+  isPermissionRequestExpired,
+  createPermissionResolvedEvent,
+  resolveExpiredPermission,
+} from "./permissions";
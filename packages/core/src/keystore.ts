@@ -0,0 +1,599 @@
+/**
+ * Encrypted at-rest storage for long-term keys.
+ *
+ * serializeKeyPair() writes secret keys as plain base64, which is fine on
+ * the wire but not on disk. A keystore wraps each key with secretbox under
+ * a key-encryption key derived either from a user passphrase (scrypt) or
+ * from a random secret the OS keeps for us, e.g. in the Keychain or
+ * expo-secure-store (HKDF). Metadata such as creation dates and the
+ * fingerprints of paired peers stays readable without unlocking, so the
+ * app can show it before asking for the passphrase. It is authenticated
+ * with a MAC under the key-encryption key, so unlocking detects a document
+ * whose metadata was changed by someone without the secret.
+ *
+ * The document is versioned. migrateKeystore() brings older documents,
+ * including the plaintext key pairs stored before keystores existed, up to
+ * the current version.
+ */
+
+import { scryptAsync } from "@noble/hashes/scrypt";
+import * as nacl from "tweetnacl";
+import { z } from "zod/v4";
+
+import type { SerializedKeyPair } from "./crypto";
+import type { Timestamp } from "./protocol";
+import {
+  clearBytes,
+  constantTimeEqual,
+  fromBase64,
+  generateNonce,
+  hkdf,
+  hmacSha512,
+  stringToBytes,
+  toBase64,
+} from "./crypto";
+import { createTimestamp, TimestampSchema } from "./protocol";
+
+/**
+ * Current keystore format version.
+ */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * Default scrypt cost: 2^15 × 8 × 128 bytes = 32 MiB, a few hundred
+ * milliseconds on a phone.
+ */
+export const KEYSTORE_SCRYPT_DEFAULTS = { N: 2 ** 15, r: 8, p: 1 } as const;
+
+/**
+ * Upper bounds on scrypt cost accepted from a document, so a tampered
+ * file cannot make unlocking exhaust memory or run for minutes. scrypt
+ * needs 128 × N × r bytes and does p times that much work.
+ */
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024; // 256 MiB
+const MAX_SCRYPT_WORK = 4 * MAX_SCRYPT_MEMORY;
+
+const SALT_LENGTH = 16;
+const MIN_OS_SECRET_LENGTH = 32;
+const VERIFIER_PLAINTEXT = "mcc-keystore-v1";
+
+/**
+ * How the key-encryption key is derived.
+ */
+export const KeystoreKdfSchema = z.discriminatedUnion("name", [
+  z
+    .object({
+      name: z.literal("scrypt"),
+      N: z
+        .number()
+        .int()
+        .min(2)
+        .max(MAX_SCRYPT_N)
+        .refine((n) => (n & (n - 1)) === 0, "N must be a power of two"),
+      r: z.number().int().min(1).max(32),
+      p: z.number().int().min(1).max(16),
+      /** Base64 salt */
+      salt: z.string().refine(isBase64, "salt must be base64"),
+    })
+    .refine(isScryptCostAllowed, "scrypt cost is too high"),
+  z.object({
+    /** A random secret held by the OS; no stretching needed */
+    name: z.literal("hkdf"),
+    /** Base64 salt */
+    salt: z.string().refine(isBase64, "salt must be base64"),
+  }),
+]);
+export type KeystoreKdf = z.infer<typeof KeystoreKdfSchema>;
+
+/**
+ * Kinds of key a keystore holds.
+ */
+export const KeystoreEntryKindSchema = z.enum(["identity", "session"]);
+export type KeystoreEntryKind = z.infer<typeof KeystoreEntryKindSchema>;
+
+/**
+ * One wrapped key.
+ */
+export const KeystoreEntrySchema = z.object({
+  kind: KeystoreEntryKindSchema,
+  /** Base64 public key, readable without unlocking */
+  publicKey: z.string().optional(),
+  /** Base64 secretbox nonce */
+  nonce: z.string(),
+  /** Base64 wrapped secret key */
+  ciphertext: z.string(),
+  label: z.string().optional(),
+  createdAt: TimestampSchema,
+});
+export type KeystoreEntry = z.infer<typeof KeystoreEntrySchema>;
+
+/**
+ * A keystore document as stored on disk.
+ */
+export const KeystoreSchema = z.object({
+  version: z.literal(KEYSTORE_VERSION),
+  kdf: KeystoreKdfSchema,
+  /** Base64 secretbox of a fixed string, to tell a wrong secret apart */
+  verifier: z.object({ nonce: z.string(), ciphertext: z.string() }),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+  /** Wrapped keys by name, e.g. "identity" */
+  entries: z.record(z.string(), KeystoreEntrySchema),
+  /** Fingerprints of paired peers by device id (see formatFingerprint) */
+  peerFingerprints: z.record(z.string(), z.string()),
+  /** Base64 MAC over everything else in the document */
+  mac: z.string().refine(isBase64, "mac must be base64"),
+});
+export type Keystore = z.infer<typeof KeystoreSchema>;
+
+/**
+ * Key pairs as stored before keystores existed: serializeKeyPair() output
+ * by name. Treated as version 0.
+ */
+const LegacyKeyPairsSchema = z
+  .record(
+    z.string(),
+    z.object({ publicKey: z.string(), secretKey: z.string() }),
+  )
+  .refine((keyPairs) => Object.keys(keyPairs).length > 0);
+
+/**
+ * What unlocks a keystore.
+ */
+export type KeystoreSecret =
+  | { passphrase: string }
+  /** Random bytes held by the OS (at least 32) */
+  | { osSecret: Uint8Array };
+
+/**
+ * A keystore together with its key-encryption key.
+ * Call lockKeystore() when done to wipe the key.
+ */
+export interface UnlockedKeystore {
+  data: Keystore;
+  key: Uint8Array;
+}
+
+export type KeystoreError =
+  | "invalid" // Not a keystore document
+  | "unsupported_version" // Written by a newer version of the app
+  | "wrong_secret" // The passphrase or OS secret does not match
+  | "tampered"; // The secret matches but the metadata was changed
+
+export type UnlockKeystoreResult =
+  | { ok: true; keystore: UnlockedKeystore; migrated: boolean }
+  | { ok: false; error: KeystoreError };
+
+export interface KeystoreOptions {
+  /** scrypt cost for passphrases (default: KEYSTORE_SCRYPT_DEFAULTS) */
+  scrypt?: { N: number; r: number; p: number };
+  now?: Timestamp;
+}
+
+// ============================================================================
+// Creating and Unlocking
+// ============================================================================
+
+/**
+ * Create an empty keystore protected by `secret`.
+ */
+export async function createKeystore(
+  secret: KeystoreSecret,
+  options: KeystoreOptions = {},
+): Promise<UnlockedKeystore> {
+  const now = options.now ?? createTimestamp();
+  const kdf = createKdf(secret, options);
+  const key = await deriveKey(secret, kdf);
+
+  const verifierNonce = generateNonce();
+  const keystore: UnlockedKeystore = {
+    key,
+    data: {
+      version: KEYSTORE_VERSION,
+      kdf,
+      verifier: {
+        nonce: toBase64(verifierNonce),
+        ciphertext: toBase64(
+          nacl.secretbox(stringToBytes(VERIFIER_PLAINTEXT), verifierNonce, key),
+        ),
+      },
+      createdAt: now,
+      updatedAt: now,
+      entries: {},
+      peerFingerprints: {},
+      mac: "",
+    },
+  };
+  sealMetadata(keystore);
+  return keystore;
+}
+
+/**
+ * Unlock a current keystore document.
+ * Use migrateKeystore() for documents that may be older.
+ */
+export async function unlockKeystore(
+  document: unknown,
+  secret: KeystoreSecret,
+): Promise<UnlockKeystoreResult> {
+  if (isNewerVersion(document)) {
+    return { ok: false, error: "unsupported_version" };
+  }
+
+  const parsed = KeystoreSchema.safeParse(document);
+  if (!parsed.success) return { ok: false, error: "invalid" };
+
+  let key: Uint8Array;
+  try {
+    key = await deriveKey(secret, parsed.data.kdf);
+  } catch {
+    return { ok: false, error: "wrong_secret" };
+  }
+  if (!checkVerifier(parsed.data, key)) {
+    clearBytes(key);
+    return { ok: false, error: "wrong_secret" };
+  }
+  const mac = metadataMac(parsed.data, key);
+  const matches = constantTimeEqual(mac, fromBase64(parsed.data.mac));
+  clearBytes(mac);
+  if (!matches) {
+    clearBytes(key);
+    return { ok: false, error: "tampered" };
+  }
+
+  return { ok: true, keystore: { data: parsed.data, key }, migrated: false };
+}
+
+/**
+ * Unlock a keystore document of any known version, upgrading it to the
+ * current one. Plaintext key pairs from before keystores are wrapped under
+ * `secret`. Persist `keystore.data` when `migrated` is true.
+ */
+export async function migrateKeystore(
+  document: unknown,
+  secret: KeystoreSecret,
+  options: KeystoreOptions = {},
+): Promise<UnlockKeystoreResult> {
+  const legacy = LegacyKeyPairsSchema.safeParse(document);
+  if (!legacy.success || isKeystoreLike(document)) {
+    return unlockKeystore(document, secret);
+  }
+
+  const keystore = await createKeystore(secret, options);
+  for (const [name, keyPair] of Object.entries(legacy.data)) {
+    if (!importKeyPair(keystore, name, "identity", keyPair, options.now)) {
+      lockKeystore(keystore);
+      return { ok: false, error: "invalid" };
+    }
+  }
+  return { ok: true, keystore, migrated: true };
+}
+
+/**
+ * Re-wrap every key under a new secret (or stronger scrypt parameters).
+ * Returns a new unlocked keystore; the old one is locked.
+ */
+export async function changeKeystoreSecret(
+  keystore: UnlockedKeystore,
+  secret: KeystoreSecret,
+  options: KeystoreOptions = {},
+): Promise<UnlockedKeystore> {
+  const next = await createKeystore(secret, options);
+  next.data.createdAt = keystore.data.createdAt;
+  next.data.peerFingerprints = { ...keystore.data.peerFingerprints };
+
+  for (const [name, entry] of Object.entries(keystore.data.entries)) {
+    const secretKey = unwrap(keystore.key, name, entry);
+    if (!secretKey) {
+      lockKeystore(next);
+      throw new Error(`Keystore entry "${name}" is corrupt`);
+    }
+    next.data.entries[name] = {
+      ...entry,
+      ...wrap(next.key, name, secretKey),
+    };
+    clearBytes(secretKey);
+  }
+  sealMetadata(next);
+
+  lockKeystore(keystore);
+  return next;
+}
+
+/**
+ * True if the keystore uses weaker scrypt parameters than `scrypt`, so it
+ * should be re-wrapped with changeKeystoreSecret().
+ */
+export function keystoreNeedsRekey(
+  keystore: Keystore,
+  scrypt: { N: number; r: number; p: number } = KEYSTORE_SCRYPT_DEFAULTS,
+): boolean {
+  const { kdf } = keystore;
+  if (kdf.name !== "scrypt") return false;
+  return kdf.N * kdf.r * kdf.p < scrypt.N * scrypt.r * scrypt.p;
+}
+
+/**
+ * Wipe the key-encryption key.
+ */
+export function lockKeystore(keystore: UnlockedKeystore): void {
+  clearBytes(keystore.key);
+}
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+/**
+ * Store a secret key under `name`, replacing any existing entry.
+ */
+export function putKey(
+  keystore: UnlockedKeystore,
+  name: string,
+  entry: {
+    kind: KeystoreEntryKind;
+    secretKey: Uint8Array;
+    publicKey?: Uint8Array;
+    label?: string;
+  },
+  now: Timestamp = createTimestamp(),
+): void {
+  keystore.data.entries[name] = {
+    kind: entry.kind,
+    publicKey: entry.publicKey ? toBase64(entry.publicKey) : undefined,
+    ...wrap(keystore.key, name, entry.secretKey),
+    label: entry.label,
+    createdAt: now,
+  };
+  touch(keystore, now);
+}
+
+/**
+ * Read the secret key stored under `name`.
+ * Returns null if there is no such entry or it fails to decrypt.
+ */
+export function getKey(
+  keystore: UnlockedKeystore,
+  name: string,
+): Uint8Array | null {
+  const entry = keystore.data.entries[name];
+  return entry ? unwrap(keystore.key, name, entry) : null;
+}
+
+/**
+ * Remove the entry stored under `name`.
+ */
+export function deleteKey(
+  keystore: UnlockedKeystore,
+  name: string,
+  now: Timestamp = createTimestamp(),
+): void {
+  keystore.data.entries = Object.fromEntries(
+    Object.entries(keystore.data.entries).filter(([id]) => id !== name),
+  );
+  touch(keystore, now);
+}
+
+/**
+ * Store a key pair in serializeKeyPair() form.
+ * Returns false if the key pair is not valid base64.
+ */
+export function importKeyPair(
+  keystore: UnlockedKeystore,
+  name: string,
+  kind: KeystoreEntryKind,
+  keyPair: SerializedKeyPair,
+  now: Timestamp = createTimestamp(),
+): boolean {
+  let publicKey: Uint8Array;
+  let secretKey: Uint8Array;
+  try {
+    publicKey = fromBase64(keyPair.publicKey);
+    secretKey = fromBase64(keyPair.secretKey);
+  } catch {
+    return false;
+  }
+
+  putKey(keystore, name, { kind, secretKey, publicKey }, now);
+  clearBytes(secretKey);
+  return true;
+}
+
+/**
+ * Record a paired peer's fingerprint, or remove it with `null`.
+ */
+export function setPeerFingerprint(
+  keystore: UnlockedKeystore,
+  deviceId: string,
+  fingerprint: string | null,
+  now: Timestamp = createTimestamp(),
+): void {
+  const rest = Object.entries(keystore.data.peerFingerprints).filter(
+    ([id]) => id !== deviceId,
+  );
+  keystore.data.peerFingerprints = Object.fromEntries(
+    fingerprint === null ? rest : [...rest, [deviceId, fingerprint]],
+  );
+  touch(keystore, now);
+}
+
+// ============================================================================
+// Import / Export
+// ============================================================================
+
+/**
+ * Serialize a keystore for storage or backup. Keys stay wrapped.
+ */
+export function exportKeystore(keystore: UnlockedKeystore | Keystore): string {
+  return JSON.stringify("key" in keystore ? keystore.data : keystore);
+}
+
+/**
+ * Parse an exported keystore without unlocking it, e.g. to show its
+ * metadata. Returns null if it is not a valid current keystore.
+ */
+export function parseKeystore(json: string): Keystore | null {
+  try {
+    const result = KeystoreSchema.safeParse(JSON.parse(json));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function createKdf(
+  secret: KeystoreSecret,
+  options: KeystoreOptions,
+): KeystoreKdf {
+  const salt = toBase64(nacl.randomBytes(SALT_LENGTH));
+  if ("osSecret" in secret) return { name: "hkdf", salt };
+
+  const { N, r, p } = options.scrypt ?? KEYSTORE_SCRYPT_DEFAULTS;
+  if (N > MAX_SCRYPT_N || !isScryptCostAllowed({ N, r, p })) {
+    throw new Error("scrypt cost is too high");
+  }
+  return { name: "scrypt", N, r, p, salt };
+}
+
+function isScryptCostAllowed(kdf: { N: number; r: number; p: number }) {
+  const memory = 128 * kdf.N * kdf.r;
+  return memory <= MAX_SCRYPT_MEMORY && memory * kdf.p <= MAX_SCRYPT_WORK;
+}
+
+function isBase64(value: string): boolean {
+  try {
+    fromBase64(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function deriveKey(
+  secret: KeystoreSecret,
+  kdf: KeystoreKdf,
+): Promise<Uint8Array> {
+  const salt = fromBase64(kdf.salt);
+
+  if (kdf.name === "hkdf") {
+    if (!("osSecret" in secret)) throw new Error("Keystore needs an OS secret");
+    if (secret.osSecret.length < MIN_OS_SECRET_LENGTH) {
+      throw new Error("OS secret is too short");
+    }
+    return hkdf(secret.osSecret, salt, "mcc-keystore-v1", 32);
+  }
+
+  if (!("passphrase" in secret)) throw new Error("Keystore needs a passphrase");
+  return scryptAsync(secret.passphrase.normalize("NFKC"), salt, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: 32,
+  });
+}
+
+function checkVerifier(keystore: Keystore, key: Uint8Array): boolean {
+  try {
+    const opened = nacl.secretbox.open(
+      fromBase64(keystore.verifier.ciphertext),
+      fromBase64(keystore.verifier.nonce),
+      key,
+    );
+    return opened !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The metadata MAC covers the whole document but the MAC itself, with
+ * object keys sorted so it does not depend on property order.
+ */
+function metadataMac(keystore: Keystore, key: Uint8Array): Uint8Array {
+  const macKey = hmacSha512(key, stringToBytes("mcc-keystore-mac")).slice(
+    0,
+    32,
+  );
+  const { mac: _, ...metadata } = keystore;
+  const mac = hmacSha512(macKey, stringToBytes(canonicalJson(metadata)));
+  clearBytes(macKey);
+  return mac.slice(0, 32);
+}
+
+function sealMetadata(keystore: UnlockedKeystore): void {
+  keystore.data.mac = toBase64(metadataMac(keystore.data, keystore.key));
+}
+
+function touch(keystore: UnlockedKeystore, now: Timestamp): void {
+  keystore.data.updatedAt = now;
+  sealMetadata(keystore);
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    typeof nested === "object" && nested !== null && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : nested,
+  );
+}
+
+/**
+ * Each entry is wrapped under a key bound to its name, so entries cannot
+ * be swapped around in the document.
+ */
+function entryKey(key: Uint8Array, name: string): Uint8Array {
+  return hmacSha512(key, stringToBytes(`mcc-keystore-entry|${name}`)).slice(
+    0,
+    32,
+  );
+}
+
+function wrap(
+  key: Uint8Array,
+  name: string,
+  secretKey: Uint8Array,
+): { nonce: string; ciphertext: string } {
+  const nonce = generateNonce();
+  const wrappingKey = entryKey(key, name);
+  const ciphertext = nacl.secretbox(secretKey, nonce, wrappingKey);
+  clearBytes(wrappingKey);
+  return { nonce: toBase64(nonce), ciphertext: toBase64(ciphertext) };
+}
+
+function unwrap(
+  key: Uint8Array,
+  name: string,
+  entry: KeystoreEntry,
+): Uint8Array | null {
+  const wrappingKey = entryKey(key, name);
+  try {
+    return nacl.secretbox.open(
+      fromBase64(entry.ciphertext),
+      fromBase64(entry.nonce),
+      wrappingKey,
+    );
+  } catch {
+    return null;
+  } finally {
+    clearBytes(wrappingKey);
+  }
+}
+
+function isKeystoreLike(document: unknown): boolean {
+  return (
+    typeof document === "object" && document !== null && "version" in document
+  );
+}
+
+function isNewerVersion(document: unknown): boolean {
+  if (!isKeystoreLike(document)) return false;
+  const { version } = document as { version: unknown };
+  return typeof version === "number" && version > KEYSTORE_VERSION;
+}
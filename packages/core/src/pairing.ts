@@ -0,0 +1,453 @@
+/**
+ * Short-code pairing, for when the phone cannot scan the desktop's QR code.
+ *
+ * The desktop shows a human-typeable code such as `7-purple-sausage`. The
+ * number is a nameplate the relay maps to the session id; the words are a
+ * low-entropy password the relay never sees. Both sides then run a
+ * password-authenticated key exchange (CPace over X25519) through the relay,
+ * so anyone in the middle, the relay included, gets a single online guess
+ * per pairing attempt and learns nothing that allows an offline attack.
+ */
+
+import * as nacl from "tweetnacl";
+import { z } from "zod/v4";
+
+import type { ClientRole, SessionId } from "./protocol";
+import {
+  concatBytes,
+  constantTimeEqual,
+  deriveSharedSecret,
+  fromBase64,
+  generateKeyPair,
+  hmacSha512,
+  stringToBytes,
+  toBase64,
+} from "./crypto";
+import {
+  ClientRoleSchema,
+  PublicKeySchema,
+  SessionIdSchema,
+  TimestampSchema,
+} from "./protocol";
+
+// ============================================================================
+// Pairing Codes
+// ============================================================================
+
+/**
+ * Word list for pairing codes. Exactly 256 entries, so each word encodes
+ * one random byte.
+ */
+// prettier-ignore
+export const PAIRING_WORDS: readonly string[] = [
+  "acid", "acorn", "actor", "adult", "agent", "alarm", "album", "alley",
+  "amber", "anchor", "angle", "ankle", "apple", "april", "apron", "arena",
+  "armor", "arrow", "atlas", "attic", "bacon", "badge", "bagel", "baker",
+  "bamboo", "banjo", "barrel", "basil", "beach", "beaver", "bench", "berry",
+  "bison", "blanket", "blender", "bonus", "boxer", "bridge", "broom", "bubble",
+  "bucket", "buffalo", "butter", "cabin", "cactus", "camel", "candle", "canoe",
+  "canvas", "carpet", "carrot", "castle", "cello", "cherry", "chess", "cider",
+  "circus", "clover", "cobalt", "cobra", "cocoa", "comet", "copper", "coral",
+  "cotton", "crayon", "cricket", "crimson", "crystal", "cupcake", "daisy",
+  "dancer", "denim", "desert", "dolphin", "donkey", "dragon", "drum", "eagle",
+  "easel", "echo", "elbow", "ember", "engine", "falcon", "fender", "ferry",
+  "fiddle", "flute", "forest", "fossil", "fox", "galaxy", "garden", "garlic",
+  "gecko", "geyser", "ginger", "glacier", "gopher", "granite", "gravy",
+  "guitar", "hammer", "harbor", "hazel", "helmet", "hippo", "honey", "hornet",
+  "igloo", "indigo", "island", "ivory", "jacket", "jaguar", "jelly", "jigsaw",
+  "jungle", "kayak", "kettle", "kiwi", "koala", "ladder", "lagoon", "lantern",
+  "laser", "lemon", "lizard", "lobster", "locket", "magnet", "mango", "maple",
+  "marble", "maroon", "meadow", "melon", "meteor", "mitten", "monkey", "mosaic",
+  "muffin", "napkin", "nebula", "needle", "nickel", "noodle", "nugget", "oasis",
+  "ocean", "octopus", "olive", "onion", "orange", "orbit", "orchid", "otter",
+  "oyster", "paddle", "panda", "panther", "papaya", "parrot", "peanut",
+  "pebble", "pepper", "piano", "pickle", "pigeon", "pillow", "pirate", "pizza",
+  "planet", "plum", "pocket", "pony", "popcorn", "potato", "pretzel", "puffin",
+  "pumpkin", "purple", "puzzle", "python", "quartz", "quilt", "rabbit", "radar",
+  "radish", "raisin", "ranger", "raven", "ribbon", "rocket", "rodeo", "ruby",
+  "saddle", "salmon", "sandal", "sausage", "scarf", "scooter", "seagull",
+  "shadow", "shovel", "silver", "sketch", "slipper", "socket", "spider",
+  "spinach", "sponge", "sprout", "squid", "statue", "sugar", "summit", "sunset",
+  "tablet", "taco", "tango", "teapot", "tennis", "thunder", "tiger", "toast",
+  "tomato", "topaz", "tractor", "trumpet", "tulip", "tundra", "turnip",
+  "turtle", "unicorn", "vacuum", "valley", "vanilla", "velvet", "violin",
+  "volcano", "waffle", "walnut", "walrus", "whale", "whistle", "willow",
+  "window", "wizard", "wombat", "yellow", "yogurt", "zebra", "zigzag", "zipper",
+];
+
+/**
+ * Number of words in a pairing code (16 bits of password entropy).
+ */
+export const PAIRING_CODE_WORD_COUNT = 2;
+
+/**
+ * A parsed pairing code.
+ */
+export interface PairingCode {
+  /** Relay nameplate, a short decimal number */
+  nameplate: string;
+  /** Password words, never sent to the relay */
+  words: string[];
+}
+
+/**
+ * Relay nameplate: a positive decimal number without leading zeros.
+ */
+export const NameplateSchema = z.string().regex(/^[1-9][0-9]*$/);
+export type Nameplate = z.infer<typeof NameplateSchema>;
+
+/**
+ * Generate a pairing code for a nameplate allocated by the relay.
+ */
+export function generatePairingCode(nameplate: Nameplate): string {
+  const words = Array.from(nacl.randomBytes(PAIRING_CODE_WORD_COUNT), (byte) =>
+    pairingWord(byte),
+  );
+  return formatPairingCode({ nameplate, words });
+}
+
+/**
+ * Parse a pairing code as typed by a user.
+ * Case, surrounding whitespace and space/underscore separators are forgiven.
+ * Returns null if the code is malformed or uses unknown words.
+ */
+export function parsePairingCode(input: string): PairingCode | null {
+  const [nameplate, ...words] = input
+    .trim()
+    .toLowerCase()
+    .split(/[\s_-]+/);
+
+  if (
+    !nameplate ||
+    !NameplateSchema.safeParse(nameplate).success ||
+    words.length !== PAIRING_CODE_WORD_COUNT ||
+    !words.every((word) => PAIRING_WORDS.includes(word))
+  ) {
+    return null;
+  }
+
+  return { nameplate, words };
+}
+
+/**
+ * Format a pairing code in its canonical `7-purple-sausage` form.
+ */
+export function formatPairingCode(code: PairingCode): string {
+  return [code.nameplate, ...code.words].join("-");
+}
+
+function pairingWord(index: number): string {
+  const word = PAIRING_WORDS[index];
+  if (word === undefined) {
+    throw new Error(`No pairing word at index ${index}`);
+  }
+  return word;
+}
+
+// ============================================================================
+// Relay Rendezvous
+// ============================================================================
+
+/**
+ * HTTP path of the relay's rendezvous endpoint.
+ *
+ * - `POST {path}` with a CreateNameplateRequest allocates a nameplate
+ * - `POST {path}/:nameplate/claim` resolves it to the session id, once
+ */
+export const RENDEZVOUS_PATH = "/pairing";
+
+/**
+ * Ask the relay for a nameplate pointing at a session (desktop → relay).
+ * Only the desktop holding the session may point a nameplate at it.
+ */
+export const CreateNameplateRequestSchema = z.object({
+  sessionId: SessionIdSchema,
+  /** The desktop's join token for the session */
+  token: z.string().min(1),
+});
+export type CreateNameplateRequest = z.infer<
+  typeof CreateNameplateRequestSchema
+>;
+
+/**
+ * A freshly allocated nameplate (relay → desktop).
+ */
+export const CreateNameplateResponseSchema = z.object({
+  nameplate: NameplateSchema,
+  /** When the relay forgets the nameplate if nobody claims it */
+  expiresAt: TimestampSchema,
+});
+export type CreateNameplateResponse = z.infer<
+  typeof CreateNameplateResponseSchema
+>;
+
+/**
+ * The session a claimed nameplate pointed at (relay → mobile).
+ * Claiming consumes the nameplate.
+ */
+export const ClaimNameplateResponseSchema = z.object({
+  sessionId: SessionIdSchema,
+});
+export type ClaimNameplateResponse = z.infer<
+  typeof ClaimNameplateResponseSchema
+>;
+
+/**
+ * Error body returned by the rendezvous endpoint.
+ */
+export const RendezvousErrorSchema = z.object({
+  error: z.enum([
+    "invalid_request",
+    "rate_limited",
+    "not_session_owner",
+    "nameplates_exhausted",
+    "unknown_nameplate",
+  ]),
+  /** Set on rate_limited: how long to wait before retrying */
+  retryAfterMs: z.number().int().nonnegative().optional(),
+});
+export type RendezvousError = z.infer<typeof RendezvousErrorSchema>;
+
+// ============================================================================
+// PAKE Messages
+// ============================================================================
+
+/**
+ * First PAKE message, sent by both sides through the relay.
+ */
+export const PakeMessageSchema = z.object({
+  type: z.literal("pake"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** Base64 X25519 element: ephemeral scalar times the code's generator */
+  element: PublicKeySchema,
+});
+export type PakeMessage = z.infer<typeof PakeMessageSchema>;
+
+/**
+ * Key confirmation, sent by both sides once they derived the key.
+ * A mismatch means the codes differed (or someone guessed and failed).
+ */
+export const PakeConfirmSchema = z.object({
+  type: z.literal("pake_confirm"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** Base64 MAC proving knowledge of the derived key */
+  mac: z.string(),
+});
+export type PakeConfirm = z.infer<typeof PakeConfirmSchema>;
+
+/**
+ * Union of all pairing messages.
+ */
+export const PairingMessageSchema = z.discriminatedUnion("type", [
+  PakeMessageSchema,
+  PakeConfirmSchema,
+]);
+export type PairingMessage = z.infer<typeof PairingMessageSchema>;
+
+// ============================================================================
+// PAKE (CPace over X25519)
+// ============================================================================
+
+const PAKE_CONTEXT = "mcc-pake-v1";
+
+/**
+ * One side of a PAKE run, between startPake() and finishPake().
+ */
+export interface PakeState {
+  sessionId: SessionId;
+  role: ClientRole;
+  /** Ephemeral scalar; clear it with clearBytes() once finished */
+  secretKey: Uint8Array;
+  element: Uint8Array;
+}
+
+/**
+ * Outcome of a PAKE run. The key must not be used until the peer's
+ * confirmation has been checked with verifyPakeConfirm().
+ */
+export interface PakeResult {
+  /** 32-byte session key, usable with encrypt()/decrypt() */
+  sharedKey: Uint8Array;
+  /** Our key confirmation, to send to the peer */
+  confirm: PakeConfirm;
+  /** The MAC the peer's confirmation must carry */
+  peerMac: Uint8Array;
+}
+
+/**
+ * Start a PAKE run for a pairing code.
+ * Returns null if the code is malformed.
+ */
+export function startPake(
+  code: string,
+  sessionId: SessionId,
+  role: ClientRole,
+): { state: PakeState; message: PakeMessage } | null {
+  const parsed = parsePairingCode(code);
+  if (!parsed) return null;
+
+  // The generator is secret to everyone who does not know the code, so an
+  // element reveals nothing that lets the code be brute forced offline
+  const generator = hashToCurve(
+    `${PAKE_CONTEXT}|${sessionId}|${formatPairingCode(parsed)}`,
+  );
+  const { secretKey } = generateKeyPair();
+  const element = nacl.scalarMult(secretKey, generator);
+
+  return {
+    state: { sessionId, role, secretKey, element },
+    message: { type: "pake", sessionId, role, element: toBase64(element) },
+  };
+}
+
+/**
+ * Derive the session key from the peer's PAKE message.
+ * Returns null if the message is for another session or role, or carries
+ * an invalid element.
+ */
+export function finishPake(
+  state: PakeState,
+  peer: PakeMessage,
+): PakeResult | null {
+  if (peer.sessionId !== state.sessionId || peer.role === state.role) {
+    return null;
+  }
+
+  let peerElement: Uint8Array;
+  try {
+    peerElement = fromBase64(peer.element);
+  } catch {
+    return null;
+  }
+  if (peerElement.length !== 32 || isLowOrderPoint(peerElement)) return null;
+
+  const secret = deriveSharedSecret(state.secretKey, peerElement);
+  const [desktopElement, mobileElement] =
+    state.role === "desktop"
+      ? [state.element, peerElement]
+      : [peerElement, state.element];
+
+  // Bind the key to the whole transcript, not just the DH output
+  const keyMaterial = hmacSha512(
+    secret,
+    concatBytes(
+      stringToBytes(`${PAKE_CONTEXT}|${state.sessionId}`),
+      desktopElement,
+      mobileElement,
+    ),
+  );
+  const sharedKey = keyMaterial.slice(0, 32);
+  const confirmKey = keyMaterial.slice(32);
+  const peerRole: ClientRole = state.role === "desktop" ? "mobile" : "desktop";
+
+  const result: PakeResult = {
+    sharedKey,
+    confirm: {
+      type: "pake_confirm",
+      sessionId: state.sessionId,
+      role: state.role,
+      mac: toBase64(confirmationMac(confirmKey, state.role)),
+    },
+    peerMac: confirmationMac(confirmKey, peerRole),
+  };
+
+  secret.fill(0);
+  keyMaterial.fill(0);
+  return result;
+}
+
+/**
+ * Check the peer's key confirmation in constant time.
+ */
+export function verifyPakeConfirm(
+  result: PakeResult,
+  confirm: PakeConfirm,
+): boolean {
+  try {
+    return constantTimeEqual(fromBase64(confirm.mac), result.peerMac);
+  } catch {
+    return false;
+  }
+}
+
+function confirmationMac(confirmKey: Uint8Array, role: ClientRole): Uint8Array {
+  return hmacSha512(confirmKey, stringToBytes(`confirm|${role}`)).slice(0, 32);
+}
+
+// ============================================================================
+// Curve25519 Helpers
+// ============================================================================
+
+/** Field prime 2^255 - 19 */
+const P = 2n ** 255n - 19n;
+
+/** Montgomery curve coefficient A of Curve25519 */
+const CURVE_A = 486662n;
+
+/**
+ * u-coordinates of the points of small order (and their twist
+ * counterparts). X25519 maps all of them to an all-zero secret.
+ */
+const LOW_ORDER_POINTS = [
+  0n,
+  1n,
+  325606250916557431795983626356110631294008115727848805560023387167927233504n,
+  39382357235489614581723060781553021112529911719440698176882885853963445705823n,
+  P - 1n,
+];
+
+function mod(x: bigint): bigint {
+  return ((x % P) + P) % P;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+  }
+  return result;
+}
+
+/**
+ * Decode a little-endian u-coordinate, ignoring the top bit like X25519.
+ */
+function decodeFieldElement(bytes: Uint8Array): bigint {
+  let x = 0n;
+  for (let i = 31; i >= 0; i--) {
+    x = (x << 8n) | BigInt(bytes[i] ?? 0);
+  }
+  return mod(x & ((1n << 255n) - 1n));
+}
+
+function encodeFieldElement(x: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  let rest = x;
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(rest & 0xffn);
+    rest >>= 8n;
+  }
+  return bytes;
+}
+
+function isLowOrderPoint(u: Uint8Array): boolean {
+  return LOW_ORDER_POINTS.includes(decodeFieldElement(u));
+}
+
+/**
+ * Map a label to a Curve25519 point using Elligator 2.
+ * The result is always on the curve, never the twist.
+ */
+function hashToCurve(label: string): Uint8Array {
+  const r = decodeFieldElement(nacl.hash(stringToBytes(label)).slice(0, 32));
+
+  // 2 is a non-square mod P, so 1 + 2r^2 is never zero
+  const w = mod(-CURVE_A * modPow(1n + 2n * r * r, P - 2n));
+  const rhs = mod(w * w * w + CURVE_A * w * w + w);
+  const isSquare = modPow(rhs, (P - 1n) / 2n) !== P - 1n;
+
+  return encodeFieldElement(isSquare ? w : mod(-w - CURVE_A));
+}
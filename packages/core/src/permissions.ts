@@ -0,0 +1,373 @@
+/**
+ * Desktop-side permission policy.
+ *
+ * A permission request waits for an answer from the desktop user or the
+ * phone, but a phone may be asleep. Each request therefore carries an
+ * expiry and a default action. The policy decides the default: rules match
+ * tool calls by tool name and argument patterns, in Claude Code's settings
+ * syntax, and requests no rule covers fall back to the policy's default.
+ * When the request expires unanswered, the desktop applies the default and
+ * announces it in a permission_resolved event like any other answer.
+ *
+ * Rule syntax:
+ * - "Bash" matches every call of a tool; "mcp__github" every tool of an
+ *   MCP server
+ * - "Bash(npm test)" matches that exact command, "Bash(npm test:*)" any
+ *   command starting with it
+ * - "Edit(src/**)" matches file paths by glob; relative globs are resolved
+ *   against the policy's project root, absolute ones match from /
+ * - "WebFetch(domain:example.com)" matches URLs on that host
+ *
+ * File paths are normalized before matching, so "src/../../etc/passwd"
+ * does not match "Edit(src/**)". Without a project root, relative globs
+ * only match relative paths that stay inside the working directory.
+ *
+ * A shell command chaining several commands only matches an allow rule if
+ * every command in the chain does, and never if it uses command
+ * substitution, parameter expansion or redirection. Deny rules win over
+ * allow rules.
+ */
+
+import { z } from "zod/v4";
+
+import type {
+  PermissionBehavior,
+  PermissionDecisionCommand,
+  PermissionRequestEvent,
+  PermissionResolvedEvent,
+  PermissionResolver,
+  PermissionRule,
+} from "./protocol";
+import { PermissionBehaviorSchema, PermissionRuleSchema } from "./protocol";
+
+/**
+ * Default time the phone has to answer a permission request.
+ */
+export const PERMISSION_REQUEST_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * A rule and what it does to matching calls.
+ */
+export const PermissionPolicyRuleSchema = z.object({
+  rule: PermissionRuleSchema,
+  behavior: PermissionBehaviorSchema,
+});
+export type PermissionPolicyRule = z.infer<typeof PermissionPolicyRuleSchema>;
+
+export const PermissionPolicySchema = z.object({
+  rules: z.array(PermissionPolicyRuleSchema).default([]),
+  /** Applied to expired requests that no rule matches */
+  defaultAction: PermissionBehaviorSchema.default("deny"),
+  /** How long a request waits for an answer */
+  timeoutMs: z.number().int().positive().default(PERMISSION_REQUEST_TTL_MS),
+  /** Absolute directory that relative path rules are resolved against */
+  projectRoot: z.string().startsWith("/").optional(),
+});
+export type PermissionPolicy = z.infer<typeof PermissionPolicySchema>;
+
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
+  rules: [],
+  defaultAction: "deny",
+  timeoutMs: PERMISSION_REQUEST_TTL_MS,
+};
+
+/**
+ * A tool call awaiting permission.
+ */
+export interface ToolCall {
+  tool: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * The deadline fields of a permission_request event.
+ */
+export interface PermissionDeadline {
+  expiresAt: number;
+  defaultAction: PermissionBehavior;
+}
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+/**
+ * Check whether a rule matches a single tool call. Relative paths and path
+ * rules are resolved against `projectRoot` if given.
+ */
+export function matchesPermissionRule(
+  rule: PermissionRule,
+  call: ToolCall,
+  projectRoot?: string,
+): boolean {
+  const parsed = RULE_PATTERN.exec(rule);
+  const tool = parsed?.[1];
+  if (!tool) return false;
+
+  const specifier = parsed[2];
+  if (specifier === undefined) {
+    return call.tool === tool || call.tool.startsWith(`${tool}__`);
+  }
+  if (call.tool !== tool) return false;
+
+  if (tool === "Bash") {
+    const command = stringInput(call, "command")?.trim();
+    if (command === undefined) return false;
+    return specifier.endsWith(":*")
+      ? isCommandPrefix(specifier.slice(0, -2), command)
+      : command === specifier;
+  }
+
+  if (tool === "WebFetch") {
+    const host = hostOf(stringInput(call, "url"));
+    return (
+      specifier.startsWith("domain:") &&
+      host === specifier.slice("domain:".length).toLowerCase()
+    );
+  }
+
+  const pathKey = PATH_INPUTS[tool];
+  const path = pathKey ? stringInput(call, pathKey) : undefined;
+  const resolved = path === undefined ? null : resolvePath(path, projectRoot);
+  const glob = resolvePath(specifier, projectRoot);
+  return (
+    resolved !== null &&
+    glob !== null &&
+    // A relative glob never matches an absolute path, and the other way round
+    resolved.startsWith("/") === glob.startsWith("/") &&
+    globToRegExp(glob).test(resolved)
+  );
+}
+
+/**
+ * Decide a tool call from the policy's rules.
+ *
+ * @returns "deny" if any deny rule matches, "allow" if allow rules cover
+ * the whole call, or null if the rules do not decide it
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy,
+  call: ToolCall,
+): PermissionBehavior | null {
+  const rulesFor = (behavior: PermissionBehavior) =>
+    policy.rules.filter((r) => r.behavior === behavior).map((r) => r.rule);
+  const matches = (rules: PermissionRule[], c: ToolCall) =>
+    rules.some((rule) => matchesPermissionRule(rule, c, policy.projectRoot));
+  const { calls, allowable } = splitToolCall(call);
+
+  if (calls.some((c) => matches(rulesFor("deny"), c))) return "deny";
+
+  if (allowable && calls.every((c) => matches(rulesFor("allow"), c))) {
+    return "allow";
+  }
+  return null;
+}
+
+/**
+ * Add the rule from a session or always decision to a policy, so later
+ * matching calls are decided without asking. A decision without a rule
+ * covers the whole tool.
+ *
+ * @returns The updated policy; one-off decisions leave it unchanged
+ */
+export function applyPermissionDecision(
+  policy: PermissionPolicy,
+  decision: PermissionDecisionCommand,
+  tool: string,
+): PermissionPolicy {
+  if (decision.scope === "once") return policy;
+  return {
+    ...policy,
+    rules: [
+      ...policy.rules,
+      { rule: decision.rule ?? tool, behavior: decision.behavior },
+    ],
+  };
+}
+
+// ============================================================================
+// Expiry and Resolution
+// ============================================================================
+
+/**
+ * Work out when a request for this call expires and what happens then,
+ * to spread into the permission_request event.
+ */
+export function createPermissionDeadline(
+  policy: PermissionPolicy,
+  call: ToolCall,
+  now = Date.now(),
+): PermissionDeadline {
+  return {
+    expiresAt: now + policy.timeoutMs,
+    defaultAction:
+      evaluatePermissionPolicy(policy, call) ?? policy.defaultAction,
+  };
+}
+
+/**
+ * Check whether a permission request has passed its deadline.
+ * Requests without an expiry never expire.
+ */
+export function isPermissionRequestExpired(
+  request: Pick<PermissionRequestEvent, "expiresAt">,
+  now = Date.now(),
+): boolean {
+  return request.expiresAt !== undefined && now >= request.expiresAt;
+}
+
+/**
+ * Build the permission_resolved event for a decision from the desktop or
+ * the phone.
+ */
+export function createPermissionResolvedEvent(
+  decision: PermissionDecisionCommand,
+  resolvedBy: PermissionResolver,
+  now = Date.now(),
+): PermissionResolvedEvent {
+  return {
+    type: "permission_resolved",
+    requestId: decision.requestId,
+    behavior: decision.behavior,
+    scope: decision.scope,
+    ...(decision.rule === undefined ? {} : { rule: decision.rule }),
+    resolvedBy,
+    timestamp: now,
+  };
+}
+
+/**
+ * Resolve a request nobody answered in time with its default action.
+ * Attributed to the policy if one of its rules decided the call, to the
+ * timeout otherwise.
+ *
+ * @returns The event, or null if the request has not expired
+ */
+export function resolveExpiredPermission(
+  request: PermissionRequestEvent,
+  policy: PermissionPolicy,
+  now = Date.now(),
+): PermissionResolvedEvent | null {
+  if (!isPermissionRequestExpired(request, now)) return null;
+
+  const call = { tool: request.tool, input: request.input };
+  const ruled = evaluatePermissionPolicy(policy, call);
+  return {
+    type: "permission_resolved",
+    requestId: request.requestId,
+    behavior: ruled ?? request.defaultAction ?? policy.defaultAction,
+    scope: "once",
+    resolvedBy: ruled ? "policy" : "timeout",
+    timestamp: now,
+  };
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+// Tool name in group 1, specifier in group 2
+const RULE_PATTERN = /^([\w-]+)(?:\((.+)\))?$/;
+
+// Input field holding the path each file tool acts on
+const PATH_INPUTS: Partial<Record<string, string>> = {
+  Read: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+const SHELL_SEPARATOR = /&&|\|\||[;|&\n]/;
+// Substitution and expansion ($(...), ${...}, $VAR, `...`), redirection
+// and process substitution (<(...), >(...))
+const SHELL_UNSAFE = /`|\$(?!\s|$)|[<>]/;
+
+function stringInput(call: ToolCall, key: string): string | undefined {
+  const value = call.input?.[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Split a chained shell command into its parts, so each one is checked
+ * against the rules on its own.
+ */
+function splitToolCall(call: ToolCall): {
+  calls: ToolCall[];
+  allowable: boolean;
+} {
+  const command =
+    call.tool === "Bash" ? stringInput(call, "command") : undefined;
+  if (command === undefined) return { calls: [call], allowable: true };
+
+  const parts = command
+    .split(SHELL_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  return {
+    calls: parts.map((part) => ({ ...call, input: { command: part } })),
+    allowable: parts.length > 0 && !SHELL_UNSAFE.test(command),
+  };
+}
+
+function isCommandPrefix(prefix: string, command: string): boolean {
+  return (
+    command === prefix ||
+    (command.startsWith(prefix) && /\s/.test(command.charAt(prefix.length)))
+  );
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (url === undefined) return null;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a path, resolving "." and ".." segments. Relative paths are
+ * resolved against `root` if given.
+ *
+ * @returns The path, or null if a relative path climbs above its start
+ */
+function resolvePath(path: string, root: string | undefined): string | null {
+  const full =
+    root !== undefined && !path.startsWith("/") ? `${root}/${path}` : path;
+  const absolute = full.startsWith("/");
+
+  const segments: string[] = [];
+  for (const segment of full.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment !== "..") {
+      segments.push(segment);
+    } else if (segments.length > 0) {
+      segments.pop();
+    } else if (!absolute) {
+      return null;
+    }
+  }
+  return (absolute ? "/" : "") + segments.join("/");
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case "**/":
+          return "(?:.*/)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      }
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
@@ -42,6 +42,32 @@ export type Timestamp = z.infer<typeof TimestampSchema>;
 // Handshake Messages
 // ============================================================================
 
+/**
+ * Version of the session protocol, mixed into the session keys.
+ * The newest version this build speaks; see capabilities.ts.
+ */
+export const PROTOCOL_VERSION = "1.0";
+
+/**
+ * Optional protocol features, agreed during the handshake.
+ * Peers ignore capability names they do not know, so new ones can be
+ * added without breaking older apps.
+ */
+export const CapabilitySchema = z.enum([
+  "compression", // Compressed envelope payloads (see compression.ts)
+  "chunking", // Large events split into chunk envelopes (see stream.ts)
+  "ratchet", // Ratchet session cipher (see ratchet.ts)
+  "padding", // Padded envelopes and cover traffic (see envelope.ts)
+  "attachments", // File and image attachments
+]);
+export type Capability = z.infer<typeof CapabilitySchema>;
+
+/**
+ * Payload compression algorithms (see compression.ts).
+ */
+export const CompressionAlgorithmSchema = z.enum(["deflate"]);
+export type CompressionAlgorithm = z.infer<typeof CompressionAlgorithmSchema>;
+
 /**
  * Initial handshake data sent via QR code (desktop → mobile).
  * Contains the session ID, desktop's public key, and relay URL.
@@ -51,7 +77,13 @@ export const HandshakeInitSchema = z.object({
   sessionId: SessionIdSchema,
   desktopPublicKey: PublicKeySchema,
   relayUrl: z.url(),
-  version: z.string().default("1.0"),
+  /** Relays to fail over to, in order, if relayUrl is unreachable */
+  fallbackRelayUrls: z.array(z.url()).optional(),
+  version: z.string().default(PROTOCOL_VERSION),
+  /** When the QR code stops being valid (see validateQrPayload) */
+  expiresAt: TimestampSchema.optional(),
+  /** Base64 one-time secret the mobile proves it saw (see pairingProof) */
+  pairingSecret: z.string().optional(),
 });
 export type HandshakeInit = z.infer<typeof HandshakeInitSchema>;
 
@@ -62,17 +94,96 @@ export const HandshakeResponseSchema = z.object({
   type: z.literal("handshake_response"),
   sessionId: SessionIdSchema,
   mobilePublicKey: PublicKeySchema,
+  /**
+   * Base64 commitment to the mobile's SAS nonce (see createSasCommitment).
+   * Required for short authentication string verification.
+   */
+  commitment: z.string().optional(),
+  /** Stable id of the mobile device (see identity.ts) */
+  deviceId: z.string().min(1).optional(),
+  /** Mobile's long-term Ed25519 identity key (base64) */
+  identityKey: PublicKeySchema.optional(),
+  /** Base64 signature by the identity key (see signHandshake) */
+  signature: z.string().optional(),
+  /**
+   * Base64 MAC proving the mobile scanned the QR code's one-time secret
+   * (see createPairingProof). Required when the QR code had one.
+   */
+  pairingProof: z.string().optional(),
+  /** Protocol versions the mobile speaks; absent means only "1.0" */
+  versions: z.array(z.string()).optional(),
+  /** Capabilities the mobile supports, including ones we may not know */
+  capabilities: z.array(z.string()).optional(),
 });
 export type HandshakeResponse = z.infer<typeof HandshakeResponseSchema>;
 
+/**
+ * SAS nonce exchange (via relay). The desktop sends its nonce once it has
+ * the mobile's commitment; the mobile then reveals the committed nonce.
+ */
+export const HandshakeNonceSchema = z.object({
+  type: z.literal("handshake_nonce"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** Base64 random nonce */
+  nonce: z.string(),
+});
+export type HandshakeNonce = z.infer<typeof HandshakeNonceSchema>;
+
+/**
+ * The user's verdict after comparing the short authentication strings
+ * shown on both devices (either side → peer via relay).
+ */
+export const HandshakeConfirmSchema = z.object({
+  type: z.literal("handshake_confirm"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** True if the user confirmed both devices show the same string */
+  confirmed: z.boolean(),
+});
+export type HandshakeConfirm = z.infer<typeof HandshakeConfirmSchema>;
+
+/**
+ * Why a handshake was aborted.
+ */
+export const HandshakeFailureReasonSchema = z.enum([
+  "sas_mismatch", // A user reported the strings differ
+  "invalid_commitment", // The revealed nonce did not match its commitment
+  "timeout", // Verification was not completed in time
+  "unsupported_version", // No protocol version in common
+]);
+export type HandshakeFailureReason = z.infer<
+  typeof HandshakeFailureReasonSchema
+>;
+
 /**
  * Final handshake confirmation (desktop → mobile via relay).
- * After this, both sides have derived the shared secret.
+ * After a success, both sides have derived the session keys (see
+ * deriveSessionKeys); after a failure, both must discard the keys and
+ * start pairing again.
  */
 export const HandshakeCompleteSchema = z.object({
   type: z.literal("handshake_complete"),
   sessionId: SessionIdSchema,
   success: z.boolean(),
+  /** Set when success is false */
+  reason: HandshakeFailureReasonSchema.optional(),
+  /**
+   * Base64 MAC proving the desktop derived the same session keys and saw
+   * the same negotiation (see createKeyConfirmation). Set when success is
+   * true.
+   */
+  keyConfirmation: z.string().optional(),
+  /** Stable id of the desktop device (see identity.ts) */
+  deviceId: z.string().min(1).optional(),
+  /** Desktop's long-term Ed25519 identity key (base64) */
+  identityKey: PublicKeySchema.optional(),
+  /** Base64 signature by the identity key (see signHandshake) */
+  signature: z.string().optional(),
+  /** Protocol version picked by the desktop (see negotiateCapabilities) */
+  version: z.string().optional(),
+  /** Capabilities both sides support; only these may be used */
+  capabilities: z.array(z.string()).optional(),
 });
 export type HandshakeComplete = z.infer<typeof HandshakeCompleteSchema>;
 
@@ -82,6 +193,8 @@ export type HandshakeComplete = z.infer<typeof HandshakeCompleteSchema>;
 export const HandshakeMessageSchema = z.discriminatedUnion("type", [
   HandshakeInitSchema,
   HandshakeResponseSchema,
+  HandshakeNonceSchema,
+  HandshakeConfirmSchema,
   HandshakeCompleteSchema,
 ]);
 export type HandshakeMessage = z.infer<typeof HandshakeMessageSchema>;
@@ -90,11 +203,51 @@ export type HandshakeMessage = z.infer<typeof HandshakeMessageSchema>;
 // Encrypted Message Envelope
 // ============================================================================
 
+/**
+ * Header of a message encrypted with the ratchet session cipher.
+ */
+export const RatchetHeaderSchema = z.object({
+  /** Sender's current ratchet public key (base64) */
+  dh: PublicKeySchema,
+  /** Number of messages in the sender's previous sending chain */
+  pn: z.number().int().nonnegative(),
+  /** Index of this message in the sender's current chain */
+  n: z.number().int().nonnegative(),
+});
+export type RatchetHeader = z.infer<typeof RatchetHeaderSchema>;
+
+/**
+ * Position of an envelope within an event split into chunks (see stream.ts).
+ */
+export const EnvelopeChunkSchema = z.object({
+  /** Random base64 id shared by all chunks of the event */
+  streamId: z.string().min(1),
+  index: z.number().int().nonnegative(),
+  /** True on the last chunk */
+  final: z.boolean(),
+});
+export type EnvelopeChunk = z.infer<typeof EnvelopeChunkSchema>;
+
+/**
+ * Envelope format. Version 1 (assumed when absent) carries the plaintext
+ * as is; version 2 pads it to a size bucket before encryption, so the
+ * relay cannot tell messages apart by length (see padMessage()).
+ */
+export const ENVELOPE_VERSION_UNPADDED = 1;
+export const ENVELOPE_VERSION_PADDED = 2;
+export const EnvelopeVersionSchema = z.union([
+  z.literal(ENVELOPE_VERSION_UNPADDED),
+  z.literal(ENVELOPE_VERSION_PADDED),
+]);
+export type EnvelopeVersion = z.infer<typeof EnvelopeVersionSchema>;
+
 /**
  * Encrypted message wrapper sent over the relay.
  * The relay cannot decrypt the payload.
  */
 export const EncryptedEnvelopeSchema = z.object({
+  /** Envelope format; absent means ENVELOPE_VERSION_UNPADDED */
+  version: EnvelopeVersionSchema.optional(),
   sessionId: SessionIdSchema,
   sender: ClientRoleSchema,
   /** Base64-encoded ciphertext */
@@ -103,6 +256,14 @@ export const EncryptedEnvelopeSchema = z.object({
   nonce: z.string(),
   /** Timestamp for replay protection */
   timestamp: TimestampSchema,
+  /** Set if the payload was compressed before encryption */
+  compression: CompressionAlgorithmSchema.optional(),
+  /** Per-direction sequence number, authenticated (see envelope.ts) */
+  seq: z.number().int().nonnegative().optional(),
+  /** Present when the session uses the ratchet cipher */
+  ratchet: RatchetHeaderSchema.optional(),
+  /** Present when the envelope carries one chunk of a larger event */
+  chunk: EnvelopeChunkSchema.optional(),
 });
 export type EncryptedEnvelope = z.infer<typeof EncryptedEnvelopeSchema>;
 
@@ -123,6 +284,47 @@ export const AgentStateSchema = z.enum([
 ]);
 export type AgentState = z.infer<typeof AgentStateSchema>;
 
+// ============================================================================
+// Permissions
+// ============================================================================
+
+/**
+ * A permission rule in Claude Code's settings syntax: a tool name,
+ * optionally with a specifier, e.g. "Bash(npm test:*)" or "Edit(src/**)".
+ */
+export const PermissionRuleSchema = z
+  .string()
+  .regex(/^[\w-]+(?:\(.+\))?$/, "Expected Tool or Tool(specifier)");
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
+/**
+ * How far a permission decision reaches.
+ */
+export const PermissionScopeSchema = z.enum([
+  "once", // This request only
+  "session", // Matching requests for the rest of the session
+  "always", // Saved to the project's permission settings
+]);
+export type PermissionScope = z.infer<typeof PermissionScopeSchema>;
+
+/**
+ * Whether a permission decision lets the tool run.
+ */
+export const PermissionBehaviorSchema = z.enum(["allow", "deny"]);
+export type PermissionBehavior = z.infer<typeof PermissionBehaviorSchema>;
+
+/**
+ * Who answered a permission request: the desktop user at the keyboard,
+ * the phone, a policy rule, or nobody before the request expired.
+ */
+export const PermissionResolverSchema = z.enum([
+  "desktop",
+  "mobile",
+  "policy",
+  "timeout",
+]);
+export type PermissionResolver = z.infer<typeof PermissionResolverSchema>;
+
 // ============================================================================
 // Claude Code Events (Desktop → Mobile)
 // ============================================================================
@@ -188,12 +390,40 @@ export const PermissionRequestEventSchema = z.object({
   tool: z.string(),
   /** Optional details about the action */
   details: z.string().optional(),
+  /** The tool_use this request is for */
+  toolId: z.string().optional(),
+  /** Tool input parameters (JSON), for display and editing */
+  input: z.record(z.string(), z.unknown()).optional(),
+  /** Rules the mobile can offer for "allow for session" / "always allow" */
+  suggestedRules: z.array(PermissionRuleSchema).optional(),
+  /** When the desktop stops waiting and applies defaultAction */
+  expiresAt: TimestampSchema.optional(),
+  /** What happens if nobody answers in time */
+  defaultAction: PermissionBehaviorSchema.optional(),
   timestamp: TimestampSchema,
 });
 export type PermissionRequestEvent = z.infer<
   typeof PermissionRequestEventSchema
 >;
 
+/**
+ * Permission resolved event - a permission request was answered, so every
+ * client can close its prompt and show who answered and how.
+ */
+export const PermissionResolvedEventSchema = z.object({
+  type: z.literal("permission_resolved"),
+  requestId: z.string(),
+  behavior: PermissionBehaviorSchema,
+  scope: PermissionScopeSchema,
+  /** Rule the decision covers, if not just this request */
+  rule: PermissionRuleSchema.optional(),
+  resolvedBy: PermissionResolverSchema,
+  timestamp: TimestampSchema,
+});
+export type PermissionResolvedEvent = z.infer<
+  typeof PermissionResolvedEventSchema
+>;
+
 /**
  * Diff content event - file changes to display.
  */
@@ -236,6 +466,7 @@ export const ClaudeEventSchema = z.discriminatedUnion("type", [
   ToolUseEventSchema,
   ToolResultEventSchema,
   PermissionRequestEventSchema,
+  PermissionResolvedEventSchema,
   DiffContentEventSchema,
   ErrorEventSchema,
   SessionEndedEventSchema,
@@ -258,6 +489,7 @@ export type SendMessageCommand = z.infer<typeof SendMessageCommandSchema>;
 
 /**
  * Approve a pending permission request.
+ * Same as a permission_decision that allows once; kept for older apps.
  */
 export const ApprovePermissionCommandSchema = z.object({
   type: z.literal("approve_permission"),
@@ -270,6 +502,7 @@ export type ApprovePermissionCommand = z.infer<
 
 /**
  * Reject a pending permission request.
+ * Same as a permission_decision that denies once; kept for older apps.
  */
 export const RejectPermissionCommandSchema = z.object({
   type: z.literal("reject_permission"),
@@ -280,6 +513,40 @@ export type RejectPermissionCommand = z.infer<
   typeof RejectPermissionCommandSchema
 >;
 
+/**
+ * Answer a pending permission request.
+ *
+ * A decision scoped to the session or saved with "always" covers the given
+ * rule, or the whole tool if there is none. Feedback is passed back to
+ * Claude, typically to say why a request was denied. An allow may replace
+ * the tool input with an edited version.
+ */
+export const PermissionDecisionCommandSchema = z
+  .object({
+    type: z.literal("permission_decision"),
+    requestId: z.string(),
+    behavior: PermissionBehaviorSchema,
+    scope: PermissionScopeSchema.default("once"),
+    /** Rule the decision covers when not scoped to this request */
+    rule: PermissionRuleSchema.optional(),
+    /** Message for Claude */
+    feedback: z.string().min(1).optional(),
+    /** Tool input to run with instead of the requested one */
+    updatedInput: z.record(z.string(), z.unknown()).optional(),
+    timestamp: TimestampSchema,
+  })
+  .refine((command) => command.scope !== "once" || !command.rule, {
+    message: "A rule needs a session or always scope",
+    path: ["rule"],
+  })
+  .refine((command) => command.behavior === "allow" || !command.updatedInput, {
+    message: "Only an allow can edit the tool input",
+    path: ["updatedInput"],
+  });
+export type PermissionDecisionCommand = z.infer<
+  typeof PermissionDecisionCommandSchema
+>;
+
 /**
  * Cancel the current operation (interrupt).
  */
@@ -307,27 +574,12 @@ export const CommandSchema = z.discriminatedUnion("type", [
   SendMessageCommandSchema,
   ApprovePermissionCommandSchema,
   RejectPermissionCommandSchema,
+  PermissionDecisionCommandSchema,
   CancelOperationCommandSchema,
   DisconnectCommandSchema,
 ]);
 export type Command = z.infer<typeof CommandSchema>;
 
-// ============================================================================
-// Relay Messages (unencrypted routing layer)
-// ============================================================================
-
-/**
- * Message format for relay server routing.
- * The relay uses this to route messages but cannot read the encrypted payload.
- */
-export const RelayMessageSchema = z.object({
-  sessionId: SessionIdSchema,
-  sender: ClientRoleSchema,
-  /** Either a handshake message (unencrypted) or encrypted envelope */
-  payload: z.union([HandshakeMessageSchema, EncryptedEnvelopeSchema]),
-});
-export type RelayMessage = z.infer<typeof RelayMessageSchema>;
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -339,16 +591,46 @@ export function createTimestamp(): Timestamp {
   return Date.now();
 }
 
+/**
+ * Read any permission answer as a permission_decision, so the desktop
+ * handles approve_permission and reject_permission from older apps the
+ * same way.
+ */
+export function toPermissionDecision(
+  command:
+    | ApprovePermissionCommand
+    | RejectPermissionCommand
+    | PermissionDecisionCommand,
+): PermissionDecisionCommand {
+  switch (command.type) {
+    case "approve_permission":
+    case "reject_permission":
+      return {
+        type: "permission_decision",
+        requestId: command.requestId,
+        behavior: command.type === "approve_permission" ? "allow" : "deny",
+        scope: "once",
+        timestamp: command.timestamp,
+      };
+    case "permission_decision":
+      return command;
+  }
+}
+
 /**
  * Create an encrypted envelope.
+ * Pass ENVELOPE_VERSION_PADDED if the ciphertext was encrypted with
+ * `{ padded: true }`.
  */
 export function createEncryptedEnvelope(
   sessionId: SessionId,
   sender: ClientRole,
   ciphertext: string,
   nonce: string,
+  version?: EnvelopeVersion,
 ): EncryptedEnvelope {
   return {
+    ...(version === undefined ? {} : { version }),
     sessionId,
     sender,
     ciphertext,
@@ -3,17 +3,64 @@
  *
  * The QR code contains the initial handshake data that allows
  * the mobile device to connect to the desktop via the relay.
+ *
+ * A QR code may also carry an expiry time and a one-time pairing secret.
+ * The mobile proves it saw the secret in its handshake_response, so a
+ * photographed code stops working once it expires or once a phone has
+ * paired with it.
+ *
+ * Payloads are serialized either as JSON or in a compact binary form
+ * written in base45, which QR codes can store in alphanumeric mode at 5.5
+ * bits per character instead of 8. The binary form also replaces
+ * well-known relay URLs with a one-byte index. parseQrPayload() reads
+ * both, so older codes still scan. The payload version `v` only describes
+ * the payload's fields, whichever form it was read from; the protocol
+ * version is negotiated in the handshake (see capabilities.ts).
+ *
+ * Besides its primary relay, a payload may list fallback relays. Clients
+ * fail over between them in order, keeping the same session id, so one
+ * relay going down does not end the session (see relay.ts).
+ *
+ * The same payload can be shared as a link (mcc://pair or a universal
+ * link), for sending over AirDrop or the clipboard instead of scanning.
  */
 
+import * as nacl from "tweetnacl";
 import { z } from "zod/v4";
 
 import type { HandshakeInit, PublicKey, SessionId } from "./protocol";
+import {
+  bytesToString,
+  concatBytes,
+  constantTimeEqual,
+  fromBase64,
+  hmacSha512,
+  stringToBytes,
+  toBase64,
+} from "./crypto";
+import { PROTOCOL_VERSION } from "./protocol";
 
 /**
  * QR payload version for future compatibility.
  */
 export const QR_PAYLOAD_VERSION = "1";
 
+/**
+ * Relays the binary format can refer to by index. Append only: the index
+ * of an entry is part of the format.
+ */
+export const KNOWN_RELAYS: readonly string[] = ["https://mcc-relay.fly.dev"];
+
+/**
+ * Default lifetime of a QR code with an expiry.
+ */
+export const QR_PAYLOAD_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Length of the one-time pairing secret in bytes.
+ */
+export const PAIRING_SECRET_BYTES = 16;
+
 /**
  * Schema for the compact QR payload format.
  * Uses short keys to minimize QR code size.
@@ -27,9 +74,38 @@ export const QrPayloadSchema = z.object({
   k: z.string(),
   /** Relay URL */
   r: z.url(),
+  /** Fallback relay URLs, in order of preference */
+  f: z.array(z.url()).optional(),
+  /** Expiry timestamp (ms since epoch) */
+  e: z.number().int().positive().optional(),
+  /** One-time pairing secret (base64) */
+  t: z.string().optional(),
 });
 export type QrPayload = z.infer<typeof QrPayloadSchema>;
 
+export interface QrPayloadOptions {
+  /** When the code stops being valid */
+  expiresAt?: number;
+  /** One-time secret from generatePairingSecret() */
+  pairingSecret?: string;
+  /** Relays to fail over to if the primary is unreachable */
+  fallbackRelays?: string[];
+}
+
+/**
+ * How a payload is written into the QR code.
+ */
+export type QrPayloadFormat = "json" | "binary";
+
+export interface QrCodeDataOptions extends QrPayloadOptions {
+  /**
+   * "binary" (default "json") produces smaller codes that only apps with
+   * binary support can scan. Payloads the binary format cannot hold (ids
+   * of unusual length) fall back to JSON.
+   */
+  format?: QrPayloadFormat;
+}
+
 /**
  * Create a QR payload from handshake init data.
  */
@@ -37,15 +113,36 @@ export function createQrPayload(
   sessionId: SessionId,
   desktopPublicKey: PublicKey,
   relayUrl: string,
+  options: QrPayloadOptions = {},
 ): QrPayload {
   return {
     v: QR_PAYLOAD_VERSION,
     s: sessionId,
     k: desktopPublicKey,
     r: relayUrl,
+    ...(options.expiresAt === undefined ? {} : { e: options.expiresAt }),
+    ...(options.pairingSecret === undefined
+      ? {}
+      : { t: options.pairingSecret }),
+    ...(options.fallbackRelays?.length ? { f: options.fallbackRelays } : {}),
   };
 }
 
+/**
+ * All relays a payload names: the primary first, then its fallbacks,
+ * without duplicates.
+ */
+export function getRelayUrls(payload: QrPayload): string[] {
+  return [...new Set([payload.r, ...(payload.f ?? [])])];
+}
+
+/**
+ * Generate a one-time pairing secret for a QR code.
+ */
+export function generatePairingSecret(): string {
+  return toBase64(nacl.randomBytes(PAIRING_SECRET_BYTES));
+}
+
 /**
  * Serialize a QR payload to a string for encoding in the QR code.
  * Uses JSON for simplicity and broad compatibility.
@@ -55,10 +152,16 @@ export function serializeQrPayload(payload: QrPayload): string {
 }
 
 /**
- * Parse and validate a QR payload string.
+ * Parse and validate a QR payload string, in either format.
  * Returns null if the payload is invalid.
  */
 export function parseQrPayload(data: string): QrPayload | null {
+  if (isPairingLink(data)) {
+    return parsePairingLink(data);
+  }
+  if (!data.trimStart().startsWith("{")) {
+    return parseQrPayloadBinary(data);
+  }
   try {
     const parsed = JSON.parse(data) as unknown;
     const result = QrPayloadSchema.safeParse(parsed);
@@ -80,7 +183,10 @@ export function qrPayloadToHandshakeInit(payload: QrPayload): HandshakeInit {
     sessionId: payload.s,
     desktopPublicKey: payload.k,
     relayUrl: payload.r,
-    version: payload.v,
+    ...(payload.f === undefined ? {} : { fallbackRelayUrls: payload.f }),
+    version: PROTOCOL_VERSION,
+    ...(payload.e === undefined ? {} : { expiresAt: payload.e }),
+    ...(payload.t === undefined ? {} : { pairingSecret: payload.t }),
   };
 }
 
@@ -91,8 +197,17 @@ export function createQrCodeData(
   sessionId: SessionId,
   desktopPublicKey: PublicKey,
   relayUrl: string,
+  options: QrCodeDataOptions = {},
 ): string {
-  const payload = createQrPayload(sessionId, desktopPublicKey, relayUrl);
+  const payload = createQrPayload(
+    sessionId,
+    desktopPublicKey,
+    relayUrl,
+    options,
+  );
+  if (options.format === "binary") {
+    return serializeQrPayloadBinary(payload) ?? serializeQrPayload(payload);
+  }
   return serializeQrPayload(payload);
 }
 
@@ -110,17 +225,136 @@ export function parseQrCodeData(data: string): HandshakeInit | null {
 
 /**
  * Validate that a QR payload has a supported version.
+ * Minor revisions ("1.1") only add fields, so only the major version has
+ * to match; everything else is negotiated in the handshake.
  */
 export function isVersionSupported(payload: QrPayload): boolean {
-  return payload.v === QR_PAYLOAD_VERSION;
+  return payload.v.split(".")[0] === QR_PAYLOAD_VERSION;
+}
+
+/**
+ * Why a scanned QR payload cannot be used.
+ */
+export const QrPayloadErrorSchema = z.enum([
+  "unsupported_version",
+  // Past its expiry time
+  "expired",
+  // Its pairing secret has already been used
+  "consumed",
+]);
+export type QrPayloadError = z.infer<typeof QrPayloadErrorSchema>;
+
+export type QrPayloadValidation =
+  | { ok: true }
+  | { ok: false; error: QrPayloadError };
+
+export interface QrPayloadValidationOptions {
+  /** Current time (default: Date.now()) */
+  now?: number;
+  /** Whether a pairing secret has been used before */
+  isConsumed?: (pairingSecret: string) => boolean;
+}
+
+/**
+ * Check a scanned payload before pairing with it: supported version, not
+ * expired, and a pairing secret that has not been used yet.
+ */
+export function validateQrPayload(
+  payload: QrPayload,
+  options: QrPayloadValidationOptions = {},
+): QrPayloadValidation {
+  if (!isVersionSupported(payload)) {
+    return { ok: false, error: "unsupported_version" };
+  }
+  if (isQrPayloadExpired(payload, options.now)) {
+    return { ok: false, error: "expired" };
+  }
+  if (payload.t !== undefined && options.isConsumed?.(payload.t)) {
+    return { ok: false, error: "consumed" };
+  }
+  return { ok: true };
 }
 
 /**
- * Estimate the size of the QR payload in bytes.
+ * Check whether a payload has passed its expiry time.
+ * Payloads without one never expire.
+ */
+export function isQrPayloadExpired(
+  payload: QrPayload,
+  now = Date.now(),
+): boolean {
+  return payload.e !== undefined && now >= payload.e;
+}
+
+/**
+ * Prove possession of the QR code's pairing secret, for the
+ * handshake_response `pairingProof` field. The proof covers the QR code's
+ * contents and the mobile's key, so it cannot be reused for another key.
+ *
+ * @returns The base64 proof, or null if the QR code had no secret
+ */
+export function createPairingProof(
+  init: HandshakeInit,
+  mobilePublicKey: PublicKey,
+): string | null {
+  if (init.pairingSecret === undefined) return null;
+  try {
+    return toBase64(pairingProof(init, init.pairingSecret, mobilePublicKey));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Desktop side: check a handshake_response against the QR code it showed.
+ * Rejects responses after the expiry time. The caller must also accept
+ * only the first valid proof for each secret, so the code is single-use.
+ */
+export function verifyPairingProof(
+  init: HandshakeInit,
+  mobilePublicKey: PublicKey,
+  proof: string | undefined,
+  now = Date.now(),
+): boolean {
+  if (init.expiresAt !== undefined && now >= init.expiresAt) return false;
+  if (init.pairingSecret === undefined) return true;
+  if (proof === undefined) return false;
+
+  try {
+    return constantTimeEqual(
+      fromBase64(proof),
+      pairingProof(init, init.pairingSecret, mobilePublicKey),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function pairingProof(
+  init: HandshakeInit,
+  pairingSecret: string,
+  mobilePublicKey: PublicKey,
+): Uint8Array {
+  const transcript = [
+    "mcc-pairing-proof",
+    init.sessionId,
+    init.desktopPublicKey,
+    mobilePublicKey,
+    String(init.expiresAt ?? ""),
+  ].join("|");
+  return hmacSha512(fromBase64(pairingSecret), stringToBytes(transcript));
+}
+
+/**
+ * Estimate the size of the QR payload in bytes (characters, for binary).
  * Useful for ensuring the payload fits in a reasonable QR code.
  */
-export function estimatePayloadSize(payload: QrPayload): number {
-  return serializeQrPayload(payload).length;
+export function estimatePayloadSize(
+  payload: QrPayload,
+  format: QrPayloadFormat = "json",
+): number {
+  const binary = format === "binary" ? serializeQrPayloadBinary(payload) : null;
+  return (binary ?? serializeQrPayload(payload)).length;
 }
 
 /**
@@ -135,3 +369,345 @@ export const MAX_RECOMMENDED_PAYLOAD_SIZE = 500;
 export function isPayloadSizeOk(payload: QrPayload): boolean {
   return estimatePayloadSize(payload) <= MAX_RECOMMENDED_PAYLOAD_SIZE;
 }
+
+// ============================================================================
+// Binary Format (v2)
+// ============================================================================
+//
+// byte 0       binary format version (2), not a payload version
+// byte 1       flags: 1 = expiry, 2 = pairing secret, 4 = known relay,
+//              8 = fallback relays
+// 16 bytes     session id
+// 32 bytes     desktop public key
+// 6 bytes      expiry, ms since epoch, big-endian (if flagged)
+// 16 bytes     pairing secret (if flagged)
+// 1 byte       index into KNOWN_RELAYS (if flagged), or
+// 1 + n bytes  length-prefixed UTF-8 relay URL
+// 1 byte       number of fallback relays (if flagged), each one either
+//              0 + 1 byte index into KNOWN_RELAYS, or
+//              1 + n bytes length-prefixed UTF-8 URL
+
+const BINARY_VERSION_BYTE = 2;
+const FLAG_EXPIRY = 1;
+const FLAG_PAIRING_SECRET = 2;
+const FLAG_KNOWN_RELAY = 4;
+const FLAG_FALLBACK_RELAYS = 8;
+const SESSION_ID_BYTES = 16;
+const PUBLIC_KEY_BYTES = 32;
+const EXPIRY_BYTES = 6;
+const MAX_RELAY_URL_BYTES = 255;
+const MAX_FALLBACK_RELAYS = 255;
+
+/**
+ * Serialize a payload in the binary format, as base45 text.
+ *
+ * @returns The text, or null if the payload does not fit the format
+ */
+export function serializeQrPayloadBinary(payload: QrPayload): string | null {
+  const sessionId = decodeFixed(payload.s, SESSION_ID_BYTES);
+  const key = decodeFixed(payload.k, PUBLIC_KEY_BYTES);
+  const secret =
+    payload.t === undefined
+      ? undefined
+      : decodeFixed(payload.t, PAIRING_SECRET_BYTES);
+  if (!sessionId || !key || secret === null) return null;
+
+  let flags = 0;
+  const fields: Uint8Array[] = [sessionId, key];
+
+  if (payload.e !== undefined) {
+    if (payload.e >= 2 ** (EXPIRY_BYTES * 8)) return null;
+    flags |= FLAG_EXPIRY;
+    const expiry = new Uint8Array(EXPIRY_BYTES);
+    let value = payload.e;
+    for (let i = EXPIRY_BYTES - 1; i >= 0; i--) {
+      expiry[i] = value % 256;
+      value = Math.floor(value / 256);
+    }
+    fields.push(expiry);
+  }
+
+  if (secret) {
+    flags |= FLAG_PAIRING_SECRET;
+    fields.push(secret);
+  }
+
+  const relayIndex = KNOWN_RELAYS.indexOf(payload.r);
+  if (relayIndex >= 0) {
+    flags |= FLAG_KNOWN_RELAY;
+    fields.push(Uint8Array.of(relayIndex));
+  } else {
+    const url = stringToBytes(payload.r);
+    if (url.length > MAX_RELAY_URL_BYTES) return null;
+    fields.push(Uint8Array.of(url.length), url);
+  }
+
+  if (payload.f?.length) {
+    if (payload.f.length > MAX_FALLBACK_RELAYS) return null;
+    flags |= FLAG_FALLBACK_RELAYS;
+    fields.push(Uint8Array.of(payload.f.length));
+    for (const relay of payload.f) {
+      const index = KNOWN_RELAYS.indexOf(relay);
+      if (index >= 0) {
+        fields.push(Uint8Array.of(0, index));
+        continue;
+      }
+      const url = stringToBytes(relay);
+      // Zero marks a known relay, so URLs cannot be empty
+      if (url.length === 0 || url.length > MAX_RELAY_URL_BYTES) return null;
+      fields.push(Uint8Array.of(url.length), url);
+    }
+  }
+
+  return encodeBase45(
+    concatBytes(Uint8Array.of(BINARY_VERSION_BYTE, flags), ...fields),
+  );
+}
+
+/**
+ * Parse a payload in the binary format.
+ * Returns null if the payload is invalid.
+ */
+export function parseQrPayloadBinary(data: string): QrPayload | null {
+  const bytes = decodeBase45(data.trim());
+  if (bytes?.[0] !== BINARY_VERSION_BYTE) return null;
+
+  const flags = bytes[1] ?? 0;
+  let offset = 2;
+  const take = (length: number): Uint8Array | null => {
+    if (offset + length > bytes.length) return null;
+    const field = bytes.subarray(offset, offset + length);
+    offset += length;
+    return field;
+  };
+
+  const sessionId = take(SESSION_ID_BYTES);
+  const key = take(PUBLIC_KEY_BYTES);
+  const expiry = flags & FLAG_EXPIRY ? take(EXPIRY_BYTES) : undefined;
+  const secret =
+    flags & FLAG_PAIRING_SECRET ? take(PAIRING_SECRET_BYTES) : undefined;
+  if (!sessionId || !key || expiry === null || secret === null) return null;
+
+  const takeUrl = (): string | undefined => {
+    const length = take(1)?.[0];
+    const url = length === undefined ? null : take(length);
+    try {
+      return url ? bytesToString(url) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const takeKnownRelay = (): string | undefined => {
+    const index = take(1)?.[0];
+    return index === undefined ? undefined : KNOWN_RELAYS[index];
+  };
+
+  const relayUrl = flags & FLAG_KNOWN_RELAY ? takeKnownRelay() : takeUrl();
+  if (relayUrl === undefined) return null;
+
+  const fallbacks: string[] = [];
+  if (flags & FLAG_FALLBACK_RELAYS) {
+    const count = take(1)?.[0] ?? 0;
+    for (let i = 0; i < count; i++) {
+      const known = bytes[offset] === 0;
+      if (known) offset++;
+      const relay = known ? takeKnownRelay() : takeUrl();
+      if (relay === undefined) return null;
+      fallbacks.push(relay);
+    }
+    if (fallbacks.length === 0) return null;
+  }
+  if (offset !== bytes.length) return null;
+
+  const result = QrPayloadSchema.safeParse({
+    v: QR_PAYLOAD_VERSION,
+    s: toBase64(sessionId),
+    k: toBase64(key),
+    r: relayUrl,
+    ...(fallbacks.length > 0 ? { f: fallbacks } : {}),
+    ...(expiry
+      ? { e: expiry.reduce((value, byte) => value * 256 + byte, 0) }
+      : {}),
+    ...(secret ? { t: toBase64(secret) } : {}),
+  });
+  return result.success ? result.data : null;
+}
+
+/**
+ * Decode base64 that must be exactly `length` bytes and re-encode to the
+ * same text, so the binary form round trips.
+ */
+function decodeFixed(base64: string, length: number): Uint8Array | null {
+  try {
+    const bytes = fromBase64(base64);
+    return bytes.length === length && toBase64(bytes) === base64 ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Base45 (RFC 9285)
+// ============================================================================
+
+const BASE45_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+/**
+ * Encode bytes as base45, using only QR alphanumeric characters.
+ */
+export function encodeBase45(data: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < data.length; i += 2) {
+    const first = data[i] ?? 0;
+    const second = data[i + 1];
+    let value = second === undefined ? first : first * 256 + second;
+    const digits = second === undefined ? 2 : 3;
+    for (let d = 0; d < digits; d++) {
+      out += BASE45_ALPHABET[value % 45];
+      value = Math.floor(value / 45);
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode base45 text.
+ * Returns null if it is not valid base45.
+ */
+export function decodeBase45(text: string): Uint8Array | null {
+  if (text.length % 3 === 1) return null;
+
+  const out: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const chunk = text.slice(i, i + 3);
+    let value = 0;
+    for (let d = chunk.length - 1; d >= 0; d--) {
+      const digit = BASE45_ALPHABET.indexOf(chunk.charAt(d));
+      if (digit < 0) return null;
+      value = value * 45 + digit;
+    }
+
+    if (chunk.length === 3) {
+      if (value > 0xffff) return null;
+      out.push(value >> 8, value & 0xff);
+    } else {
+      if (value > 0xff) return null;
+      out.push(value);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ============================================================================
+// Pairing Links
+// ============================================================================
+
+/**
+ * URL scheme the mobile app registers for pairing links.
+ */
+export const PAIRING_LINK_SCHEME = "mcc";
+
+/**
+ * Default link base. A universal link base such as
+ * "https://example.com/pair" works too.
+ */
+export const PAIRING_LINK_BASE = `${PAIRING_LINK_SCHEME}://pair`;
+
+/**
+ * Encode a payload as a pairing link.
+ *
+ * The version, relays and expiry go in the query. The session id, key and
+ * pairing secret go in the fragment, which browsers never send to a
+ * server, so they stay out of web server logs for universal links.
+ */
+export function createPairingLink(
+  payload: QrPayload,
+  base: string = PAIRING_LINK_BASE,
+): string {
+  const query = formatLinkParams({
+    v: payload.v,
+    r: payload.r,
+    f: payload.f,
+    e: payload.e === undefined ? undefined : String(payload.e),
+  });
+  const fragment = formatLinkParams({
+    s: payload.s,
+    k: payload.k,
+    t: payload.t,
+  });
+  return `${base}?${query}#${fragment}`;
+}
+
+/**
+ * Check whether a string looks like a pairing link: mcc://pair, or an
+ * https URL whose path is /pair.
+ */
+export function isPairingLink(url: string): boolean {
+  return PAIRING_LINK_PATTERN.test(url.trim());
+}
+
+/**
+ * Parse a pairing link created by createPairingLink().
+ * Returns null if the link is invalid.
+ */
+export function parsePairingLink(url: string): QrPayload | null {
+  const match = PAIRING_LINK_PATTERN.exec(url.trim());
+  if (!match) return null;
+
+  const query = parseLinkParams(match[1] ?? "");
+  const fragment = parseLinkParams(match[2] ?? "");
+  if (!query || !fragment) return null;
+
+  const expiresAt = query.get("e")?.[0];
+  const fallbacks = query.get("f");
+  const result = QrPayloadSchema.safeParse({
+    v: query.get("v")?.[0],
+    r: query.get("r")?.[0],
+    s: fragment.get("s")?.[0],
+    k: fragment.get("k")?.[0],
+    ...(fallbacks ? { f: fallbacks } : {}),
+    ...(expiresAt === undefined ? {} : { e: Number(expiresAt) }),
+    ...(fragment.has("t") ? { t: fragment.get("t")?.[0] } : {}),
+  });
+  return result.success ? result.data : null;
+}
+
+// Query in group 1, fragment in group 2
+const PAIRING_LINK_PATTERN =
+  /^(?:mcc:\/\/pair\/?|https:\/\/[^/?#]+\/pair\/?)(?:\?([^#]*))?(?:#(.*))?$/;
+
+// Lists are written as repeated keys: "f=a&f=b"
+function formatLinkParams(
+  params: Record<string, string | readonly string[] | undefined>,
+): string {
+  return Object.entries(params)
+    .flatMap(([key, value]) =>
+      (typeof value === "string" ? [value] : (value ?? [])).map(
+        (item) => `${key}=${encodeURIComponent(item)}`,
+      ),
+    )
+    .join("&");
+}
+
+/**
+ * Parse "a=1&b=2&b=3" into each key's values. URLSearchParams is
+ * incomplete in React Native, so this is done by hand.
+ */
+function parseLinkParams(text: string): Map<string, string[]> | null {
+  const params = new Map<string, string[]>();
+  for (const pair of text.split("&")) {
+    if (!pair) continue;
+    const separator = pair.indexOf("=");
+    if (separator < 0) return null;
+    try {
+      const key = decodeURIComponent(pair.slice(0, separator));
+      const value = decodeURIComponent(
+        pair.slice(separator + 1).replace(/\+/g, " "),
+      );
+      params.set(key, [...(params.get(key) ?? []), value]);
+    } catch {
+      return null;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,460 @@
+/**
+ * Forward-secret session cipher (Double Ratchet).
+ *
+ * Every message is encrypted with its own key taken from a KDF chain. Chains
+ * only move forward and used keys are wiped, so a leaked state cannot
+ * decrypt earlier messages. Whenever the conversation changes direction the
+ * sender also mixes in a fresh X25519 key pair (a DH ratchet step), so a
+ * leaked state stops being useful once both sides have spoken again.
+ *
+ * The desktop's first ratchet key is derived from the shared secret, which
+ * lets the desktop send on a bootstrap chain before the mobile has spoken;
+ * its first real DH step replaces that key with a random one.
+ */
+
+import * as nacl from "tweetnacl";
+
+import type { KeyPair } from "./crypto";
+import type {
+  ClientRole,
+  EncryptedEnvelope,
+  RatchetHeader,
+  SessionId,
+} from "./protocol";
+import {
+  bytesToString,
+  clearBytes,
+  deriveSharedSecret,
+  fromBase64,
+  generateKeyPair,
+  generateNonce,
+  hkdf,
+  hmacSha512,
+  stringToBytes,
+  toBase64,
+} from "./crypto";
+import { createEncryptedEnvelope } from "./protocol";
+
+/**
+ * Most message keys skipped in one chain before a message is rejected.
+ * Bounds the work a forged header can cause.
+ */
+export const RATCHET_MAX_SKIP = 1000;
+
+/**
+ * Most skipped message keys kept for out-of-order delivery; the oldest
+ * are dropped first.
+ */
+export const RATCHET_MAX_SKIPPED_KEYS = 2000;
+
+/**
+ * Messages received without replying after which isRekeyDue() asks the
+ * caller to send something, so that a DH ratchet step happens.
+ */
+export const RATCHET_REKEY_INTERVAL = 50;
+
+interface ChainState {
+  key: Uint8Array;
+  /** Index of the next message key in this chain */
+  index: number;
+}
+
+/**
+ * Mutable ratchet state for one side of a session.
+ */
+export interface RatchetState {
+  role: ClientRole;
+  rootKey: Uint8Array;
+  /** Our current ratchet key pair, advertised in every header */
+  dhKeyPair: KeyPair;
+  /** The peer's current ratchet public key */
+  remotePublicKey: Uint8Array | null;
+  sendChain: ChainState;
+  receiveChain: ChainState | null;
+  /** Messages sent on our previous sending chain */
+  previousSendCount: number;
+  /** Keys of messages not received yet, by `${dh}:${n}`, oldest first */
+  skippedKeys: Map<string, Uint8Array>;
+  /** Messages received since we last sent */
+  receivedSinceSend: number;
+}
+
+/**
+ * A message encrypted by the ratchet.
+ */
+export interface RatchetMessage {
+  header: RatchetHeader;
+  ciphertext: Uint8Array;
+  nonce: Uint8Array;
+}
+
+/**
+ * Start a ratchet from the secret both sides agreed on during the
+ * handshake (the ECDH shared secret or the PAKE key).
+ */
+export function createRatchet(
+  role: ClientRole,
+  sharedSecret: Uint8Array,
+): RatchetState {
+  const material = hkdf(sharedSecret, new Uint8Array(0), "mcc-ratchet-v1", 96);
+  const rootKey = material.slice(0, 32);
+  const bootstrapKey = material.slice(32, 64);
+  const desktopKeyPair = nacl.box.keyPair.fromSecretKey(material.slice(64));
+  clearBytes(material);
+
+  if (role === "desktop") {
+    return {
+      role,
+      rootKey,
+      dhKeyPair: desktopKeyPair,
+      remotePublicKey: null,
+      sendChain: { key: bootstrapKey, index: 0 },
+      receiveChain: null,
+      previousSendCount: 0,
+      skippedKeys: new Map(),
+      receivedSinceSend: 0,
+    };
+  }
+
+  // The mobile takes the first DH step against the desktop's initial key
+  const dhKeyPair = generateKeyPair();
+  const [nextRootKey, sendKey] = kdfRoot(
+    rootKey,
+    dhKeyPair,
+    desktopKeyPair.publicKey,
+  );
+  clearBytes(rootKey);
+  clearBytes(desktopKeyPair.secretKey);
+
+  return {
+    role,
+    rootKey: nextRootKey,
+    dhKeyPair,
+    remotePublicKey: desktopKeyPair.publicKey,
+    sendChain: { key: sendKey, index: 0 },
+    receiveChain: { key: bootstrapKey, index: 0 },
+    previousSendCount: 0,
+    skippedKeys: new Map(),
+    receivedSinceSend: 0,
+  };
+}
+
+/**
+ * Encrypt a message with the next sending key.
+ * `associatedData` is authenticated but not encrypted, and must be passed
+ * unchanged to ratchetDecrypt().
+ */
+export function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: Uint8Array,
+  associatedData: Uint8Array = new Uint8Array(0),
+): RatchetMessage {
+  const header: RatchetHeader = {
+    dh: toBase64(state.dhKeyPair.publicKey),
+    pn: state.previousSendCount,
+    n: state.sendChain.index,
+  };
+  const messageKey = advanceChain(state.sendChain);
+  const key = bindMessageKey(messageKey, header, associatedData);
+  const nonce = generateNonce();
+  const ciphertext = nacl.secretbox(plaintext, nonce, key);
+
+  clearBytes(messageKey);
+  clearBytes(key);
+  state.receivedSinceSend = 0;
+  return { header, ciphertext, nonce };
+}
+
+/**
+ * Decrypt a message, advancing the ratchet.
+ * Returns null if the message cannot be authenticated, was already
+ * decrypted, or is too far ahead; the state is left untouched then.
+ */
+export function ratchetDecrypt(
+  state: RatchetState,
+  message: RatchetMessage,
+  associatedData: Uint8Array = new Uint8Array(0),
+): Uint8Array | null {
+  const { header } = message;
+
+  // A message that arrived late, after later ones were decrypted
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = state.skippedKeys.get(skippedId);
+  if (skippedKey) {
+    const plaintext = openMessage(skippedKey, message, associatedData);
+    if (plaintext) {
+      state.skippedKeys.delete(skippedId);
+      clearBytes(skippedKey);
+      state.receivedSinceSend++;
+    }
+    return plaintext;
+  }
+
+  // Work on a copy so a forged message cannot corrupt the state
+  const draft = cloneState(state);
+  let plaintext: Uint8Array | null = null;
+  try {
+    plaintext = advanceAndOpen(draft, message, associatedData);
+  } catch {
+    plaintext = null;
+  }
+
+  if (!plaintext) {
+    wipeState(draft);
+    return null;
+  }
+
+  wipeState(state);
+  Object.assign(state, draft);
+  state.receivedSinceSend++;
+  return plaintext;
+}
+
+/**
+ * True when we have received many messages without sending any. Sending
+ * one (even an empty keepalive) performs a DH ratchet step, so long
+ * one-way streams do not stay on a single DH key.
+ */
+export function isRekeyDue(state: RatchetState): boolean {
+  return state.receivedSinceSend >= RATCHET_REKEY_INTERVAL;
+}
+
+/**
+ * Encrypt a string into an envelope carrying the ratchet header.
+ */
+export function ratchetEncryptEnvelope(
+  state: RatchetState,
+  sessionId: SessionId,
+  plaintext: string,
+): EncryptedEnvelope {
+  const message = ratchetEncrypt(
+    state,
+    stringToBytes(plaintext),
+    envelopeAssociatedData(sessionId, state.role),
+  );
+  return {
+    ...createEncryptedEnvelope(
+      sessionId,
+      state.role,
+      toBase64(message.ciphertext),
+      toBase64(message.nonce),
+    ),
+    ratchet: message.header,
+  };
+}
+
+/**
+ * Decrypt an envelope produced by ratchetEncryptEnvelope().
+ * Returns null if it has no ratchet header, comes from our own role, or
+ * fails to decrypt.
+ */
+export function ratchetDecryptEnvelope(
+  state: RatchetState,
+  envelope: EncryptedEnvelope,
+): string | null {
+  if (!envelope.ratchet || envelope.sender === state.role) return null;
+
+  let message: RatchetMessage;
+  try {
+    message = {
+      header: envelope.ratchet,
+      ciphertext: fromBase64(envelope.ciphertext),
+      nonce: fromBase64(envelope.nonce),
+    };
+  } catch {
+    return null;
+  }
+
+  const plaintext = ratchetDecrypt(
+    state,
+    message,
+    envelopeAssociatedData(envelope.sessionId, envelope.sender),
+  );
+  return plaintext ? bytesToString(plaintext) : null;
+}
+
+/**
+ * Wipe all key material held by a ratchet that is no longer needed.
+ */
+export function destroyRatchet(state: RatchetState): void {
+  wipeState(state);
+  state.skippedKeys.clear();
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function envelopeAssociatedData(sessionId: SessionId, sender: ClientRole) {
+  return stringToBytes(`${sessionId}|${sender}`);
+}
+
+function advanceAndOpen(
+  state: RatchetState,
+  message: RatchetMessage,
+  associatedData: Uint8Array,
+): Uint8Array | null {
+  const { header } = message;
+  const remote = state.remotePublicKey ? toBase64(state.remotePublicKey) : null;
+
+  if (header.dh !== remote) {
+    if (!skipMessageKeys(state, header.pn)) return null;
+    dhRatchet(state, fromBase64(header.dh));
+  }
+
+  if (!skipMessageKeys(state, header.n)) return null;
+
+  const receiveChain = state.receiveChain;
+  if (!receiveChain || receiveChain.index !== header.n) return null;
+
+  const messageKey = advanceChain(receiveChain);
+  const plaintext = openMessage(messageKey, message, associatedData);
+  clearBytes(messageKey);
+  return plaintext;
+}
+
+/**
+ * Store the keys of messages before `until` in the receiving chain so
+ * they can still be decrypted if they arrive late.
+ * Returns false if that would skip too many messages.
+ */
+function skipMessageKeys(state: RatchetState, until: number): boolean {
+  const chain = state.receiveChain;
+  if (!chain || !state.remotePublicKey) return true;
+  if (until - chain.index > RATCHET_MAX_SKIP) return false;
+
+  const remote = toBase64(state.remotePublicKey);
+  while (chain.index < until) {
+    const index = chain.index;
+    state.skippedKeys.set(`${remote}:${index}`, advanceChain(chain));
+  }
+
+  for (const [id, key] of state.skippedKeys) {
+    if (state.skippedKeys.size <= RATCHET_MAX_SKIPPED_KEYS) break;
+    clearBytes(key);
+    state.skippedKeys.delete(id);
+  }
+  return true;
+}
+
+/**
+ * The peer has a new ratchet key: derive its chain, then start ours
+ * with a fresh key pair.
+ */
+function dhRatchet(state: RatchetState, remotePublicKey: Uint8Array): void {
+  state.previousSendCount = state.sendChain.index;
+  state.remotePublicKey = remotePublicKey;
+
+  const [midRootKey, receiveKey] = kdfRoot(
+    state.rootKey,
+    state.dhKeyPair,
+    remotePublicKey,
+  );
+  clearBytes(state.dhKeyPair.secretKey);
+  clearBytes(state.rootKey);
+  if (state.receiveChain) clearBytes(state.receiveChain.key);
+  state.receiveChain = { key: receiveKey, index: 0 };
+
+  state.dhKeyPair = generateKeyPair();
+  const [rootKey, sendKey] = kdfRoot(
+    midRootKey,
+    state.dhKeyPair,
+    remotePublicKey,
+  );
+  clearBytes(midRootKey);
+  clearBytes(state.sendChain.key);
+  state.rootKey = rootKey;
+  state.sendChain = { key: sendKey, index: 0 };
+}
+
+/**
+ * Root KDF: mix a DH output into the root key, yielding the next root key
+ * and a new chain key.
+ */
+function kdfRoot(
+  rootKey: Uint8Array,
+  ourKeyPair: KeyPair,
+  theirPublicKey: Uint8Array,
+): [Uint8Array, Uint8Array] {
+  const secret = deriveSharedSecret(ourKeyPair.secretKey, theirPublicKey);
+  const output = hkdf(secret, rootKey, "mcc-ratchet-v1 root", 64);
+  clearBytes(secret);
+
+  const keys: [Uint8Array, Uint8Array] = [
+    output.slice(0, 32),
+    output.slice(32),
+  ];
+  clearBytes(output);
+  return keys;
+}
+
+/**
+ * Chain KDF: return the current message key and step the chain forward,
+ * wiping the old chain key.
+ */
+function advanceChain(chain: ChainState): Uint8Array {
+  const messageKey = hmacSha512(chain.key, new Uint8Array([1])).slice(0, 32);
+  const nextKey = hmacSha512(chain.key, new Uint8Array([2])).slice(0, 32);
+  clearBytes(chain.key);
+  chain.key = nextKey;
+  chain.index++;
+  return messageKey;
+}
+
+/**
+ * secretbox has no associated data, so the header and associated data are
+ * bound by mixing them into the key.
+ */
+function bindMessageKey(
+  messageKey: Uint8Array,
+  header: RatchetHeader,
+  associatedData: Uint8Array,
+): Uint8Array {
+  const headerBytes = stringToBytes(`${header.dh}|${header.pn}|${header.n}|`);
+  const data = new Uint8Array(headerBytes.length + associatedData.length);
+  data.set(headerBytes);
+  data.set(associatedData, headerBytes.length);
+  return hmacSha512(messageKey, data).slice(0, 32);
+}
+
+function openMessage(
+  messageKey: Uint8Array,
+  message: RatchetMessage,
+  associatedData: Uint8Array,
+): Uint8Array | null {
+  const key = bindMessageKey(messageKey, message.header, associatedData);
+  const plaintext = nacl.secretbox.open(message.ciphertext, message.nonce, key);
+  clearBytes(key);
+  return plaintext;
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return {
+    role: state.role,
+    rootKey: state.rootKey.slice(),
+    dhKeyPair: {
+      publicKey: state.dhKeyPair.publicKey.slice(),
+      secretKey: state.dhKeyPair.secretKey.slice(),
+    },
+    remotePublicKey: state.remotePublicKey?.slice() ?? null,
+    sendChain: { ...state.sendChain, key: state.sendChain.key.slice() },
+    receiveChain: state.receiveChain
+      ? { ...state.receiveChain, key: state.receiveChain.key.slice() }
+      : null,
+    previousSendCount: state.previousSendCount,
+    skippedKeys: new Map(
+      Array.from(state.skippedKeys, ([id, key]) => [id, key.slice()]),
+    ),
+    receivedSinceSend: state.receivedSinceSend,
+  };
+}
+
+function wipeState(state: RatchetState): void {
+  clearBytes(state.rootKey);
+  clearBytes(state.dhKeyPair.secretKey);
+  clearBytes(state.sendChain.key);
+  if (state.receiveChain) clearBytes(state.receiveChain.key);
+  for (const key of state.skippedKeys.values()) {
+    clearBytes(key);
+  }
+}
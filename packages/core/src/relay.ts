@@ -0,0 +1,431 @@
+/**
+ * Relay wire format shared by the relay server and its clients.
+ *
+ * Every WebSocket frame is a JSON object carrying the framing version `v`.
+ * The relay only reads the routing fields; `payload` is opaque to it and
+ * normally holds a serialized handshake message or encrypted envelope.
+ *
+ * Clients may know several relays for a session. They fail over between
+ * them in order and rejoin with the same session id and token; a relay
+ * that finds the session on one of its peers redirects them there.
+ */
+
+import { z } from "zod/v4";
+
+import { PairingMessageSchema } from "./pairing";
+import {
+  ClientRoleSchema,
+  EncryptedEnvelopeSchema,
+  HandshakeMessageSchema,
+  SessionIdSchema,
+} from "./protocol";
+
+/**
+ * Relay framing version. Bump when frames change incompatibly.
+ */
+export const RELAY_PROTOCOL_VERSION = 1;
+
+/**
+ * Minimum length of the join token proving ownership of a role slot.
+ * Clients should send at least 128 bits of randomness.
+ */
+export const JOIN_TOKEN_MIN_LENGTH = 16;
+
+const FrameVersionSchema = z.literal(RELAY_PROTOCOL_VERSION);
+
+// ============================================================================
+// Client → Relay Frames
+// ============================================================================
+
+/**
+ * Join a session, claiming (or reclaiming) a role slot.
+ */
+export const JoinFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("join"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** Per-role secret; the first joiner's token owns the slot */
+  token: z.string().min(JOIN_TOKEN_MIN_LENGTH),
+  /**
+   * Set when rejoining a session this client joined before, possibly on
+   * another relay. A desktop's first join creates the session, so the
+   * relay only asks its peers about an unknown session when a mobile
+   * joins or a client resumes.
+   */
+  resume: z.boolean().optional(),
+});
+export type JoinFrame = z.infer<typeof JoinFrameSchema>;
+
+/**
+ * Forward an opaque payload to the peer.
+ */
+export const MessageFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("message"),
+  sessionId: SessionIdSchema,
+  role: ClientRoleSchema,
+  /** Optional client-chosen id, echoed back in the ack */
+  id: z.string().optional(),
+  payload: z.string(),
+});
+export type MessageFrame = z.infer<typeof MessageFrameSchema>;
+
+/**
+ * Application-level keepalive.
+ */
+export const PingFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("ping"),
+});
+export type PingFrame = z.infer<typeof PingFrameSchema>;
+
+/**
+ * Leave the session and release the role slot.
+ */
+export const LeaveFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("leave"),
+});
+export type LeaveFrame = z.infer<typeof LeaveFrameSchema>;
+
+/**
+ * Lock the session's mobile slot once the handshake has completed. From
+ * then on only the paired phone's token may join as mobile, so a copy of
+ * the QR code cannot be used to pair a second device.
+ */
+export const ConsumePairingFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("consume_pairing"),
+});
+export type ConsumePairingFrame = z.infer<typeof ConsumePairingFrameSchema>;
+
+/**
+ * Turn away the client holding the session's mobile slot and free the
+ * slot, even if it consumed the pairing. Sent by the desktop when the
+ * phone cannot prove it knows the pairing code: anyone who guesses the
+ * nameplate can join as mobile, but only the real phone completes PAKE.
+ */
+export const RejectPeerFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("reject_peer"),
+});
+export type RejectPeerFrame = z.infer<typeof RejectPeerFrameSchema>;
+
+/**
+ * Union of all frames a client may send to the relay.
+ */
+export const ClientFrameSchema = z.discriminatedUnion("type", [
+  JoinFrameSchema,
+  MessageFrameSchema,
+  PingFrameSchema,
+  LeaveFrameSchema,
+  ConsumePairingFrameSchema,
+  RejectPeerFrameSchema,
+]);
+export type ClientFrame = z.infer<typeof ClientFrameSchema>;
+
+// ============================================================================
+// Relay → Client Frames
+// ============================================================================
+
+/**
+ * The join succeeded.
+ */
+export const JoinedFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("joined"),
+});
+export type JoinedFrame = z.infer<typeof JoinedFrameSchema>;
+
+/**
+ * The peer connected to the session.
+ */
+export const PeerJoinedFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("peer_joined"),
+});
+export type PeerJoinedFrame = z.infer<typeof PeerJoinedFrameSchema>;
+
+/**
+ * The peer disconnected or left the session.
+ */
+export const PeerLeftFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("peer_left"),
+});
+export type PeerLeftFrame = z.infer<typeof PeerLeftFrameSchema>;
+
+/**
+ * A payload forwarded from the peer.
+ */
+export const DeliverFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("message"),
+  payload: z.string(),
+});
+export type DeliverFrame = z.infer<typeof DeliverFrameSchema>;
+
+/**
+ * Acknowledges a message frame: either delivered to the peer or queued
+ * until it reconnects.
+ */
+export const AckFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("ack"),
+  id: z.string().optional(),
+  status: z.enum(["delivered", "queued"]),
+});
+export type AckFrame = z.infer<typeof AckFrameSchema>;
+
+/**
+ * Reply to a ping frame.
+ */
+export const PongFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("pong"),
+});
+export type PongFrame = z.infer<typeof PongFrameSchema>;
+
+/**
+ * Acknowledges a consume_pairing frame: the mobile slot is now locked.
+ */
+export const PairingConsumedFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("pairing_consumed"),
+});
+export type PairingConsumedFrame = z.infer<typeof PairingConsumedFrameSchema>;
+
+/**
+ * The session lives on another relay. Rejoin there with the same session
+ * id and token.
+ */
+export const RedirectFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("redirect"),
+  relayUrl: z.url(),
+});
+export type RedirectFrame = z.infer<typeof RedirectFrameSchema>;
+
+/**
+ * Machine-readable reasons the relay rejects a frame.
+ */
+export const RelayErrorCodeSchema = z.enum([
+  "invalid_frame",
+  "unsupported_version",
+  "not_joined",
+  "session_mismatch",
+  "role_claimed",
+  "wrong_role",
+  "pairing_consumed",
+  "queue_full",
+  "rate_limited",
+  "slow_down",
+  "too_many_connections",
+]);
+export type RelayErrorCode = z.infer<typeof RelayErrorCodeSchema>;
+
+/**
+ * A frame was rejected.
+ */
+export const ErrorFrameSchema = z.object({
+  v: FrameVersionSchema,
+  type: z.literal("error"),
+  code: RelayErrorCodeSchema,
+  /** Human-readable detail */
+  message: z.string(),
+  /** Id of the rejected message frame, if it had one */
+  id: z.string().optional(),
+  /** Set on rate_limited and slow_down: how long to wait before retrying */
+  retryAfterMs: z.number().int().nonnegative().optional(),
+});
+export type ErrorFrame = z.infer<typeof ErrorFrameSchema>;
+
+/**
+ * Union of all frames the relay may send to a client.
+ */
+export const RelayFrameSchema = z.discriminatedUnion("type", [
+  JoinedFrameSchema,
+  PeerJoinedFrameSchema,
+  PeerLeftFrameSchema,
+  DeliverFrameSchema,
+  AckFrameSchema,
+  PongFrameSchema,
+  PairingConsumedFrameSchema,
+  RedirectFrameSchema,
+  ErrorFrameSchema,
+]);
+export type RelayFrame = z.infer<typeof RelayFrameSchema>;
+
+// ============================================================================
+// Relay Payloads
+// ============================================================================
+
+/**
+ * What clients put inside a message frame's payload: a plaintext handshake
+ * or PAKE message during pairing, encrypted envelopes afterwards.
+ */
+export const RelayPayloadSchema = z.union([
+  HandshakeMessageSchema,
+  PairingMessageSchema,
+  EncryptedEnvelopeSchema,
+]);
+export type RelayPayload = z.infer<typeof RelayPayloadSchema>;
+
+// ============================================================================
+// Encoders / Decoders
+// ============================================================================
+
+/**
+ * A frame without its version field, as passed to encodeFrame().
+ * Distributes over unions so each member keeps its own fields.
+ */
+export type FrameBody<T> = T extends unknown ? Omit<T, "v"> : never;
+
+/**
+ * Serialize a frame, stamping the current framing version.
+ */
+export function encodeFrame(
+  frame: FrameBody<ClientFrame> | FrameBody<RelayFrame>,
+): string {
+  return JSON.stringify({ v: RELAY_PROTOCOL_VERSION, ...frame });
+}
+
+function decodeWith<T>(schema: z.ZodType<T>, data: string): T | null {
+  try {
+    const result = schema.safeParse(JSON.parse(data));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse and validate a frame sent by a client.
+ * Returns null if the frame is malformed.
+ */
+export function decodeClientFrame(data: string): ClientFrame | null {
+  return decodeWith(ClientFrameSchema, data);
+}
+
+/**
+ * Parse and validate a frame sent by the relay.
+ * Returns null if the frame is malformed.
+ */
+export function decodeRelayFrame(data: string): RelayFrame | null {
+  return decodeWith(RelayFrameSchema, data);
+}
+
+/**
+ * Read the framing version of raw frame data without validating the rest.
+ * Returns null if the data is not a JSON object with a numeric `v`.
+ */
+export function getFrameVersion(data: string): number | null {
+  try {
+    const parsed = JSON.parse(data) as unknown;
+    if (typeof parsed !== "object" || parsed === null) return null;
+    const version = (parsed as Record<string, unknown>).v;
+    return typeof version === "number" ? version : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a handshake message or encrypted envelope for a message frame.
+ */
+export function encodeRelayPayload(payload: RelayPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parse and validate the payload of a delivered message frame.
+ * Returns null if the payload is malformed.
+ */
+export function decodeRelayPayload(data: string): RelayPayload | null {
+  return decodeWith(RelayPayloadSchema, data);
+}
+
+// ============================================================================
+// Relay Failover
+// ============================================================================
+
+/**
+ * Wait before retrying once every relay has failed, doubling with each
+ * further pass through the list.
+ */
+export const RELAY_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Upper bound on the wait between passes through the relay list.
+ */
+export const RELAY_RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Which of a session's relays a client is using.
+ */
+export interface RelayFailover {
+  /** Relays in order of preference (see getRelayUrls()) */
+  relays: readonly string[];
+  /** The relay to connect to */
+  relay: string;
+  /** Failures since the last successful join */
+  failures: number;
+}
+
+/**
+ * Start on the first relay in the list.
+ */
+export function createRelayFailover(relays: readonly string[]): RelayFailover {
+  const [first] = relays;
+  if (first === undefined) {
+    throw new Error("At least one relay is required");
+  }
+  return { relays, relay: first, failures: 0 };
+}
+
+/**
+ * Move on to the next relay after a failed connection or a dropped socket,
+ * wrapping around at the end of the list. Both sides walk the list in the
+ * same order, so they meet on the first relay both can reach.
+ *
+ * @returns How long to wait before connecting: nothing while untried
+ * relays remain, then an exponential backoff per pass through the list
+ */
+export function recordRelayFailure(failover: RelayFailover): number {
+  const { relays } = failover;
+  failover.failures++;
+  failover.relay =
+    relays[(relays.indexOf(failover.relay) + 1) % relays.length] ??
+    failover.relay;
+
+  const passes = Math.floor(failover.failures / relays.length);
+  if (passes === 0) return 0;
+  return Math.min(
+    RELAY_RETRY_BASE_DELAY_MS * 2 ** (passes - 1),
+    RELAY_RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * Note a successful join. The client stays on this relay rather than
+ * drifting back to the primary, so it does not strand its peer.
+ */
+export function recordRelaySuccess(failover: RelayFailover): void {
+  failover.failures = 0;
+}
+
+/**
+ * Follow a redirect frame. Only relays from the pairing payload are
+ * followed, so a relay cannot steer clients to a server of its choosing.
+ *
+ * @returns Whether the client should reconnect to the new relay
+ */
+export function followRelayRedirect(
+  failover: RelayFailover,
+  relayUrl: string,
+): boolean {
+  if (!failover.relays.includes(relayUrl)) return false;
+  failover.relay = relayUrl;
+  return true;
+}
@@ -0,0 +1,216 @@
+/**
+ * Short Authentication String (SAS) verification for the handshake.
+ *
+ * Public keys travel through the relay, so a malicious relay could swap
+ * them. After the key exchange both devices show a short string derived
+ * from the session id, both public keys and a nonce from each side; the
+ * user checks that the two strings match.
+ *
+ * The mobile commits to its nonce before seeing the desktop's, and only
+ * reveals it afterwards. An attacker therefore has to fix its substitute
+ * key before learning what the honest strings will be, and gets a single
+ * 1-in-a-million guess instead of being able to grind keys offline.
+ *
+ * Flow:
+ * 1. mobile → desktop: handshake_response with its key and commitment
+ * 2. desktop → mobile: handshake_nonce with the desktop nonce
+ * 3. mobile → desktop: handshake_nonce revealing the mobile nonce
+ * 4. both display the SAS and send handshake_confirm with the user's verdict
+ * 5. desktop → mobile: handshake_complete, or success=false with a reason
+ */
+
+import * as nacl from "tweetnacl";
+
+import type { SessionId } from "./protocol";
+import { concatBytes, constantTimeEqual, stringToBytes } from "./crypto";
+
+/**
+ * Length of each side's SAS nonce in bytes.
+ */
+export const SAS_NONCE_LENGTH = 32;
+
+/**
+ * Number of digits in the numeric SAS.
+ */
+export const SAS_DIGITS = 6;
+
+/**
+ * Number of emoji in the emoji SAS (6 bits each).
+ */
+export const SAS_EMOJI_COUNT = 5;
+
+/**
+ * Emoji used for the emoji SAS, with names for accessibility.
+ * Exactly 64 entries, chosen to be easy to tell apart.
+ */
+export const SAS_EMOJI: readonly { emoji: string; name: string }[] = [
+  { emoji: "🐶", name: "Dog" },
+  { emoji: "🐱", name: "Cat" },
+  { emoji: "🦁", name: "Lion" },
+  { emoji: "🐎", name: "Horse" },
+  { emoji: "🦄", name: "Unicorn" },
+  { emoji: "🐷", name: "Pig" },
+  { emoji: "🐘", name: "Elephant" },
+  { emoji: "🐰", name: "Rabbit" },
+  { emoji: "🐼", name: "Panda" },
+  { emoji: "🐓", name: "Rooster" },
+  { emoji: "🐧", name: "Penguin" },
+  { emoji: "🐢", name: "Turtle" },
+  { emoji: "🐟", name: "Fish" },
+  { emoji: "🐙", name: "Octopus" },
+  { emoji: "🦋", name: "Butterfly" },
+  { emoji: "🌷", name: "Flower" },
+  { emoji: "🌳", name: "Tree" },
+  { emoji: "🌵", name: "Cactus" },
+  { emoji: "🍄", name: "Mushroom" },
+  { emoji: "🌏", name: "Globe" },
+  { emoji: "🌙", name: "Moon" },
+  { emoji: "☁️", name: "Cloud" },
+  { emoji: "🔥", name: "Fire" },
+  { emoji: "🍌", name: "Banana" },
+  { emoji: "🍎", name: "Apple" },
+  { emoji: "🍓", name: "Strawberry" },
+  { emoji: "🌽", name: "Corn" },
+  { emoji: "🍕", name: "Pizza" },
+  { emoji: "🎂", name: "Cake" },
+  { emoji: "❤️", name: "Heart" },
+  { emoji: "😀", name: "Smiley" },
+  { emoji: "🤖", name: "Robot" },
+  { emoji: "🎩", name: "Hat" },
+  { emoji: "👓", name: "Glasses" },
+  { emoji: "🔧", name: "Spanner" },
+  { emoji: "🎅", name: "Santa" },
+  { emoji: "👍", name: "Thumbs Up" },
+  { emoji: "☂️", name: "Umbrella" },
+  { emoji: "⌛", name: "Hourglass" },
+  { emoji: "⏰", name: "Clock" },
+  { emoji: "🎁", name: "Gift" },
+  { emoji: "💡", name: "Light Bulb" },
+  { emoji: "📕", name: "Book" },
+  { emoji: "✏️", name: "Pencil" },
+  { emoji: "📎", name: "Paperclip" },
+  { emoji: "✂️", name: "Scissors" },
+  { emoji: "🔒", name: "Lock" },
+  { emoji: "🔑", name: "Key" },
+  { emoji: "🔨", name: "Hammer" },
+  { emoji: "☎️", name: "Telephone" },
+  { emoji: "🏁", name: "Flag" },
+  { emoji: "🚂", name: "Train" },
+  { emoji: "🚲", name: "Bicycle" },
+  { emoji: "✈️", name: "Aeroplane" },
+  { emoji: "🚀", name: "Rocket" },
+  { emoji: "🏆", name: "Trophy" },
+  { emoji: "⚽", name: "Ball" },
+  { emoji: "🎸", name: "Guitar" },
+  { emoji: "🎺", name: "Trumpet" },
+  { emoji: "🔔", name: "Bell" },
+  { emoji: "⚓", name: "Anchor" },
+  { emoji: "🎧", name: "Headphones" },
+  { emoji: "📁", name: "Folder" },
+  { emoji: "📌", name: "Pin" },
+];
+
+/**
+ * Everything the SAS is derived from. Keys and nonces are raw bytes.
+ */
+export interface SasInput {
+  sessionId: SessionId;
+  desktopPublicKey: Uint8Array;
+  mobilePublicKey: Uint8Array;
+  desktopNonce: Uint8Array;
+  mobileNonce: Uint8Array;
+}
+
+/**
+ * Generate a random SAS nonce.
+ */
+export function generateSasNonce(): Uint8Array {
+  return nacl.randomBytes(SAS_NONCE_LENGTH);
+}
+
+/**
+ * Commit the mobile to its public key and SAS nonce.
+ * Sent in handshake_response; the nonce itself is revealed later.
+ */
+export function createSasCommitment(
+  sessionId: SessionId,
+  mobilePublicKey: Uint8Array,
+  mobileNonce: Uint8Array,
+): Uint8Array {
+  return nacl
+    .hash(
+      concatBytes(
+        stringToBytes("mcc-sas-commit-v1"),
+        mobilePublicKey,
+        mobileNonce,
+        stringToBytes(sessionId),
+      ),
+    )
+    .slice(0, 32);
+}
+
+/**
+ * Check a revealed mobile nonce against the commitment received earlier.
+ */
+export function verifySasCommitment(
+  commitment: Uint8Array,
+  sessionId: SessionId,
+  mobilePublicKey: Uint8Array,
+  mobileNonce: Uint8Array,
+): boolean {
+  return constantTimeEqual(
+    commitment,
+    createSasCommitment(sessionId, mobilePublicKey, mobileNonce),
+  );
+}
+
+/**
+ * Derive the raw SAS bytes. Both sides get the same bytes only if they saw
+ * the same keys and nonces.
+ */
+export function deriveSas(input: SasInput): Uint8Array {
+  if (
+    input.desktopNonce.length !== SAS_NONCE_LENGTH ||
+    input.mobileNonce.length !== SAS_NONCE_LENGTH
+  ) {
+    throw new Error(`SAS nonces must be ${SAS_NONCE_LENGTH} bytes`);
+  }
+
+  return nacl
+    .hash(
+      concatBytes(
+        stringToBytes("mcc-sas-v1"),
+        input.desktopPublicKey,
+        input.mobilePublicKey,
+        input.desktopNonce,
+        input.mobileNonce,
+        stringToBytes(input.sessionId),
+      ),
+    )
+    .slice(0, 8);
+}
+
+/**
+ * Render SAS bytes as a zero-padded decimal code, e.g. "042917".
+ */
+export function sasToDigits(sas: Uint8Array): string {
+  const value = new DataView(sas.buffer, sas.byteOffset, 4).getUint32(0);
+  return String(value % 10 ** SAS_DIGITS).padStart(SAS_DIGITS, "0");
+}
+
+/**
+ * Render SAS bytes as a sequence of emoji, 6 bits per emoji.
+ */
+export function sasToEmoji(sas: Uint8Array): { emoji: string; name: string }[] {
+  const bits = Array.from(sas, (byte) => byte.toString(2).padStart(8, "0"))
+    .join("")
+    .slice(0, SAS_EMOJI_COUNT * 6);
+
+  return Array.from({ length: SAS_EMOJI_COUNT }, (_, i) => {
+    const entry = SAS_EMOJI[parseInt(bits.slice(i * 6, i * 6 + 6), 2)];
+    if (!entry) {
+      throw new Error("SAS emoji table must have 64 entries");
+    }
+    return entry;
+  });
+}
@@ -0,0 +1,410 @@
+/**
+ * Chunked encryption for large payloads.
+ *
+ * A big tool_result or diff_content is split into chunks that are
+ * encrypted one by one, in the style of libsodium's secretstream. Each
+ * chunk's nonce is the stream's random header followed by the chunk index,
+ * so chunks only decrypt in order. The last chunk carries a final tag
+ * inside the ciphertext, so a stream cut short by the relay is detected
+ * instead of being mistaken for a complete one.
+ *
+ * On the wire each chunk travels in its own envelope with a `chunk`
+ * descriptor, sealed like any other envelope of the session (see
+ * envelope.ts): it takes the next sequence number, is padded and
+ * compressed as the sender is configured to, and the descriptor is bound
+ * into its key along with the sequence number and timestamp. Old chunks
+ * are therefore rejected as replays by the session's receive window, the
+ * same as single envelopes. A ChunkReassembler collects them back into the
+ * original event.
+ */
+
+import * as nacl from "tweetnacl";
+
+import type {
+  EnvelopeError,
+  EnvelopeReceiver,
+  EnvelopeSender,
+  EnvelopeTimeOptions,
+} from "./envelope";
+import type { EncryptedEnvelope } from "./protocol";
+import { bytesToString, concatBytes, stringToBytes, toBase64 } from "./crypto";
+import { openEnvelopeBytes, sealEnvelopeBytes } from "./envelope";
+
+/**
+ * Length of the random stream header in bytes. Chunk envelopes use a random
+ * stream id of the same length.
+ */
+export const STREAM_HEADER_LENGTH = 16;
+
+/**
+ * Default plaintext bytes per chunk. Well under the relay's frame limit
+ * once base64 and JSON overhead are added.
+ */
+export const STREAM_CHUNK_SIZE = 64 * 1024; // 64 KiB
+
+/**
+ * Default limits for a ChunkReassembler.
+ */
+export const STREAM_MAX_BYTES = 32 * 1024 * 1024; // 32 MiB
+export const STREAM_MAX_PENDING = 16;
+
+const TAG_MESSAGE = 0;
+const TAG_FINAL = 1;
+const MAX_CHUNKS = 0xffffffff;
+
+/**
+ * State for encrypting one stream.
+ */
+export interface StreamEncryptor {
+  key: Uint8Array;
+  header: Uint8Array;
+  /** Index of the next chunk */
+  index: number;
+  /** True once the final chunk has been produced */
+  finished: boolean;
+}
+
+/**
+ * State for decrypting one stream.
+ */
+export interface StreamDecryptor {
+  key: Uint8Array;
+  header: Uint8Array;
+  /** Index of the next expected chunk */
+  index: number;
+  /** True once the final chunk has been decrypted */
+  finished: boolean;
+}
+
+/**
+ * A decrypted chunk.
+ */
+export interface StreamChunk {
+  plaintext: Uint8Array;
+  final: boolean;
+}
+
+// ============================================================================
+// Stream Encryption
+// ============================================================================
+
+/**
+ * Start a new stream encrypted with `key` (a sendKey from
+ * deriveSessionKeys()). The header must reach the receiver along with the
+ * chunks; it is not secret.
+ */
+export function createStreamEncryptor(key: Uint8Array): StreamEncryptor {
+  return {
+    key,
+    header: nacl.randomBytes(STREAM_HEADER_LENGTH),
+    index: 0,
+    finished: false,
+  };
+}
+
+/**
+ * Encrypt the next chunk. Mark the last chunk with `final`; no chunks can
+ * follow it.
+ */
+export function encryptChunk(
+  stream: StreamEncryptor,
+  plaintext: Uint8Array,
+  final: boolean,
+): Uint8Array {
+  if (stream.finished) {
+    throw new Error("Stream already finished");
+  }
+  if (stream.index >= MAX_CHUNKS) {
+    throw new Error("Stream has too many chunks");
+  }
+
+  const tag = new Uint8Array([final ? TAG_FINAL : TAG_MESSAGE]);
+  const ciphertext = nacl.secretbox(
+    concatBytes(tag, plaintext),
+    chunkNonce(stream.header, stream.index),
+    stream.key,
+  );
+
+  stream.index++;
+  stream.finished = final;
+  return ciphertext;
+}
+
+/**
+ * Start decrypting a stream from its header.
+ * Returns null if the header is malformed.
+ */
+export function createStreamDecryptor(
+  key: Uint8Array,
+  header: Uint8Array,
+): StreamDecryptor | null {
+  if (header.length !== STREAM_HEADER_LENGTH) return null;
+  return { key, header, index: 0, finished: false };
+}
+
+/**
+ * Decrypt the next chunk.
+ * Returns null if the chunk was tampered with, is out of order, or
+ * arrives after the final chunk. Check `finished` once the input ends:
+ * if it is false, the stream was truncated.
+ */
+export function decryptChunk(
+  stream: StreamDecryptor,
+  ciphertext: Uint8Array,
+): StreamChunk | null {
+  if (stream.finished) return null;
+
+  const opened = nacl.secretbox.open(
+    ciphertext,
+    chunkNonce(stream.header, stream.index),
+    stream.key,
+  );
+  if (!opened || opened.length < 1) return null;
+
+  const tag = opened[0];
+  if (tag !== TAG_MESSAGE && tag !== TAG_FINAL) return null;
+
+  stream.index++;
+  stream.finished = tag === TAG_FINAL;
+  return { plaintext: opened.subarray(1), final: stream.finished };
+}
+
+/**
+ * Encrypt a whole payload as a stream of chunks.
+ */
+export function encryptStream(
+  data: Uint8Array,
+  key: Uint8Array,
+  chunkSize: number = STREAM_CHUNK_SIZE,
+): { header: Uint8Array; chunks: Uint8Array[] } {
+  if (chunkSize < 1) {
+    throw new Error("Chunk size must be positive");
+  }
+
+  const stream = createStreamEncryptor(key);
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  do {
+    const end = Math.min(offset + chunkSize, data.length);
+    chunks.push(
+      encryptChunk(stream, data.subarray(offset, end), end === data.length),
+    );
+    offset = end;
+  } while (offset < data.length);
+
+  return { header: stream.header, chunks };
+}
+
+/**
+ * Decrypt a whole stream.
+ * Returns null if any chunk fails or the final chunk is missing.
+ */
+export function decryptStream(
+  key: Uint8Array,
+  header: Uint8Array,
+  chunks: Uint8Array[],
+): Uint8Array | null {
+  const stream = createStreamDecryptor(key, header);
+  if (!stream) return null;
+
+  const parts: Uint8Array[] = [];
+  for (const ciphertext of chunks) {
+    const chunk = decryptChunk(stream, ciphertext);
+    if (!chunk) return null;
+    parts.push(chunk.plaintext);
+  }
+
+  return stream.finished ? concatBytes(...parts) : null;
+}
+
+// ============================================================================
+// Chunked Envelopes
+// ============================================================================
+
+/**
+ * Encrypt one logical event (usually a serialized tool_result or
+ * diff_content) into a sequence of chunk envelopes, using our sendKey.
+ */
+export function encryptChunkedEnvelopes(
+  sender: EnvelopeSender,
+  key: Uint8Array,
+  plaintext: string,
+  chunkSize: number = STREAM_CHUNK_SIZE,
+): EncryptedEnvelope[] {
+  if (chunkSize < 1) {
+    throw new Error("Chunk size must be positive");
+  }
+
+  const data = stringToBytes(plaintext);
+  const streamId = toBase64(nacl.randomBytes(STREAM_HEADER_LENGTH));
+  const envelopes: EncryptedEnvelope[] = [];
+  let offset = 0;
+  do {
+    const end = Math.min(offset + chunkSize, data.length);
+    envelopes.push(
+      sealEnvelopeBytes(sender, key, data.subarray(offset, end), {
+        streamId,
+        index: envelopes.length,
+        final: end === data.length,
+      }),
+    );
+    offset = end;
+  } while (offset < data.length);
+
+  return envelopes;
+}
+
+/**
+ * Why a chunk envelope was rejected. The whole stream is dropped.
+ */
+export type ChunkError = EnvelopeError | "too_large" | "too_many";
+
+export type AddChunkResult =
+  | { status: "pending" }
+  | { status: "complete"; plaintext: string }
+  | { status: "error"; error: ChunkError };
+
+interface PendingStream {
+  /** Decrypted chunks by index */
+  parts: Map<number, Uint8Array>;
+  /** Index of the final chunk, once it has arrived */
+  finalIndex: number | null;
+  bytes: number;
+  startedAt: number;
+}
+
+/**
+ * Collects chunk envelopes from the peer back into whole events.
+ */
+export interface ChunkReassembler {
+  /** Receive state shared with the session's other envelopes */
+  receiver: EnvelopeReceiver;
+  key: Uint8Array;
+  maxBytes: number;
+  maxPending: number;
+  streams: Map<string, PendingStream>;
+}
+
+/**
+ * Create a reassembler for chunks opened with `receiver` and `key` (our
+ * receiveKey).
+ */
+export function createChunkReassembler(
+  receiver: EnvelopeReceiver,
+  key: Uint8Array,
+  options: { maxBytes?: number; maxPending?: number } = {},
+): ChunkReassembler {
+  return {
+    receiver,
+    key,
+    maxBytes: options.maxBytes ?? STREAM_MAX_BYTES,
+    maxPending: options.maxPending ?? STREAM_MAX_PENDING,
+    streams: new Map(),
+  };
+}
+
+/**
+ * Add a chunk envelope. Returns the event once all its chunks are in.
+ */
+export function addChunk(
+  reassembler: ChunkReassembler,
+  envelope: EncryptedEnvelope,
+  options: EnvelopeTimeOptions = {},
+): AddChunkResult {
+  const { chunk } = envelope;
+  if (!chunk) return { status: "error", error: "malformed" };
+
+  let stream = reassembler.streams.get(chunk.streamId);
+  if (!stream && reassembler.streams.size >= reassembler.maxPending) {
+    return { status: "error", error: "too_many" };
+  }
+
+  const opened = openEnvelopeBytes(
+    reassembler.receiver,
+    reassembler.key,
+    envelope,
+    options,
+  );
+  if (!opened.ok) return fail(reassembler, chunk.streamId, opened.error);
+
+  if (!stream) {
+    stream = {
+      parts: new Map(),
+      finalIndex: null,
+      bytes: 0,
+      startedAt: options.now ?? Date.now(),
+    };
+    reassembler.streams.set(chunk.streamId, stream);
+  }
+
+  const finalIndex = chunk.final ? chunk.index : stream.finalIndex;
+  if (
+    stream.parts.has(chunk.index) ||
+    (chunk.final && stream.finalIndex !== null) ||
+    (finalIndex !== null &&
+      [chunk.index, ...stream.parts.keys()].some((i) => i > finalIndex))
+  ) {
+    return fail(reassembler, chunk.streamId, "malformed");
+  }
+  stream.bytes += opened.plaintext.length;
+  if (stream.bytes > reassembler.maxBytes) {
+    return fail(reassembler, chunk.streamId, "too_large");
+  }
+  stream.parts.set(chunk.index, opened.plaintext);
+  stream.finalIndex = finalIndex;
+
+  if (finalIndex === null || stream.parts.size <= finalIndex) {
+    return { status: "pending" };
+  }
+
+  reassembler.streams.delete(chunk.streamId);
+  const parts = Array.from(
+    { length: finalIndex + 1 },
+    (_, i) =>
+      // Every index up to the final one is present, as checked above
+      stream.parts.get(i) ?? new Uint8Array(0),
+  );
+  return {
+    status: "complete",
+    plaintext: bytesToString(concatBytes(...parts)),
+  };
+}
+
+/**
+ * Drop streams that have not completed within `maxAgeMs`, e.g. because the
+ * sender disconnected mid-stream. Returns the ids of dropped streams.
+ */
+export function pruneChunkStreams(
+  reassembler: ChunkReassembler,
+  maxAgeMs: number,
+  now: number = Date.now(),
+): string[] {
+  const dropped: string[] = [];
+  for (const [streamId, stream] of reassembler.streams) {
+    if (now - stream.startedAt > maxAgeMs) {
+      reassembler.streams.delete(streamId);
+      dropped.push(streamId);
+    }
+  }
+  return dropped;
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function chunkNonce(header: Uint8Array, index: number): Uint8Array {
+  const nonce = new Uint8Array(nacl.secretbox.nonceLength);
+  nonce.set(header);
+  new DataView(nonce.buffer).setUint32(nonce.length - 4, index);
+  return nonce;
+}
+
+function fail(
+  reassembler: ChunkReassembler,
+  streamId: string,
+  error: ChunkError,
+): AddChunkResult {
+  reassembler.streams.delete(streamId);
+  return { status: "error", error };
+}